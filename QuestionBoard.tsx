@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useMemo } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { 
   Type, 
   Link as LinkIcon, 
@@ -16,33 +16,57 @@ import {
   Type as TypeIcon, 
   Edit3, 
   Share2, 
-  Download, 
   Heart, 
   AlertTriangle, 
+  AlertCircle,
   Pencil,
   Copy,
   Globe,
   FileDown,
-  Check
+  Check,
+  ClipboardCheck,
+  FileText,
+  KeyRound,
+  Loader2,
+  Printer,
+  Undo2,
+  Redo2,
+  FolderOpen,
+  CloudOff,
+  ArrowRightLeft,
+  ArrowUpDown,
+  Crosshair,
+  Calculator,
+  Table,
+  Group,
+  Ungroup,
+  ClipboardCopy,
+  LibraryBig,
+  FileInput,
+  GraduationCap,
+  WifiOff,
+  Timer
 } from "lucide-react";
-import { Block, BlockType, DragItem, QuestionType, WorksheetData, GroupBlock, QuestionBlock, TextBlock } from "./types";
-import { createBlock, decodeState, duplicateBlockHelper, encodeState, downloadFile } from "./helpers";
+import { Block, BlockType, DragItem, QuestionType, WorksheetData, GroupBlock, QuestionBlock, LibraryEntry } from "./types";
+import { createBlock, decodeState, duplicateBlockHelper, encodeState, downloadFile, focusBlock, generateId, getNumbering, getStudentSeed, parseCopiedBlocks, serializeBlocks, SHARE_LINK_WARN_LENGTH, slugify, splitIntoPages } from "./helpers";
+import { formatBytes } from "./images";
+import { gradeWorksheet } from "./grading";
+import { exportWorksheetPdf } from "./pdf";
+import { exportOfflineHtml } from "./offline";
+import { CURRENT_SCHEMA_VERSION, SchemaIssue, loadWorksheet, normalizeHexColor } from "./schema";
+import { useHistory } from "./history";
+import { getCurrentDraftId, getWorksheet, saveDraft, setCurrentDraftId } from "./library";
 import { ThemeContext } from "./ThemeContext";
-import { ThemeStyle, TooltipButton, SimpleMarkdown, EmbedRenderer } from "./components/UIComponents";
+import { ThemeStyle, TooltipButton, EmbedRenderer, SchemaIssuesNotice } from "./components/UIComponents";
+import { Markdown } from "./components/Markdown";
 import { EditorBlockWrapper } from "./components/EditorBlockWrapper";
-import { MultipleChoicePlayer, OpenAnswerPlayer, ClozeTextPlayer, ClozeDropdownPlayer, DragInlinePlayer } from "./components/PlayerComponents";
-
-// Helper to convert number to Roman numeral
-const toRoman = (num: number) => {
-  const roman: {[key: string]: number} = { m: 1000, cm: 900, d: 500, cd: 400, c: 100, xc: 90, l: 50, xl: 40, x: 10, ix: 9, v: 5, iv: 4, i: 1 };
-  let str = '';
-  for (const i of Object.keys(roman)) {
-    const q = Math.floor(num / roman[i]);
-    num -= q * roman[i];
-    str += i.repeat(q);
-  }
-  return str;
-}
+import { QuestionPlayer, QuestionFeedback, ScoreSummary } from "./components/PlayerComponents";
+import { PrintView, usePrintMode } from "./components/PrintComponents";
+import { Library } from "./components/Library";
+import { QuestionBank, SaveToBankDialog } from "./components/QuestionBank";
+import { TextImport } from "./components/TextImport";
+import { LmsExchange } from "./components/LmsExchange";
+import { AssessmentDialog } from "./components/AssessmentDialog";
 
 // Robust Recursive Remove
 const removeBlockRecursive = (blocks: Block[], id: string): Block[] => {
@@ -68,6 +92,30 @@ const findBlock = (blocks: Block[], id: string): Block | null => {
   return null;
 };
 
+// Where a block sits: its parent group (undefined at the top level) and its index among its siblings
+const locateBlock = (blocks: Block[], id: string, parentId?: string): { parentId?: string, index: number, siblings: Block[] } | null => {
+  const index = blocks.findIndex(b => b.id === id);
+  if (index !== -1) return { parentId, index, siblings: blocks };
+  for (const b of blocks) {
+    if (b.type === 'group') {
+      const found = locateBlock((b as GroupBlock).children, id, b.id);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+// The selected blocks in document order. A selected group carries its children, so those aren't listed again.
+const collectSelected = (blocks: Block[], ids: string[]): Block[] =>
+  blocks.flatMap(b => (ids.includes(b.id) ? [b] : b.type === 'group' ? collectSelected((b as GroupBlock).children, ids) : []));
+
+// Every selectable block id in document order (page breaks aren't selectable)
+const flattenIds = (blocks: Block[]): string[] =>
+  blocks.flatMap(b => (b.type === 'group' ? [b.id, ...flattenIds((b as GroupBlock).children)] : b.type === 'divider' ? [] : [b.id]));
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+
 // Recursive helper to insert a block
 const insertBlockAt = (blocks: Block[], parentId: string | undefined, index: number, block: Block): Block[] => {
   if (!parentId) {
@@ -93,15 +141,33 @@ const insertBlockAt = (blocks: Block[], parentId: string | undefined, index: num
   });
 };
 
+const createWorksheet = (): WorksheetData => ({
+  title: "Untitled Worksheet",
+  description: "Fill out the questions below.",
+  blocks: [],
+  design: { accentColor: '#6366f1', font: 'sans' },
+  schemaVersion: CURRENT_SCHEMA_VERSION
+});
+
+const AUTOSAVE_DELAY = 600;
+
 export const Builder = () => {
-  const [data, setData] = useState<WorksheetData>({
-    title: "Untitled Worksheet",
-    description: "Fill out the questions below.",
-    blocks: [],
-    design: { accentColor: '#6366f1', font: 'sans' }
-  });
+  const { present: data, set: setData, reset: resetData, undo, redo, canUndo, canRedo } = useHistory<WorksheetData>(createWorksheet());
+  const [draftId, setDraftId] = useState(generateId);
+  const [draftReady, setDraftReady] = useState(false);
+  const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showBank, setShowBank] = useState(false);
+  const [bankSaving, setBankSaving] = useState<Block | null>(null);
+  const [bankRevision, setBankRevision] = useState(0);
+  const [showTextImport, setShowTextImport] = useState(false);
+  const [showLms, setShowLms] = useState(false);
+  const [showAssessment, setShowAssessment] = useState(false);
+  const lastSaved = useRef(data);
+  const [loadIssues, setLoadIssues] = useState<SchemaIssue[]>([]);
   const [mode, setMode] = useState<'edit' | 'preview'>('edit');
   const [answers, setAnswers] = useState<Record<string, any>>({});
+  const [checked, setChecked] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showColorPicker, setShowColorPicker] = useState(false);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
@@ -109,18 +175,107 @@ export const Builder = () => {
   const [dragTarget, setDragTarget] = useState<{id: string, pos: 'top'|'bottom'|'inside'} | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [draggedType, setDraggedType] = useState<BlockType | null>(null);
+  const [selection, setSelection] = useState<string[]>([]);
+  const selectionAnchor = useRef<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [publishLink, setPublishLink] = useState('');
+  const [pdfBusy, setPdfBusy] = useState<'student' | 'teacher' | null>(null);
+  const [offlineBusy, setOfflineBusy] = useState(false);
+  const [offlineResult, setOfflineResult] = useState<{ issues: string[] } | { error: string } | null>(null);
+  const printMode = usePrintMode();
+
+  const persistDraft = useCallback((id: string, value: WorksheetData) => {
+    lastSaved.current = value;
+    setSaveState('saving');
+    return saveDraft(id, value)
+      .then(() => { setCurrentDraftId(id); setSaveState('saved'); })
+      .catch(e => { console.error("Failed to save draft", e); setSaveState('error'); });
+  }, []);
+
+  // Replaces the worksheet without an undo step or an autosave, e.g. when opening a draft
+  const loadDraft = useCallback((id: string, value: WorksheetData, issues: SchemaIssue[] = []) => {
+    lastSaved.current = value;
+    resetData(value);
+    setLoadIssues(issues);
+    setDraftId(id);
+    setAnswers({});
+    setChecked(false);
+    setSaveState('idle');
+  }, [resetData]);
+
+  const openDraft = useCallback((entry: LibraryEntry) => {
+    const loaded = loadWorksheet(entry.data);
+    loadDraft(entry.id, loaded.data, loaded.issues);
+    setCurrentDraftId(entry.id);
+    setMode('edit');
+    setShowLibrary(false);
+    // Drop a share link from the URL so a reload restores this draft instead
+    if (window.location.hash) window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }, [loadDraft]);
+
+  const newDraft = useCallback((persist: boolean) => {
+    const id = generateId();
+    const blank = createWorksheet();
+    loadDraft(id, blank);
+    if (persist) persistDraft(id, blank);
+    setMode('edit');
+    if (window.location.hash) window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }, [loadDraft, persistDraft]);
 
   useEffect(() => {
     const hash = window.location.hash;
     if (hash.startsWith("#data=")) {
-      const decoded = decodeState(hash);
-      if (decoded) {
-        setData(decoded);
-        setMode('preview');
-      }
+      // A shared link opens as a new draft, saved once it's edited
+      decodeState(hash)
+        .then(loaded => {
+          loadDraft(generateId(), loaded.data, loaded.issues);
+          setMode('preview');
+        })
+        .catch(e => console.error("Failed to decode", e))
+        .finally(() => setDraftReady(true));
+      return;
     }
-  }, []);
+    const id = getCurrentDraftId();
+    if (!id) {
+      setDraftReady(true);
+      return;
+    }
+    getWorksheet(id)
+      .then(entry => {
+        if (!entry) return;
+        const loaded = loadWorksheet(entry.data);
+        loadDraft(entry.id, loaded.data, loaded.issues);
+      })
+      .catch(e => console.error("Failed to restore draft", e))
+      .finally(() => setDraftReady(true));
+  }, [loadDraft]);
+
+  // Autosave a moment after the last edit
+  useEffect(() => {
+    if (!draftReady || data === lastSaved.current) return;
+    setSaveState('saving');
+    const timer = setTimeout(() => {
+      if (data !== lastSaved.current) persistDraft(draftId, data);
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [data, draftId, draftReady, persistDraft]);
+
+  const openLibrary = async () => {
+    if (draftReady && data !== lastSaved.current) await persistDraft(draftId, data);
+    setShowLibrary(true);
+  };
+
+  useEffect(() => {
+    if (mode !== 'edit' || showLibrary || bankSaving || showTextImport || showLms || showAssessment) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); undo(); }
+      else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); redo(); }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [mode, showLibrary, bankSaving, showTextImport, showLms, showAssessment, undo, redo]);
 
   const handleDragEnd = useCallback(() => {
     setDragTarget(null);
@@ -140,7 +295,7 @@ export const Builder = () => {
         });
       };
       return { ...prev, blocks: updateRecursive(prev.blocks) };
-    });
+    }, `block:${id}`);
   }, []);
 
   const removeBlock = useCallback((id: string, _parentId: string | undefined) => {
@@ -171,6 +326,196 @@ export const Builder = () => {
     });
   }, []);
 
+  // Keyboard moves: up/down among siblings, 'in' to the end of the group just above, 'out' to right after its group
+  const moveBlock = useCallback((id: string, direction: 'up' | 'down' | 'in' | 'out') => {
+    setData(prev => {
+      const location = locateBlock(prev.blocks, id);
+      if (!location) return prev;
+      const { parentId, index, siblings } = location;
+      const block = siblings[index];
+      const remaining = removeBlockRecursive(prev.blocks, id);
+      if (direction === 'up' || direction === 'down') {
+        const target = index + (direction === 'up' ? -1 : 1);
+        if (target < 0 || target >= siblings.length) return prev;
+        return { ...prev, blocks: insertBlockAt(remaining, parentId, target, block) };
+      }
+      if (direction === 'in') {
+        const group = siblings[index - 1];
+        if (parentId || !group || group.type !== 'group' || block.type === 'group' || block.type === 'divider') return prev;
+        return { ...prev, blocks: insertBlockAt(remaining, group.id, group.children.length, block) };
+      }
+      const parent = parentId ? locateBlock(prev.blocks, parentId) : null;
+      if (!parent) return prev;
+      return { ...prev, blocks: insertBlockAt(remaining, parent.parentId, parent.index + 1, block) };
+    });
+    focusBlock(id);
+  }, []);
+
+  // Slash commands: the new block goes right after the one being edited, or replaces it if that was an empty text block
+  const insertBlockNear = useCallback((anchorId: string, block: Block, replaceAnchor: boolean) => {
+    setData(prev => {
+      const anchor = locateBlock(prev.blocks, anchorId);
+      if (!anchor) return prev;
+      // Groups and page breaks only live at the top level, so from inside a group they go after it
+      const outer = anchor.parentId && (block.type === 'group' || block.type === 'divider') ? locateBlock(prev.blocks, anchor.parentId) : null;
+      const target = outer || anchor;
+      const blocks = replaceAnchor ? removeBlockRecursive(prev.blocks, anchorId) : prev.blocks;
+      return { ...prev, blocks: insertBlockAt(blocks, target.parentId, replaceAnchor && !outer ? anchor.index : target.index + 1, block) };
+    });
+    focusBlock(block.id, block.type !== 'divider');
+  }, []);
+
+  // Ctrl/Cmd-click toggles a block, Shift-click selects the range from the last clicked block, a plain click clears
+  const selectBlock = useCallback((id: string, how: 'toggle' | 'range' | 'clear') => {
+    if (how === 'clear') {
+      setSelection(prev => (prev.length ? [] : prev));
+      return;
+    }
+    const order = flattenIds(data.blocks);
+    const from = selectionAnchor.current ? order.indexOf(selectionAnchor.current) : -1;
+    if (how === 'range' && from !== -1) {
+      const to = order.indexOf(id);
+      setSelection(prev => Array.from(new Set([...prev, ...order.slice(Math.min(from, to), Math.max(from, to) + 1)])));
+      return;
+    }
+    selectionAnchor.current = id;
+    setSelection(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+  }, [data.blocks]);
+
+  const selectedBlocks = useMemo(() => collectSelected(data.blocks, selection), [data.blocks, selection]);
+  const canWrapSelection = selectedBlocks.length > 0 && selectedBlocks.every(b => b.type !== 'group' && b.type !== 'divider');
+  const canUngroupSelection = selectedBlocks.some(b => b.type === 'group' || locateBlock(data.blocks, b.id)?.parentId);
+
+  const deleteSelection = useCallback(() => {
+    setData(prev => ({ ...prev, blocks: selectedBlocks.reduce((blocks, b) => removeBlockRecursive(blocks, b.id), prev.blocks) }));
+    setSelection([]);
+  }, [selectedBlocks]);
+
+  // Each copy goes right after its original
+  const duplicateSelection = useCallback(() => {
+    const copies = selectedBlocks.map(duplicateBlockHelper);
+    setData(prev => ({
+      ...prev,
+      blocks: selectedBlocks.reduce((blocks, b, idx) => {
+        const location = locateBlock(blocks, b.id);
+        return location ? insertBlockAt(blocks, location.parentId, location.index + 1, copies[idx]) : blocks;
+      }, prev.blocks)
+    }));
+    setSelection(copies.map(c => c.id));
+  }, [selectedBlocks]);
+
+  // The new group takes the place of the first selected block, or goes right after the group it was in
+  const wrapSelection = useCallback(() => {
+    if (!canWrapSelection) return;
+    const ids = selectedBlocks.map(b => b.id);
+    const group: GroupBlock = { ...(createBlock('group') as GroupBlock), children: selectedBlocks };
+    setData(prev => {
+      let placed = false;
+      const blocks = prev.blocks.flatMap((b): Block[] => {
+        if (ids.includes(b.id)) {
+          if (placed) return [];
+          placed = true;
+          return [group];
+        }
+        if (b.type !== 'group' || !(b as GroupBlock).children.some(c => ids.includes(c.id))) return [b];
+        const rest = { ...b, children: (b as GroupBlock).children.filter(c => !ids.includes(c.id)) };
+        if (placed) return [rest];
+        placed = true;
+        return [rest, group];
+      });
+      return { ...prev, blocks };
+    });
+    setSelection([group.id]);
+  }, [selectedBlocks, canWrapSelection]);
+
+  // Selected groups dissolve into their children; selected blocks inside a group move out to just after it
+  const ungroupSelection = useCallback(() => {
+    const ids = selectedBlocks.map(b => b.id);
+    setData(prev => ({
+      ...prev,
+      blocks: prev.blocks.flatMap((b): Block[] => {
+        if (b.type !== 'group') return [b];
+        const children = (b as GroupBlock).children;
+        if (ids.includes(b.id)) return children;
+        const moved = children.filter(c => ids.includes(c.id));
+        return moved.length ? [{ ...b, children: children.filter(c => !ids.includes(c.id)) } as GroupBlock, ...moved] : [b];
+      })
+    }));
+    setSelection(prev => prev.filter(id => !selectedBlocks.some(b => b.id === id && b.type === 'group')));
+  }, [selectedBlocks]);
+
+  const copySelection = useCallback(() => {
+    if (selectedBlocks.length) navigator.clipboard.writeText(serializeBlocks(selectedBlocks));
+  }, [selectedBlocks]);
+
+  // Pasted blocks go after the last selected block, or the focused one, or at the end
+  const pasteBlocks = useCallback((blocks: Block[]) => {
+    const focused = (document.activeElement as HTMLElement | null)?.closest<HTMLElement>('[data-block-id]')?.dataset.blockId;
+    const anchorId = selectedBlocks[selectedBlocks.length - 1]?.id || focused;
+    setData(prev => {
+      const anchor = anchorId ? locateBlock(prev.blocks, anchorId) : null;
+      // Groups and page breaks only live at the top level
+      const target = anchor?.parentId && blocks.some(b => b.type === 'group' || b.type === 'divider') ? locateBlock(prev.blocks, anchor.parentId) : anchor;
+      const index = target ? target.index + 1 : prev.blocks.length;
+      return { ...prev, blocks: [...blocks].reverse().reduce((acc, b) => insertBlockAt(acc, target?.parentId, index, b), prev.blocks) };
+    });
+    setSelection(blocks.filter(b => b.type !== 'divider').map(b => b.id));
+  }, [selectedBlocks]);
+
+  useEffect(() => {
+    if (mode !== 'edit') {
+      setSelection([]);
+      setShowBank(false);
+    }
+  }, [mode]);
+
+  useEffect(() => {
+    if (mode !== 'edit' || showLibrary || bankSaving || showTextImport || showLms || showAssessment) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!selection.length || isTextField(e.target)) return;
+      if (e.key === 'Escape') setSelection([]);
+      else if (e.key === 'Delete' || e.key === 'Backspace') deleteSelection();
+      else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'd') duplicateSelection();
+      else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'g') { if (e.shiftKey) ungroupSelection(); else wrapSelection(); }
+      else return;
+      e.preventDefault();
+    };
+    // Outside text fields, copy takes the selected blocks; paste accepts blocks copied from any worksheet
+    const handleCopy = (e: ClipboardEvent) => {
+      if (!selectedBlocks.length || isTextField(e.target)) return;
+      e.preventDefault();
+      e.clipboardData?.setData('text/plain', serializeBlocks(selectedBlocks));
+    };
+    const handlePaste = (e: ClipboardEvent) => {
+      const blocks = parseCopiedBlocks(e.clipboardData?.getData('text/plain') || '');
+      if (!blocks) return;
+      e.preventDefault();
+      pasteBlocks(blocks);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [mode, showLibrary, bankSaving, showTextImport, showLms, showAssessment, selection, selectedBlocks, deleteSelection, duplicateSelection, wrapSelection, ungroupSelection, pasteBlocks]);
+
+  // Text and LMS imports. Appended blocks get fresh ids, since JSON blocks in the text may come from this very worksheet
+  const importBlocks = useCallback((parsed: { title?: string, description?: string, blocks: Block[] }, how: 'append' | 'replace') => {
+    setData(prev => how === 'append'
+      ? { ...prev, blocks: [...prev.blocks, ...parsed.blocks.map(duplicateBlockHelper)] }
+      : {
+          ...prev,
+          title: parsed.title ?? prev.title,
+          description: parsed.title !== undefined ? parsed.description || '' : prev.description,
+          blocks: parsed.blocks
+        });
+    setShowTextImport(false);
+    setShowLms(false);
+  }, []);
+
   const addBlock = useCallback((type: BlockType, qType?: QuestionType) => {
     setData(prev => ({ ...prev, blocks: [...prev.blocks, createBlock(type, qType)] }));
   }, []);
@@ -181,20 +526,29 @@ export const Builder = () => {
     const item: DragItem = JSON.parse(dataStr);
 
     setData(prev => {
-      let movingBlock: Block;
+      let movingBlocks: Block[];
       let currentBlocks = [...prev.blocks];
 
       if (item.type === 'new-block') {
          if (!item.payload) return prev;
-         movingBlock = createBlock(item.payload.type, item.payload.qType);
+         movingBlocks = [createBlock(item.payload.type, item.payload.qType)];
+      } else if (item.type === 'bank-block') {
+         // The bank keeps its copy; the worksheet gets one with fresh ids
+         if (!item.block) return prev;
+         movingBlocks = [duplicateBlockHelper(item.block)];
       } else {
-         const found = findBlock(currentBlocks, item.id!);
-         if (!found) return prev;
-         movingBlock = found;
-         currentBlocks = removeBlockRecursive(currentBlocks, item.id!);
+         movingBlocks = collectSelected(currentBlocks, item.ids || [item.id!]);
+         if (movingBlocks.length === 0) return prev;
+         // Dropping a selection onto or into one of its own blocks
+         const movingIds = flattenIds(movingBlocks);
+         if ((targetId && movingIds.includes(targetId)) || (targetParentId && movingIds.includes(targetParentId))) return prev;
+         // Indexes were measured with the moving blocks still in place
+         const siblings = targetParentId ? ((findBlock(currentBlocks, targetParentId) as GroupBlock | null)?.children || []) : currentBlocks;
+         if (targetIndex !== undefined) targetIndex -= siblings.slice(0, targetIndex).filter(b => movingIds.includes(b.id)).length;
+         currentBlocks = movingBlocks.reduce((blocks, b) => removeBlockRecursive(blocks, b.id), currentBlocks);
       }
 
-      if (movingBlock.type === 'divider' && targetParentId) return prev;
+      if (targetParentId && movingBlocks.some(b => b.type === 'divider' || b.type === 'group')) return prev;
 
       let finalIndex = targetIndex;
 
@@ -220,7 +574,7 @@ export const Builder = () => {
       
       if (finalIndex === undefined) finalIndex = -1; 
 
-      const finalBlocks = insertBlockAt(currentBlocks, targetParentId, finalIndex, movingBlock);
+      const finalBlocks = [...movingBlocks].reverse().reduce((blocks, b) => insertBlockAt(blocks, targetParentId, finalIndex!, b), currentBlocks);
       return { ...prev, blocks: finalBlocks };
     });
     setDragTarget(null);
@@ -244,20 +598,24 @@ export const Builder = () => {
     return segs;
   }, [data.blocks]);
 
+  const report = useMemo(() => (checked ? gradeWorksheet(data, answers, getStudentSeed()) : null), [data, answers, checked]);
+
   const presetColors = ['#64748b', '#ef4444', '#f97316', '#f59e0b', '#22c55e', '#06b6d4', '#3b82f6', '#6366f1', '#d946ef', '#ec4899'];
-  
-  const getNumbering = (depth: number, index: number) => {
-     if (depth === 0) return `${index + 1}.`;
-     if (depth === 1) return `${String.fromCharCode(97 + index)}.`;
-     if (depth >= 2) return `${toRoman(index + 1)}.`;
-     return '';
-  }
 
   let questionCounter = 0;
   let previewQuestionCounter = 0;
 
   // Publish Actions
-  const publishLink = `${window.location.origin}/answer#data=${encodeState(data)}`;
+  useEffect(() => {
+    if (!showPublishModal) return;
+    let cancelled = false;
+    setPublishLink('');
+    setOfflineResult(null);
+    encodeState(data)
+      .then(encoded => { if (!cancelled) setPublishLink(`${window.location.origin}/answer#data=${encoded}`); })
+      .catch(e => console.error("Failed to encode", e));
+    return () => { cancelled = true; };
+  }, [showPublishModal, data]);
   const handleCopyLink = () => {
       navigator.clipboard.writeText(publishLink);
       setCopied(true);
@@ -266,6 +624,37 @@ export const Builder = () => {
   const handleDownloadFile = () => {
       downloadFile(`worksheet-${Date.now()}.wks`, JSON.stringify(data), 'application/json');
   };
+  const handleDownloadPdf = async (copy: 'student' | 'teacher') => {
+      setPdfBusy(copy);
+      try {
+          await exportWorksheetPdf(data, copy === 'teacher');
+      } catch (e) {
+          console.error("Failed to export PDF", e);
+      } finally {
+          setPdfBusy(null);
+      }
+  };
+  const handleDownloadOffline = async () => {
+      setOfflineBusy(true);
+      try {
+          const { html, issues } = await exportOfflineHtml(data);
+          downloadFile(`${slugify(data.title) || 'worksheet'}.html`, html, 'text/html');
+          setOfflineResult({ issues });
+      } catch (e) {
+          setOfflineResult({ error: (e as Error).message || "The offline file couldn't be created." });
+      } finally {
+          setOfflineBusy(false);
+      }
+  };
+
+  if (printMode) {
+      return (
+        <ThemeContext.Provider value={data.design || { accentColor: '#6366f1', font: 'sans' }}>
+          <ThemeStyle color={data.design?.accentColor || '#6366f1'} />
+          <PrintView data={data} showKey={new URLSearchParams(window.location.search).has('key')} />
+        </ThemeContext.Provider>
+      );
+  }
 
   return (
     <ThemeContext.Provider value={data.design || { accentColor: '#6366f1', font: 'sans' }}>
@@ -277,8 +666,62 @@ export const Builder = () => {
               <div className="w-8 h-8 bg-[var(--primary)] rounded-lg flex items-center justify-center text-white font-bold">W</div>
               <span className="font-bold text-slate-800">Worksheeter</span>
            </div>
+           <div className="flex items-center gap-4">
+              {saveState === 'saving' && <span className="text-xs text-slate-400 flex items-center gap-1"><Loader2 size={12} className="animate-spin" /> Saving…</span>}
+              {saveState === 'saved' && <span className="text-xs text-slate-400 flex items-center gap-1"><Check size={12} /> Saved</span>}
+              {saveState === 'error' && <span title="This browser isn't allowing local storage. Download a .wks file to keep your work." className="text-xs text-red-500 flex items-center gap-1"><CloudOff size={12} /> Not saved</span>}
+              {mode === 'edit' && (
+                <button onClick={() => setShowBank(!showBank)} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg transition-colors text-sm font-medium ${showBank ? 'bg-slate-100 text-slate-900' : 'text-slate-600 hover:text-slate-900 hover:bg-slate-100'}`}>
+                   <LibraryBig size={16} /> Question Bank
+                </button>
+              )}
+              <button onClick={openLibrary} className="flex items-center gap-2 text-slate-600 hover:text-slate-900 hover:bg-slate-100 px-3 py-1.5 rounded-lg transition-colors text-sm font-medium">
+                 <FolderOpen size={16} /> My Worksheets
+              </button>
+           </div>
         </div>
 
+        {showLibrary && (
+          <Library
+            currentId={draftId}
+            onOpen={openDraft}
+            onNew={() => { newDraft(true); setShowLibrary(false); }}
+            onRenamed={(id, title) => { if (id === draftId) setData(prev => ({ ...prev, title })); }}
+            onDeleted={(id) => { if (id === draftId) newDraft(false); }}
+            onClose={() => setShowLibrary(false)}
+          />
+        )}
+
+        {showBank && (
+          <QuestionBank
+            revision={bankRevision}
+            onInsert={(block) => pasteBlocks([duplicateBlockHelper(block)])}
+            onDragStart={(t) => { setDraggedType(t); setIsDragging(true); }}
+            onDragEnd={handleDragEnd}
+            onClose={() => setShowBank(false)}
+          />
+        )}
+
+        {showTextImport && <TextImport current={data} onImport={importBlocks} onClose={() => setShowTextImport(false)} />}
+
+        {showLms && <LmsExchange current={data} onImport={importBlocks} onClose={() => setShowLms(false)} />}
+        {showAssessment && (
+          <AssessmentDialog
+            value={data.assessment}
+            pageCount={splitIntoPages(data.blocks).length}
+            onSave={(assessment) => { setData(prev => ({ ...prev, assessment })); setShowAssessment(false); }}
+            onClose={() => setShowAssessment(false)}
+          />
+        )}
+
+        {bankSaving && (
+          <SaveToBankDialog
+            block={bankSaving}
+            onSaved={() => { setBankSaving(null); setBankRevision(r => r + 1); setShowBank(true); }}
+            onClose={() => setBankSaving(null)}
+          />
+        )}
+
         <div className={`w-full max-w-5xl px-4 md:px-12 pt-32 ${data.design?.font === 'serif' ? 'font-serif' : data.design?.font === 'mono' ? 'font-mono' : 'font-sans'}`} id="preview-container">
             
             {mode === 'edit' ? (
@@ -290,7 +733,7 @@ export const Builder = () => {
                             <AlertTriangle size={24} />
                             <h3 className="font-bold text-lg">Clear Worksheet?</h3>
                          </div>
-                         <p className="text-slate-600 mb-6">This will remove all questions and reset the worksheet. This action cannot be undone.</p>
+                         <p className="text-slate-600 mb-6">This will remove all questions and reset the worksheet. You can bring them back with Undo (Ctrl+Z).</p>
                          <div className="flex justify-end gap-3">
                             <button onClick={() => setShowClearConfirm(false)} className="px-4 py-2 rounded-lg font-medium text-slate-600 hover:bg-slate-100 transition-colors">Cancel</button>
                             <button onClick={() => { setData(prev => ({ ...prev, blocks: [] })); setShowClearConfirm(false); }} className="px-4 py-2 rounded-lg font-medium bg-red-600 text-white hover:bg-red-700 transition-colors shadow-sm">Clear All</button>
@@ -347,13 +790,13 @@ export const Builder = () => {
                                 className="text-4xl font-bold w-full outline-none placeholder-slate-300 bg-transparent text-slate-900"
                                 placeholder="Untitled Worksheet"
                                 value={data.title}
-                                onChange={(e) => setData({ ...data, title: e.target.value })}
+                                onChange={(e) => setData({ ...data, title: e.target.value }, 'title')}
                               />
                               <input 
                                 className="text-lg text-slate-500 w-full outline-none placeholder-slate-300 bg-transparent"
                                 placeholder="Add a description..."
                                 value={data.description}
-                                onChange={(e) => setData({ ...data, description: e.target.value })}
+                                onChange={(e) => setData({ ...data, description: e.target.value }, 'description')}
                               />
                             </div>
                           )}
@@ -396,6 +839,11 @@ export const Builder = () => {
                                     updateBlock={updateBlock} 
                                     removeBlock={removeBlock}
                                     duplicateBlock={duplicateBlock}
+                                    moveBlock={moveBlock}
+                                    insertBlockNear={insertBlockNear}
+                                    onSaveToBank={setBankSaving}
+                                    selection={selection}
+                                    onSelectBlock={selectBlock}
                                     handleDrop={handleDragDrop}
                                     label={label}
                                     dragTarget={dragTarget}
@@ -436,7 +884,7 @@ export const Builder = () => {
                   {/* Publish Modal */}
                   {showPublishModal && (
                      <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 font-sans">
-                        <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6 animate-in zoom-in-95">
+                        <div className="bg-white rounded-xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto p-6 animate-in zoom-in-95">
                            <div className="flex items-center justify-between mb-6">
                               <h3 className="font-bold text-xl text-slate-800 flex items-center gap-2"><Globe size={20} className="text-blue-500"/> Publish Worksheet</h3>
                               <button onClick={() => setShowPublishModal(false)}><X size={20} className="text-slate-400 hover:text-slate-600"/></button>
@@ -446,13 +894,19 @@ export const Builder = () => {
                               <div>
                                  <label className="text-xs font-bold text-slate-500 uppercase mb-2 block">Share Link</label>
                                  <div className="flex gap-2">
-                                    <input readOnly value={publishLink} className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-600 outline-none" />
-                                    <button onClick={handleCopyLink} className="bg-slate-800 text-white px-4 py-2 rounded-lg hover:bg-slate-900 transition-colors flex items-center gap-2 font-medium">
+                                    <input readOnly value={publishLink} placeholder="Generating link..." className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-600 outline-none" />
+                                    <button onClick={handleCopyLink} disabled={!publishLink} className="disabled:opacity-50 bg-slate-800 text-white px-4 py-2 rounded-lg hover:bg-slate-900 transition-colors flex items-center gap-2 font-medium">
                                        {copied ? <Check size={16}/> : <Copy size={16}/>}
                                        {copied ? "Copied" : "Copy"}
                                     </button>
                                  </div>
                                  <p className="text-xs text-slate-400 mt-2">Anyone with this link can fill out the worksheet.</p>
+                                 {publishLink.length > SHARE_LINK_WARN_LENGTH && (
+                                    <div className="mt-2 p-3 bg-amber-50 border border-amber-200 text-amber-800 text-xs rounded-lg flex items-start gap-2">
+                                       <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+                                       <span>This link is {formatBytes(publishLink.length)} long, mostly from embedded images. Some email and chat apps cut off links this long. If it doesn't open, share the .wks file instead.</span>
+                                    </div>
+                                 )}
                               </div>
                               
                               <div className="relative">
@@ -466,13 +920,53 @@ export const Builder = () => {
                                     <FileDown size={18} />
                                     Download .wks file
                                  </button>
-                                 <p className="text-xs text-slate-400 mt-2">Users can upload this file on the answer page to fill it out.</p>
+                                 <p className="text-xs text-slate-400 mt-2">Users can upload this file on the answer page to fill it out. Grade the answer files they submit in the <a href="/results" className="text-[var(--primary)] hover:underline">Gradebook</a>.</p>
+                              </div>
+
+                              <div>
+                                 <label className="text-xs font-bold text-slate-500 uppercase mb-2 block">Offline File</label>
+                                 <button onClick={handleDownloadOffline} disabled={offlineBusy} className="w-full flex items-center justify-center gap-2 bg-white border border-slate-200 hover:border-slate-300 disabled:opacity-50 text-slate-700 font-medium py-3 rounded-lg transition-colors">
+                                    {offlineBusy ? <Loader2 size={18} className="animate-spin" /> : <WifiOff size={18} />}
+                                    Download offline .html
+                                 </button>
+                                 <p className="text-xs text-slate-400 mt-2">A single file that opens in any browser without internet, e.g. from a USB stick. Answers are kept in that browser, and students submit them as a file for the Gradebook.</p>
+                                 {offlineResult && 'error' in offlineResult && (
+                                    <div className="mt-2 p-3 bg-red-50 text-red-600 text-xs rounded-lg flex items-start gap-2">
+                                       <AlertCircle size={14} className="mt-0.5 flex-shrink-0" />
+                                       <span>{offlineResult.error}</span>
+                                    </div>
+                                 )}
+                                 {offlineResult && 'issues' in offlineResult && offlineResult.issues.length > 0 && (
+                                    <div className="mt-2 p-3 bg-amber-50 border border-amber-200 text-amber-800 text-xs rounded-lg flex items-start gap-2">
+                                       <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+                                       <ul className="list-disc pl-4 space-y-0.5">
+                                          {offlineResult.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                                       </ul>
+                                    </div>
+                                 )}
+                              </div>
+
+                              <div>
+                                 <label className="text-xs font-bold text-slate-500 uppercase mb-2 block">Download PDF</label>
+                                 <div className="grid grid-cols-2 gap-2">
+                                    <button onClick={() => handleDownloadPdf('student')} disabled={!!pdfBusy} className="flex items-center justify-center gap-2 bg-white border border-slate-200 hover:border-slate-300 disabled:opacity-50 text-slate-700 font-medium py-3 rounded-lg transition-colors">
+                                       {pdfBusy === 'student' ? <Loader2 size={18} className="animate-spin" /> : <FileText size={18} />}
+                                       Student copy
+                                    </button>
+                                    <button onClick={() => handleDownloadPdf('teacher')} disabled={!!pdfBusy} className="flex items-center justify-center gap-2 bg-white border border-slate-200 hover:border-slate-300 disabled:opacity-50 text-slate-700 font-medium py-3 rounded-lg transition-colors">
+                                       {pdfBusy === 'teacher' ? <Loader2 size={18} className="animate-spin" /> : <KeyRound size={18} />}
+                                       Teacher copy
+                                    </button>
+                                 </div>
+                                 <p className="text-xs text-slate-400 mt-2">The teacher copy has the answer key filled in. Page breaks start a new PDF page.</p>
                               </div>
                            </div>
                         </div>
                      </div>
                   )}
 
+                <SchemaIssuesNotice issues={loadIssues} onDismiss={() => setLoadIssues([])} />
+                {report && <ScoreSummary report={report} onClose={() => setChecked(false)} />}
                 {segments.map((segment, segIdx) => {
                     if (segment.length === 1 && segment[0].type === 'divider') return <div key={segment[0].id} className="h-px bg-slate-200 w-full my-8 break-before-page"></div>;
                     if (segment.length === 0 && segIdx !== 0) return null;
@@ -492,12 +986,13 @@ export const Builder = () => {
                              const label = (block.type === 'question' || block.type === 'group') ? getNumbering(0, relevantBlocks.length - 1) : '';
                              
                              const renderPreviewBlock = (b: Block, lbl: string, depth: number): React.ReactNode => {
-                                if (b.type === 'text') return <SimpleMarkdown text={b.content} />;
+                                if (b.type === 'text') return <Markdown text={b.content} />;
                                 if (b.type === 'embed') return <EmbedRenderer url={b.url} title={b.title} />;
                                 if (b.type === 'question') {
                                   previewQuestionCounter++; 
                                   
-                                  const q = b as any;
+                                  const q = b as QuestionBlock;
+                                  const result = report?.results[q.id];
                                   return (
                                       <div className="flex gap-4">
                                         <div className={`flex-shrink-0 w-8 h-8 rounded-lg ${depth === 0 ? 'bg-[var(--primary-100)] text-[var(--primary-700)]' : 'bg-slate-100 text-slate-600'} font-bold flex items-center justify-center text-sm select-none font-sans`}>
@@ -506,13 +1001,10 @@ export const Builder = () => {
                                         <div className="flex-1">
                                             <div className="flex flex-col md:flex-row gap-6">
                                                 <div className="flex-1">
-                                                    <div className="text-lg font-medium text-slate-900 mb-2">{q.prompt}</div>
-                                                    {(q.description && <div className="text-sm text-slate-500 italic mb-4 bg-slate-50 p-2 rounded inline-block">{q.description}</div>)}
-                                                    {q.qType === 'multiple-choice' && <MultipleChoicePlayer block={q} value={answers[q.id]} onChange={(v) => setAnswers(prev => ({...prev, [q.id]: v}))} />}
-                                                    {q.qType === 'open-answer' && <OpenAnswerPlayer value={answers[q.id]} onChange={(v) => setAnswers(prev => ({...prev, [q.id]: v}))} />}
-                                                    {q.qType === 'cloze-text' && <ClozeTextPlayer block={q} value={answers[q.id]} onChange={(v) => setAnswers(prev => ({...prev, [q.id]: v}))} />}
-                                                    {q.qType === 'cloze-dropdown' && <ClozeDropdownPlayer block={q} value={answers[q.id]} onChange={(v) => setAnswers(prev => ({...prev, [q.id]: v}))} />}
-                                                    {q.qType === 'drag-inline' && <DragInlinePlayer block={q} value={answers[q.id]} onChange={(v) => setAnswers(prev => ({...prev, [q.id]: v}))} />}
+                                                    <Markdown text={q.prompt} compact className="text-lg font-medium text-slate-900 mb-2" />
+                                                    {(q.description && <Markdown text={q.description} compact className="text-sm text-slate-500 italic mb-4 bg-slate-50 p-2 rounded inline-block" />)}
+                                                    <QuestionPlayer block={q} value={answers[q.id]} onChange={(v) => setAnswers(prev => ({...prev, [q.id]: v}))} result={result} />
+                                                    {result && <QuestionFeedback result={result} />}
                                                 </div>
                                                 {q.image && <div className="md:w-1/3 max-w-[300px] flex-shrink-0"><img src={q.image} className="w-full rounded-lg border" /></div>}
                                             </div>
@@ -549,6 +1041,7 @@ export const Builder = () => {
                     );
                 })}
             </div>
+            )}
         </div>
         <footer className="fixed bottom-0 left-0 w-full text-center text-slate-400 text-xs py-2 bg-slate-50/80 backdrop-blur-sm border-t border-slate-200 z-40 flex items-center justify-center gap-1 font-sans">
            made with <Heart size={10} className="text-red-500 fill-red-500" /> (and gemini) by daniel
@@ -556,6 +1049,17 @@ export const Builder = () => {
 
         {mode === 'edit' && (
            <div className="fixed bottom-20 left-1/2 -translate-x-1/2 z-50 animate-in slide-in-from-bottom-10 fade-in duration-300 font-sans w-[95%] md:w-auto max-w-full">
+              {selection.length > 0 && (
+                 <div className="mb-2 mx-auto w-fit bg-slate-800 text-white shadow-2xl rounded-xl px-2 py-1.5 flex flex-wrap items-center justify-center gap-1 text-sm">
+                    <span className="px-2 font-medium">{selectedBlocks.length} selected</span>
+                    <button title="Duplicate (Ctrl+D)" onClick={duplicateSelection} className="flex items-center gap-1.5 px-2 py-1 rounded-lg hover:bg-white/10"><Copy size={14} /> Duplicate</button>
+                    <button title="Wrap in a group (Ctrl+G)" onClick={wrapSelection} disabled={!canWrapSelection} className="flex items-center gap-1.5 px-2 py-1 rounded-lg hover:bg-white/10 disabled:opacity-40 disabled:pointer-events-none"><Group size={14} /> Group</button>
+                    <button title="Ungroup (Ctrl+Shift+G)" onClick={ungroupSelection} disabled={!canUngroupSelection} className="flex items-center gap-1.5 px-2 py-1 rounded-lg hover:bg-white/10 disabled:opacity-40 disabled:pointer-events-none"><Ungroup size={14} /> Ungroup</button>
+                    <button title="Copy (Ctrl+C), then paste into any worksheet" onClick={copySelection} className="flex items-center gap-1.5 px-2 py-1 rounded-lg hover:bg-white/10"><ClipboardCopy size={14} /> Copy</button>
+                    <button title="Delete (Del)" onClick={deleteSelection} className="flex items-center gap-1.5 px-2 py-1 rounded-lg hover:bg-red-500/80"><Trash2 size={14} /> Delete</button>
+                    <button title="Clear selection (Esc)" onClick={() => setSelection([])} className="p-1 rounded-lg hover:bg-white/10"><X size={14} /></button>
+                 </div>
+              )}
               <div className="bg-white shadow-2xl border border-slate-200/50 p-2 rounded-2xl flex flex-wrap justify-center items-center gap-1 md:gap-2">
                  <div className="flex gap-1 px-1 flex-shrink-0">
                     <TooltipButton icon={Type} label="Text" onClick={() => addBlock('text')} dragPayload={{type: 'text'}} onDragEnd={handleDragEnd} onDragStart={(t) => { setDraggedType(t); setIsDragging(true); }} />
@@ -569,12 +1073,22 @@ export const Builder = () => {
                     <TooltipButton icon={TextCursorInput} label="Cloze (Text)" onClick={() => addBlock('question', 'cloze-text')} dragPayload={{type: 'question', qType: 'cloze-text'}} onDragEnd={handleDragEnd} onDragStart={(t) => { setDraggedType(t); setIsDragging(true); }} />
                     <TooltipButton icon={ListOrdered} label="Cloze (Drop)" onClick={() => addBlock('question', 'cloze-dropdown')} dragPayload={{type: 'question', qType: 'cloze-dropdown'}} onDragEnd={handleDragEnd} onDragStart={(t) => { setDraggedType(t); setIsDragging(true); }} />
                     <TooltipButton icon={MousePointerClick} label="Drag & Drop" onClick={() => addBlock('question', 'drag-inline')} dragPayload={{type: 'question', qType: 'drag-inline'}} onDragEnd={handleDragEnd} onDragStart={(t) => { setDraggedType(t); setIsDragging(true); }} />
+                    <TooltipButton icon={ArrowRightLeft} label="Matching" onClick={() => addBlock('question', 'matching')} dragPayload={{type: 'question', qType: 'matching'}} onDragEnd={handleDragEnd} onDragStart={(t) => { setDraggedType(t); setIsDragging(true); }} />
+                    <TooltipButton icon={ArrowUpDown} label="Ordering" onClick={() => addBlock('question', 'ordering')} dragPayload={{type: 'question', qType: 'ordering'}} onDragEnd={handleDragEnd} onDragStart={(t) => { setDraggedType(t); setIsDragging(true); }} />
+                    <TooltipButton icon={Crosshair} label="Label Diagram" onClick={() => addBlock('question', 'image-label')} dragPayload={{type: 'question', qType: 'image-label'}} onDragEnd={handleDragEnd} onDragStart={(t) => { setDraggedType(t); setIsDragging(true); }} />
+                    <TooltipButton icon={Calculator} label="Numeric" onClick={() => addBlock('question', 'numeric')} dragPayload={{type: 'question', qType: 'numeric'}} onDragEnd={handleDragEnd} onDragStart={(t) => { setDraggedType(t); setIsDragging(true); }} />
+                    <TooltipButton icon={Table} label="Table" onClick={() => addBlock('question', 'table')} dragPayload={{type: 'question', qType: 'table'}} onDragEnd={handleDragEnd} onDragStart={(t) => { setDraggedType(t); setIsDragging(true); }} />
                     <TooltipButton icon={MessageSquare} label="Open Answer" onClick={() => addBlock('question', 'open-answer')} dragPayload={{type: 'question', qType: 'open-answer'}} onDragEnd={handleDragEnd} onDragStart={(t) => { setDraggedType(t); setIsDragging(true); }} />
                  </div>
                  <div className="w-px h-8 bg-slate-200 mx-1 flex-shrink-0 hidden md:block"></div>
                  <div className="flex gap-1 px-1 relative flex-shrink-0">
                     <TooltipButton icon={Palette} label="Design" active={showSettings} onClick={() => setShowSettings(!showSettings)} />
+                    <TooltipButton icon={Timer} label="Timed Assessment" active={!!data.assessment} onClick={() => setShowAssessment(true)} />
                     <TooltipButton icon={Eye} label="Preview" onClick={() => setMode('preview')} />
+                    <TooltipButton icon={Undo2} label="Undo (Ctrl+Z)" onClick={undo} disabled={!canUndo} />
+                    <TooltipButton icon={Redo2} label="Redo (Ctrl+Shift+Z)" onClick={redo} disabled={!canRedo} />
+                    <TooltipButton icon={FileInput} label="Import / Export Text" onClick={() => setShowTextImport(true)} />
+                    <TooltipButton icon={GraduationCap} label="LMS Import / Export" onClick={() => setShowLms(true)} />
                     <TooltipButton icon={Trash2} label="Clear All" onClick={() => setShowClearConfirm(true)} />
                     {showSettings && (
                        <div className="fixed bottom-24 left-1/2 -translate-x-1/2 md:absolute md:bottom-full md:left-auto md:right-0 md:translate-x-0 mb-4 w-80 bg-white rounded-2xl shadow-xl border border-slate-200 p-5 animate-in fade-in zoom-in-95 origin-bottom-right z-[60]">
@@ -594,11 +1108,11 @@ export const Builder = () => {
                                           <div className="absolute bottom-full right-0 mb-2 p-3 bg-white shadow-xl border border-slate-200 rounded-xl z-[60] flex flex-col gap-3 w-48 animate-in slide-in-from-bottom-2">
                                               <div className="flex gap-2 items-center">
                                                   <div className="w-8 h-8 rounded-full overflow-hidden border border-slate-200 shrink-0">
-                                                      <input type="color" className="w-full h-full p-0 border-0 cursor-pointer scale-150" value={data.design?.accentColor} onChange={(e) => setData(prev => ({...prev, design: {...prev.design!, accentColor: e.target.value}}))} />
+                                                      <input type="color" className="w-full h-full p-0 border-0 cursor-pointer scale-150" value={data.design?.accentColor} onChange={(e) => setData(prev => ({...prev, design: {...prev.design!, accentColor: e.target.value}}), 'accentColor')} />
                                                   </div>
-                                                  <input type="text" className="w-full text-xs font-mono border border-slate-200 rounded px-2 py-1 uppercase bg-white text-slate-900" value={data.design?.accentColor} onChange={(e) => setData(prev => ({...prev, design: {...prev.design!, accentColor: e.target.value}}))} />
+                                                  <input type="text" className="w-full text-xs font-mono border border-slate-200 rounded px-2 py-1 uppercase bg-white text-slate-900" value={data.design?.accentColor} onChange={(e) => setData(prev => ({...prev, design: {...prev.design!, accentColor: normalizeHexColor(e.target.value) || e.target.value}}), 'accentColor')} />
                                               </div>
-                                              <div className="text-xs text-slate-400 text-center">Hex or RGB</div>
+                                              <div className="text-xs text-slate-400 text-center">Hex, e.g. #6366F1</div>
                                           </div>
                                        )}
                                     </div>
@@ -625,7 +1139,9 @@ export const Builder = () => {
         {mode === 'preview' && (
            <div className="fixed bottom-20 left-1/2 -translate-x-1/2 z-50 animate-in slide-in-from-bottom-10 fade-in duration-300 font-sans w-[95%] md:w-auto max-w-full">
               <div className="bg-white shadow-2xl border border-slate-200/50 p-2 rounded-2xl flex flex-wrap justify-center items-center gap-1">
-                 <TooltipButton icon={Edit3} label="Edit Worksheet" onClick={() => setMode('edit')} />
+                 <TooltipButton icon={Edit3} label="Edit Worksheet" onClick={() => { setMode('edit'); setChecked(false); }} />
+                 <TooltipButton icon={ClipboardCheck} label="Check Answers" active={checked} onClick={() => setChecked(!checked)} />
+                 <TooltipButton icon={Printer} label="Print" onClick={() => window.print()} />
                  <TooltipButton icon={Share2} label="Publish" onClick={() => setShowPublishModal(true)} />
               </div>
            </div>
@@ -0,0 +1,68 @@
+import { AssessmentSettings, Block, ResponseTiming, StudentResponse, WorksheetData } from "./types";
+import { splitIntoPages } from "./helpers";
+
+// Timed assessments: a worksheet with `assessment` settings is taken as one timed attempt in the Answer view. The
+// clock runs in the student's browser, so it keeps a class to time; it can't stop someone who resets their browser.
+
+// A student's attempt, saved with their answers (see progress.ts) so a reload doesn't restart the clock
+export interface Attempt {
+  studentName: string;
+  startedAt: number;
+  page: number; // Index into getAttemptPages()
+  pageStartedAt: number;
+  pageSeconds: number[]; // Pages already left behind
+  reviewing?: boolean;
+  response?: StudentResponse; // Set once submitted, so the file can be downloaded again
+}
+
+export type Availability = 'upcoming' | 'open' | 'closed';
+
+export const getAvailability = (settings: AssessmentSettings, now = Date.now()): Availability => {
+  if (settings.opensAt && now < Date.parse(settings.opensAt)) return 'upcoming';
+  if (settings.closesAt && now >= Date.parse(settings.closesAt)) return 'closed';
+  return 'open';
+};
+
+// The earlier of the time limit and the closing time, or null when the attempt is untimed
+export const getAttemptDeadline = (settings: AssessmentSettings, startedAt: number): number | null => {
+  const limits = [
+    settings.timeLimit ? startedAt + settings.timeLimit * 60000 : null,
+    settings.closesAt ? Date.parse(settings.closesAt) : null,
+  ].filter((t): t is number => t !== null);
+  return limits.length ? Math.min(...limits) : null;
+};
+
+// The pages the student steps through: one per divider section, or everything at once
+export const getAttemptPages = (data: WorksheetData): Block[][] =>
+  data.assessment?.onePageAtATime ? splitIntoPages(data.blocks) : [data.blocks];
+
+export const startAttempt = (studentName: string, now = Date.now()): Attempt =>
+  ({ studentName: studentName.trim(), startedAt: now, page: 0, pageStartedAt: now, pageSeconds: [] });
+
+const pageTime = (attempt: Attempt, now: number) => Math.max(0, Math.round((now - attempt.pageStartedAt) / 1000));
+
+export const nextPage = (attempt: Attempt, pageCount: number, now = Date.now()): Attempt => {
+  // Time on the review screen counts towards the last page
+  if (attempt.page + 1 >= pageCount) return { ...attempt, reviewing: true };
+  return { ...attempt, page: attempt.page + 1, pageStartedAt: now, pageSeconds: [...attempt.pageSeconds, pageTime(attempt, now)] };
+};
+
+export const getResponseTiming = (attempt: Attempt, autoSubmitted: boolean, now = Date.now()): ResponseTiming => ({
+  startedAt: new Date(attempt.startedAt).toISOString(),
+  pageSeconds: [...attempt.pageSeconds, pageTime(attempt, now)],
+  ...(autoSubmitted ? { autoSubmitted } : {}),
+});
+
+// Whether the player left anything in an answer; clearing an input can leave empty text or records behind
+export const hasAnswer = (value: unknown): boolean => {
+  if (Array.isArray(value)) return value.some(hasAnswer);
+  if (value && typeof value === 'object') return Object.values(value).some(hasAnswer);
+  return value !== undefined && value !== null && value !== '' && value !== false;
+};
+
+// 75 -> "1:15", 3725 -> "1:02:05"
+export const formatDuration = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  const [h, m, sec] = [Math.floor(s / 3600), Math.floor(s / 60) % 60, s % 60];
+  return h ? `${h}:${String(m).padStart(2, '0')}:${String(sec).padStart(2, '0')}` : `${m}:${String(sec).padStart(2, '0')}`;
+};
@@ -3,41 +3,84 @@ import {
   Upload, 
   FileText, 
   Heart,
-  AlertCircle
+  AlertCircle,
+  ClipboardCheck,
+  Send,
+  X,
+  FileDown,
+  Check,
+  WifiOff,
+  HardDrive,
+  RotateCcw,
+  History,
+  AlertTriangle,
+  ArrowRight
 } from "lucide-react";
-import { Block, WorksheetData, GroupBlock, QuestionBlock } from "../types";
-import { decodeState } from "../helpers";
+import { Block, WorksheetData, GroupBlock, QuestionBlock, StudentResponse } from "../types";
+import { decodeState, downloadFile, getNumbering, getStudentSeed } from "../helpers";
+import { gradeWorksheet } from "../grading";
+import { createResponse, responseFileName } from "../responses";
+import { LoadedWorksheet, SchemaIssue, readWorksheetFile } from "../schema";
+import { readOfflineWorksheet } from "../offline";
+import { SavedAnswers, loadSavedAnswers, removeSavedAnswers, saveAnswers } from "../progress";
+import { Attempt, getAttemptDeadline, getAttemptPages, getResponseTiming, nextPage, startAttempt } from "../assessment";
 import { ThemeContext } from "../ThemeContext";
-import { ThemeStyle, SimpleMarkdown, EmbedRenderer } from "./UIComponents";
-import { MultipleChoicePlayer, OpenAnswerPlayer, ClozeTextPlayer, ClozeDropdownPlayer, DragInlinePlayer } from "./PlayerComponents";
-
-// Helper to convert number to Roman numeral
-const toRoman = (num: number) => {
-  const roman: {[key: string]: number} = { m: 1000, cm: 900, d: 500, cd: 400, c: 100, xc: 90, l: 50, xl: 40, x: 10, ix: 9, v: 5, iv: 4, i: 1 };
-  let str = '';
-  for (const i of Object.keys(roman)) {
-    const q = Math.floor(num / roman[i]);
-    num -= q * roman[i];
-    str += i.repeat(q);
-  }
-  return str;
-}
+import { ThemeStyle, EmbedRenderer, SchemaIssuesNotice } from "./UIComponents";
+import { Markdown } from "./Markdown";
+import { QuestionPlayer, QuestionFeedback, ScoreSummary } from "./PlayerComponents";
+import { PrintView, usePrintMode } from "./PrintComponents";
+import { AssessmentDone, AssessmentReview, AssessmentStart, CountdownHeader } from "./AssessmentComponents";
 
 export const Answer = () => {
   const [data, setData] = useState<WorksheetData | null>(null);
   const [answers, setAnswers] = useState<Record<string, any>>({});
   const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<SchemaIssue[]>([]);
+  const [checked, setChecked] = useState(false);
+  const [showSubmitModal, setShowSubmitModal] = useState(false);
+  const [studentName, setStudentName] = useState('');
+  const [submitted, setSubmitted] = useState(false);
+  const [offline, setOffline] = useState(false);
+  const [worksheetHash, setWorksheetHash] = useState<string | undefined>(undefined);
+  const [resumable, setResumable] = useState<SavedAnswers | null>(null);
+  const [showStartOver, setShowStartOver] = useState(false);
+  const [attempt, setAttempt] = useState<Attempt | null>(null);
+  const [now, setNow] = useState(Date.now);
+  const printMode = usePrintMode();
+
+  // Link, file and offline page all open here, so answers saved on an earlier visit are offered for each.
+  // A timed assessment skips the prompt: a started attempt always carries on, clock included.
+  const openWorksheet = (loaded: LoadedWorksheet) => {
+    const saved = loadSavedAnswers(loaded.data);
+    const savedAttempt = loaded.data.assessment ? saved?.attempt : undefined;
+    setData(loaded.data);
+    setIssues(loaded.issues);
+    setAnswers(savedAttempt ? saved!.answers : {});
+    setChecked(false);
+    setAttempt(savedAttempt || null);
+    setResumable(loaded.data.assessment ? null : saved);
+  };
 
   useEffect(() => {
-    const hash = window.location.hash;
-    if (hash.startsWith("#data=")) {
-      const decoded = decodeState(hash);
-      if (decoded) {
-        setData(decoded);
-      } else {
-          // Only show error if hash exists but is invalid, not on clean load (upload mode)
-          if (hash.length > 6) setError("Invalid worksheet link.");
+    // An offline file carries its worksheet in the page
+    try {
+      const embedded = readOfflineWorksheet();
+      if (embedded) {
+        openWorksheet(embedded);
+        setWorksheetHash(embedded.hash);
+        setOffline(true);
+        return;
       }
+    } catch (e) {
+      setError((e as Error).message || "This offline worksheet file is damaged.");
+      return;
+    }
+    const hash = window.location.hash;
+    // Only show an error if the hash has a payload, not on clean load (upload mode)
+    if (hash.startsWith("#data=") && hash.length > 6) {
+      decodeState(hash)
+        .then(openWorksheet)
+        .catch(e => setError(e.message || "Invalid worksheet link."));
     }
   }, []);
 
@@ -48,15 +91,10 @@ export const Answer = () => {
       const reader = new FileReader();
       reader.onload = (ev) => {
           try {
-              const json = JSON.parse(ev.target?.result as string);
-              if (json.blocks) { // Basic validation
-                  setData(json);
-                  setError(null);
-              } else {
-                  setError("Invalid worksheet file format.");
-              }
+              openWorksheet(readWorksheetFile(ev.target?.result as string));
+              setError(null);
           } catch (err) {
-              setError("Failed to parse file.");
+              setError((err as Error).message);
           }
       };
       reader.readAsText(file);
@@ -79,12 +117,75 @@ export const Answer = () => {
     return segs;
   }, [data]);
 
-  const getNumbering = (depth: number, index: number) => {
-     if (depth === 0) return `${index + 1}.`;
-     if (depth === 1) return `${String.fromCharCode(97 + index)}.`;
-     if (depth >= 2) return `${toRoman(index + 1)}.`;
-     return '';
-  }
+  // Held back while the resume prompt is open, so the empty start doesn't overwrite the earlier save
+  useEffect(() => {
+    if (data && !resumable) saveAnswers(data, answers, attempt || undefined);
+  }, [data, answers, resumable, attempt]);
+
+  const pages = useMemo(() => (data ? getAttemptPages(data) : []), [data]);
+  const paged = !!data?.assessment?.onePageAtATime;
+  const deadline = data?.assessment && attempt ? getAttemptDeadline(data.assessment, attempt.startedAt) : null;
+  const timeUp = deadline !== null && now >= deadline;
+
+  // Ticks before the start too, so the start button unlocks when the assessment opens
+  const clockRunning = !!data?.assessment && !attempt?.response;
+  useEffect(() => {
+    if (!clockRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [clockRunning]);
+
+  const downloadResponse = (response: StudentResponse) =>
+    downloadFile(responseFileName(response), JSON.stringify(response, null, 2), 'application/json');
+
+  const submitAttempt = (autoSubmitted: boolean) => {
+    if (!data || !attempt || attempt.response) return;
+    // Time after the deadline, e.g. while the page was closed, doesn't count as time spent
+    const timing = getResponseTiming(attempt, autoSubmitted, Math.min(Date.now(), deadline ?? Infinity));
+    const response = createResponse(data, attempt.studentName, answers, worksheetHash, timing);
+    downloadResponse(response);
+    setAttempt({ ...attempt, response });
+  };
+
+  useEffect(() => {
+    if (timeUp && data?.assessment?.autoSubmit) submitAttempt(true);
+  }, [timeUp]);
+
+  const handleStartAttempt = (name: string) => {
+    setAnswers({});
+    setAttempt(startAttempt(name));
+    window.scrollTo({ top: 0 });
+  };
+
+  const handleNextPage = () => {
+    if (!attempt) return;
+    setAttempt(nextPage(attempt, pages.length));
+    window.scrollTo({ top: 0 });
+  };
+
+  // The earlier save is dropped either way; resumed answers are saved again under this version of the worksheet
+  const handleResume = (resume: boolean) => {
+    if (!resumable) return;
+    removeSavedAnswers(resumable.key);
+    setAnswers(resume ? resumable.answers : {});
+    setResumable(null);
+  };
+
+  const handleStartOver = () => {
+    setAnswers({});
+    setChecked(false);
+    setSubmitted(false);
+    setShowStartOver(false);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const report = useMemo(() => (data && checked ? gradeWorksheet(data, answers, getStudentSeed()) : null), [data, answers, checked]);
+
+  const handleSubmit = () => {
+      if (!data || !studentName.trim()) return;
+      downloadResponse(createResponse(data, studentName, answers, worksheetHash));
+      setSubmitted(true);
+  };
 
   if (!data) {
       return (
@@ -117,20 +218,70 @@ export const Answer = () => {
       )
   }
 
+  // The paper form shows every page at once, so a running or unstarted assessment prints only what is on screen
+  if (printMode && !(data.assessment && !attempt?.response)) {
+      // ?print gives the paper form. The answer key is only printed from the Builder, never on the student route
+      const params = new URLSearchParams(window.location.search);
+      return (
+        <ThemeContext.Provider value={data.design || { accentColor: '#6366f1', font: 'sans' }}>
+          <ThemeStyle color={data.design?.accentColor || '#6366f1'} />
+          <PrintView data={data} showKey={false} onExit={params.has('print') ? () => { window.location.search = ''; } : undefined} />
+        </ThemeContext.Provider>
+      );
+  }
+
+  if (data.assessment && (!attempt || attempt.response)) {
+      return (
+        <ThemeContext.Provider value={data.design || { accentColor: '#6366f1', font: 'sans' }}>
+          <ThemeStyle color={data.design?.accentColor || '#6366f1'} />
+          <div className="min-h-screen pb-20 bg-slate-50 flex flex-col items-center">
+            {attempt?.response
+              ? <AssessmentDone response={attempt.response} onDownload={() => downloadResponse(attempt.response!)} />
+              : <AssessmentStart data={data} now={now} onStart={handleStartAttempt} />}
+          </div>
+        </ThemeContext.Provider>
+      );
+  }
+
+  // With an attempt running, time running out without auto-submit leaves only the review screen
+  const reviewing = !!attempt && (!!attempt.reviewing || timeUp);
+  const visibleSegments = attempt && paged ? [pages[attempt.page] || []] : segments;
+
   return (
     <ThemeContext.Provider value={data.design || { accentColor: '#6366f1', font: 'sans' }}>
       <ThemeStyle color={data.design?.accentColor || '#6366f1'} />
+      {attempt && (
+        <CountdownHeader
+          title={data.title}
+          remaining={deadline === null ? null : Math.ceil((deadline - now) / 1000)}
+          status={reviewing ? 'Review' : paged ? `Page ${attempt.page + 1} of ${pages.length}` : ''}
+        />
+      )}
       <div className={`min-h-screen pb-40 bg-slate-50 selection:bg-[var(--primary-100)] selection:text-[var(--primary-900)] flex flex-col items-center`}>
         
         <div className="w-full max-w-5xl px-4 md:px-12 pt-12 pb-12">
             <div className="space-y-8">
-                {segments.map((segment, segIdx) => {
+                <div className="flex items-center justify-between gap-4 text-xs text-slate-500 font-sans">
+                    <span className="flex items-center gap-2">
+                        {offline ? <WifiOff size={14} className="flex-shrink-0" /> : <HardDrive size={14} className="flex-shrink-0" />}
+                        {offline ? "Offline copy: your answers are saved in this browser as you go. Use Submit to download them for your teacher." : "Your answers are saved in this browser as you go."}
+                    </span>
+                    {!attempt && Object.keys(answers).length > 0 && (
+                        <button onClick={() => setShowStartOver(true)} className="flex items-center gap-1 flex-shrink-0 hover:text-slate-700 transition-colors"><RotateCcw size={12} /> Start over</button>
+                    )}
+                </div>
+                <SchemaIssuesNotice issues={issues} onDismiss={() => setIssues([])} />
+                {report && <ScoreSummary report={report} onClose={() => setChecked(false)} />}
+                {attempt && reviewing && (
+                    <AssessmentReview data={data} answers={answers} timeUp={timeUp} onBack={paged || timeUp ? undefined : () => setAttempt({ ...attempt, reviewing: false })} onSubmit={() => submitAttempt(false)} />
+                )}
+                {!reviewing && visibleSegments.map((segment, segIdx) => {
                     if (segment.length === 1 && segment[0].type === 'divider') return <div key={segment[0].id} className="h-px bg-slate-200 w-full my-8 break-before-page"></div>;
                     if (segment.length === 0 && segIdx !== 0) return null;
 
                     return (
-                      <div key={segIdx} className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 md:p-16 space-y-8 relative break-after-page animate-in fade-in slide-in-from-bottom-4 duration-500">
-                          {segIdx === 0 && (
+                      <div key={attempt && paged ? `page-${attempt.page}` : segIdx} className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 md:p-16 space-y-8 relative break-after-page animate-in fade-in slide-in-from-bottom-4 duration-500">
+                          {segIdx === 0 && !(attempt && paged && attempt.page > 0) && (
                              <div className="mb-12 pb-8 border-b border-slate-100">
                                 <h1 className="text-4xl font-bold text-slate-900 mb-4 text-left">{data.title}</h1>
                                 <p className="text-lg text-slate-500 text-left">{data.description}</p>
@@ -143,10 +294,11 @@ export const Answer = () => {
                              const label = (block.type === 'question' || block.type === 'group') ? getNumbering(0, relevantBlocks.length - 1) : '';
                              
                              const renderPreviewBlock = (b: Block, lbl: string, depth: number): React.ReactNode => {
-                                if (b.type === 'text') return <SimpleMarkdown text={b.content} />;
+                                if (b.type === 'text') return <Markdown text={b.content} />;
                                 if (b.type === 'embed') return <EmbedRenderer url={b.url} title={b.title} />;
                                 if (b.type === 'question') {
-                                  const q = b as any;
+                                  const q = b as QuestionBlock;
+                                  const result = report?.results[q.id];
                                   return (
                                       <div className="flex gap-4">
                                         <div className={`flex-shrink-0 w-8 h-8 rounded-lg ${depth === 0 ? 'bg-[var(--primary-100)] text-[var(--primary-700)]' : 'bg-slate-100 text-slate-600'} font-bold flex items-center justify-center text-sm select-none font-sans`}>
@@ -155,13 +307,10 @@ export const Answer = () => {
                                         <div className="flex-1">
                                             <div className="flex flex-col md:flex-row gap-6">
                                                 <div className="flex-1">
-                                                    <div className="text-lg font-medium text-slate-900 mb-2">{q.prompt}</div>
-                                                    {(q.description && <div className="text-sm text-slate-500 italic mb-4 bg-slate-50 p-2 rounded inline-block">{q.description}</div>)}
-                                                    {q.qType === 'multiple-choice' && <MultipleChoicePlayer block={q} value={answers[q.id]} onChange={(v) => setAnswers(prev => ({...prev, [q.id]: v}))} />}
-                                                    {q.qType === 'open-answer' && <OpenAnswerPlayer value={answers[q.id]} onChange={(v) => setAnswers(prev => ({...prev, [q.id]: v}))} />}
-                                                    {q.qType === 'cloze-text' && <ClozeTextPlayer block={q} value={answers[q.id]} onChange={(v) => setAnswers(prev => ({...prev, [q.id]: v}))} />}
-                                                    {q.qType === 'cloze-dropdown' && <ClozeDropdownPlayer block={q} value={answers[q.id]} onChange={(v) => setAnswers(prev => ({...prev, [q.id]: v}))} />}
-                                                    {q.qType === 'drag-inline' && <DragInlinePlayer block={q} value={answers[q.id]} onChange={(v) => setAnswers(prev => ({...prev, [q.id]: v}))} />}
+                                                    <Markdown text={q.prompt} compact className="text-lg font-medium text-slate-900 mb-2" />
+                                                    {(q.description && <Markdown text={q.description} compact className="text-sm text-slate-500 italic mb-4 bg-slate-50 p-2 rounded inline-block" />)}
+                                                    <QuestionPlayer block={q} value={answers[q.id]} onChange={(v) => setAnswers(prev => ({...prev, [q.id]: v}))} result={result} showKey={false} />
+                                                    {result && <QuestionFeedback result={result} showKey={false} />}
                                                 </div>
                                                 {q.image && <div className="md:w-1/3 max-w-[300px] flex-shrink-0"><img src={q.image} className="w-full rounded-lg border" /></div>}
                                             </div>
@@ -200,6 +349,93 @@ export const Answer = () => {
             </div>
         </div>
 
+        {resumable && (
+           <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 font-sans">
+              <div className="bg-white rounded-xl shadow-2xl max-w-sm w-full p-6 animate-in zoom-in-95">
+                 <div className="flex items-center gap-3 text-[var(--primary)] mb-4">
+                    <History size={24} />
+                    <h3 className="font-bold text-lg text-slate-800">Resume where you left off?</h3>
+                 </div>
+                 <p className="text-slate-600 mb-4">You answered {Object.keys(resumable.answers).length} question{Object.keys(resumable.answers).length === 1 ? '' : 's'} on this worksheet, last saved {new Date(resumable.savedAt).toLocaleString()}.</p>
+                 {resumable.discarded > 0 && (
+                    <div className="mb-4 p-3 bg-amber-50 border border-amber-200 text-amber-800 text-xs rounded-lg flex items-start gap-2">
+                       <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+                       <span>The worksheet has changed since. {resumable.discarded} answer{resumable.discarded === 1 ? ' was' : 's were'} for questions that were removed and {resumable.discarded === 1 ? 'is' : 'are'} not kept.</span>
+                    </div>
+                 )}
+                 <div className="flex justify-end gap-3 mt-6">
+                    <button onClick={() => handleResume(false)} className="px-4 py-2 rounded-lg font-medium text-slate-600 hover:bg-slate-100 transition-colors">Start over</button>
+                    <button onClick={() => handleResume(true)} autoFocus className="px-4 py-2 rounded-lg font-medium bg-[var(--primary)] text-white hover:bg-[var(--primary-600)] transition-colors shadow-sm">Resume</button>
+                 </div>
+              </div>
+           </div>
+        )}
+
+        {showStartOver && (
+           <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 font-sans">
+              <div className="bg-white rounded-xl shadow-2xl max-w-sm w-full p-6 animate-in zoom-in-95">
+                 <div className="flex items-center gap-3 text-red-600 mb-4">
+                    <AlertTriangle size={24} />
+                    <h3 className="font-bold text-lg">Start over?</h3>
+                 </div>
+                 <p className="text-slate-600 mb-6">This clears all your answers on this worksheet, here and in this browser's saved copy. It can't be undone.</p>
+                 <div className="flex justify-end gap-3">
+                    <button onClick={() => setShowStartOver(false)} className="px-4 py-2 rounded-lg font-medium text-slate-600 hover:bg-slate-100 transition-colors">Cancel</button>
+                    <button onClick={handleStartOver} className="px-4 py-2 rounded-lg font-medium bg-red-600 text-white hover:bg-red-700 transition-colors shadow-sm">Clear answers</button>
+                 </div>
+              </div>
+           </div>
+        )}
+
+        {showSubmitModal && (
+           <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 font-sans">
+              <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6 animate-in zoom-in-95">
+                 <div className="flex items-center justify-between mb-6">
+                    <h3 className="font-bold text-xl text-slate-800 flex items-center gap-2"><Send size={20} className="text-[var(--primary)]"/> Submit Answers</h3>
+                    <button onClick={() => { setShowSubmitModal(false); setSubmitted(false); }}><X size={20} className="text-slate-400 hover:text-slate-600"/></button>
+                 </div>
+                 <div className="space-y-6">
+                    <div>
+                       <label className="text-xs font-bold text-slate-500 uppercase mb-2 block">Your Name</label>
+                       <input autoFocus value={studentName} onChange={(e) => { setStudentName(e.target.value); setSubmitted(false); }} onKeyDown={(e) => { if (e.key === 'Enter') handleSubmit(); }} placeholder="First and last name" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-slate-800 outline-none focus:border-[var(--primary)]" />
+                    </div>
+                    <button onClick={handleSubmit} disabled={!studentName.trim()} className="w-full flex items-center justify-center gap-2 bg-slate-800 text-white hover:bg-slate-900 disabled:opacity-40 disabled:cursor-not-allowed font-medium py-3 rounded-lg transition-colors">
+                       {submitted ? <Check size={18} /> : <FileDown size={18} />}
+                       {submitted ? "Downloaded" : "Download my answers"}
+                    </button>
+                    <p className="text-xs text-slate-400">Hand the downloaded file to your teacher. It contains your name, the time and your answers.</p>
+                 </div>
+              </div>
+           </div>
+        )}
+
+        {attempt ? !reviewing && (
+          <div className="fixed bottom-20 left-1/2 -translate-x-1/2 z-50 font-sans flex gap-2">
+             <button
+                onClick={handleNextPage}
+                title={attempt.page + 1 < pages.length ? "You can't come back to this page" : undefined}
+                className="flex items-center gap-2 bg-[var(--primary)] text-white px-5 py-3 rounded-2xl shadow-2xl font-medium hover:bg-[var(--primary-600)] transition-colors"
+             >
+                {attempt.page + 1 < pages.length ? <><ArrowRight size={18} /> Next page</> : <><ClipboardCheck size={18} /> Review answers</>}
+             </button>
+          </div>
+        ) : (
+        <div className="fixed bottom-20 left-1/2 -translate-x-1/2 z-50 font-sans flex gap-2">
+           <button
+              onClick={() => { setChecked(true); window.scrollTo({ top: 0, behavior: 'smooth' }); }}
+              className="flex items-center gap-2 bg-white text-slate-700 border border-slate-200 px-5 py-3 rounded-2xl shadow-2xl font-medium hover:bg-slate-50 transition-colors"
+           >
+              <ClipboardCheck size={18} /> Check answers
+           </button>
+           <button
+              onClick={() => setShowSubmitModal(true)}
+              className="flex items-center gap-2 bg-[var(--primary)] text-white px-5 py-3 rounded-2xl shadow-2xl font-medium hover:bg-[var(--primary-600)] transition-colors"
+           >
+              <Send size={18} /> Submit
+           </button>
+        </div>
+        )}
+
         <footer className="fixed bottom-0 left-0 w-full text-center text-slate-400 text-xs py-2 bg-slate-50/80 backdrop-blur-sm border-t border-slate-200 z-40 flex items-center justify-center gap-1 font-sans">
            made with <Heart size={10} className="text-red-500 fill-red-500" /> (and gemini) by daniel
         </footer>
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import {
+  Timer,
+  Play,
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle2,
+  FileDown,
+  ArrowLeft,
+  Send,
+  Lock
+} from "lucide-react";
+import { StudentResponse, WorksheetData } from "../types";
+import { getQuestionLabels } from "../helpers";
+import { collectQuestions } from "../grading";
+import { responseFileName } from "../responses";
+import { formatDuration, getAttemptPages, getAvailability, hasAnswer } from "../assessment";
+
+// The screens around a timed assessment in the Answer view; the questions themselves use the normal player
+
+const describeRules = (data: WorksheetData) => {
+  const settings = data.assessment || {};
+  const pageCount = getAttemptPages(data).length;
+  return [
+    settings.timeLimit ? `You have ${settings.timeLimit} minute${settings.timeLimit === 1 ? '' : 's'} from when you start.` : null,
+    settings.closesAt ? `The assessment closes at ${new Date(settings.closesAt).toLocaleString()}${settings.timeLimit ? ', even if you have time left' : ''}.` : null,
+    settings.onePageAtATime && pageCount > 1 ? `There are ${pageCount} pages, shown one at a time. You can't go back to a page once you've moved on.` : null,
+    settings.timeLimit || settings.closesAt
+      ? settings.autoSubmit ? "Your answers are submitted automatically when time runs out." : "When time runs out, your answers are locked and you submit them as they are."
+      : null,
+    "The clock keeps running if you close or reload this page.",
+  ].filter((rule): rule is string => !!rule);
+};
+
+interface AssessmentStartProps {
+  data: WorksheetData;
+  now: number;
+  onStart: (studentName: string) => void;
+}
+
+export const AssessmentStart = ({ data, now, onStart }: AssessmentStartProps) => {
+  const [name, setName] = useState('');
+  const settings = data.assessment || {};
+  const availability = getAvailability(settings, now);
+  const canStart = availability === 'open' && !!name.trim();
+
+  return (
+    <div className="w-full max-w-xl px-4 pt-16 font-sans">
+      <div className="bg-white rounded-2xl shadow-xl border border-slate-200 p-8 space-y-6">
+        <div>
+          <div className="w-12 h-12 bg-[var(--primary-100)] text-[var(--primary-700)] rounded-full flex items-center justify-center mb-4"><Timer size={24} /></div>
+          <h1 className="text-2xl font-bold text-slate-900">{data.title}</h1>
+          {data.description && <p className="text-slate-500 mt-2">{data.description}</p>}
+        </div>
+        <ul className="list-disc pl-5 space-y-1 text-sm text-slate-600">
+          {describeRules(data).map((rule, i) => <li key={i}>{rule}</li>)}
+        </ul>
+        {availability === 'upcoming' && (
+          <div className="p-3 bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-lg flex items-center gap-2">
+            <AlertTriangle size={16} className="flex-shrink-0" /> This assessment opens at {new Date(settings.opensAt!).toLocaleString()}.
+          </div>
+        )}
+        {availability === 'closed' && (
+          <div className="p-3 bg-red-50 text-red-600 text-sm rounded-lg flex items-center gap-2">
+            <AlertCircle size={16} className="flex-shrink-0" /> This assessment closed at {new Date(settings.closesAt!).toLocaleString()}.
+          </div>
+        )}
+        <div>
+          <label className="text-xs font-bold text-slate-500 uppercase mb-2 block">Your Name</label>
+          <input autoFocus value={name} onChange={(e) => setName(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter' && canStart) onStart(name); }} placeholder="First and last name" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-slate-800 outline-none focus:border-[var(--primary)]" />
+        </div>
+        <button onClick={() => onStart(name)} disabled={!canStart} className="w-full flex items-center justify-center gap-2 bg-[var(--primary)] text-white hover:bg-[var(--primary-600)] disabled:opacity-40 disabled:cursor-not-allowed font-medium py-3 rounded-lg transition-colors">
+          <Play size={18} /> Start
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface CountdownHeaderProps {
+  title: string;
+  remaining: number | null; // Seconds, or null when untimed
+  status: string; // e.g. "Page 2 of 4" or "Review"
+}
+
+export const CountdownHeader = ({ title, remaining, status }: CountdownHeaderProps) => {
+  const tone = remaining === null ? 'text-slate-600' : remaining < 60 ? 'text-red-600 animate-pulse' : remaining < 300 ? 'text-amber-600' : 'text-slate-800';
+  return (
+    <div className="sticky top-0 z-40 w-full bg-white/90 backdrop-blur-sm border-b border-slate-200 font-sans">
+      <div className="max-w-5xl mx-auto px-4 md:px-12 py-3 flex items-center gap-4">
+        <span className="flex-1 font-semibold text-slate-800 truncate">{title}</span>
+        <span className="text-sm text-slate-500 whitespace-nowrap">{status}</span>
+        <span className={`flex items-center gap-1.5 font-mono font-bold tabular-nums ${tone}`} title={remaining === null ? "No time limit" : "Time left"}>
+          <Timer size={16} /> {remaining === null ? '—' : formatDuration(remaining)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+interface AssessmentReviewProps {
+  data: WorksheetData;
+  answers: Record<string, any>;
+  timeUp: boolean;
+  onBack?: () => void; // Only when the student may still change their answers
+  onSubmit: () => void;
+}
+
+export const AssessmentReview = ({ data, answers, timeUp, onBack, onSubmit }: AssessmentReviewProps) => {
+  const labels = getQuestionLabels(data.blocks);
+  const pages = getAttemptPages(data).map(collectQuestions);
+  const total = pages.reduce((sum, page) => sum + page.length, 0);
+  const answered = pages.reduce((sum, page) => sum + page.filter(q => hasAnswer(answers[q.id])).length, 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 md:p-12 space-y-6 font-sans">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-900">Review your answers</h2>
+        <p className="text-slate-500 mt-1">You answered {answered} of {total} question{total === 1 ? '' : 's'}.</p>
+      </div>
+      {timeUp && (
+        <div className="p-3 bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-lg flex items-center gap-2">
+          <Lock size={16} className="flex-shrink-0" /> Time's up. Your answers are locked; submit them now.
+        </div>
+      )}
+      <div className="space-y-4">
+        {pages.map((questions, pageIdx) => (
+          <div key={pageIdx}>
+            {pages.length > 1 && <div className="text-xs font-bold text-slate-400 uppercase mb-2">Page {pageIdx + 1}</div>}
+            <div className="flex flex-wrap gap-2">
+              {questions.map(q => {
+                const done = hasAnswer(answers[q.id]);
+                return (
+                  <span key={q.id} title={q.prompt} className={`min-w-[2.5rem] px-2 py-1 rounded-lg text-center text-sm font-bold ${done ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-400'}`}>{labels[q.id]}</span>
+                );
+              })}
+              {questions.length === 0 && <span className="text-sm text-slate-400">No questions</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-col-reverse sm:flex-row justify-end gap-3 pt-2">
+        {onBack && (
+          <button onClick={onBack} className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-medium text-slate-600 hover:bg-slate-100 transition-colors"><ArrowLeft size={16} /> Back to questions</button>
+        )}
+        <button onClick={onSubmit} className="flex items-center justify-center gap-2 px-5 py-2 rounded-lg font-medium bg-[var(--primary)] text-white hover:bg-[var(--primary-600)] transition-colors shadow-sm"><Send size={16} /> Submit answers</button>
+      </div>
+      {!timeUp && <p className="text-xs text-slate-400 text-right">Once you submit, you can't change your answers.</p>}
+    </div>
+  );
+};
+
+interface AssessmentDoneProps {
+  response: StudentResponse;
+  onDownload: () => void;
+}
+
+export const AssessmentDone = ({ response, onDownload }: AssessmentDoneProps) => {
+  const seconds = response.timing?.pageSeconds.reduce((sum, s) => sum + s, 0) || 0;
+  return (
+    <div className="w-full max-w-xl px-4 pt-16 font-sans">
+      <div className="bg-white rounded-2xl shadow-xl border border-slate-200 p-8 space-y-6 text-center">
+        <div className="w-12 h-12 bg-green-50 text-green-600 rounded-full flex items-center justify-center mx-auto"><CheckCircle2 size={24} /></div>
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">{response.timing?.autoSubmitted ? "Time's up" : "Answers submitted"}</h1>
+          <p className="text-slate-500 mt-2">
+            {response.timing?.autoSubmitted ? "Your answers were submitted automatically. " : ""}
+            They were downloaded as <code className="text-sm">{responseFileName(response)}</code>. Hand that file to your teacher.
+          </p>
+          {seconds > 0 && <p className="text-xs text-slate-400 mt-2">Time taken: {formatDuration(seconds)}</p>}
+        </div>
+        <button onClick={onDownload} className="w-full flex items-center justify-center gap-2 bg-white border border-slate-200 hover:border-slate-300 text-slate-700 font-medium py-3 rounded-lg transition-colors">
+          <FileDown size={18} /> Download again
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Timer, AlertCircle, X } from "lucide-react";
+import { AssessmentSettings } from "../types";
+
+interface AssessmentDialogProps {
+  value?: AssessmentSettings;
+  pageCount: number;
+  onSave: (value: AssessmentSettings | undefined) => void;
+  onClose: () => void;
+}
+
+// <input type="datetime-local"> reads and writes local time without a zone; the worksheet stores ISO timestamps
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+export const AssessmentDialog = ({ value, pageCount, onSave, onClose }: AssessmentDialogProps) => {
+  const [enabled, setEnabled] = useState(!!value);
+  const [timeLimit, setTimeLimit] = useState(value?.timeLimit ? String(value.timeLimit) : '');
+  const [opensAt, setOpensAt] = useState(toLocalInput(value?.opensAt));
+  const [closesAt, setClosesAt] = useState(toLocalInput(value?.closesAt));
+  const [onePageAtATime, setOnePageAtATime] = useState(!!value?.onePageAtATime);
+  const [autoSubmit, setAutoSubmit] = useState(value ? !!value.autoSubmit : true);
+
+  const minutes = Number(timeLimit);
+  const error = !enabled ? ''
+    : timeLimit && !(minutes > 0) ? "The time limit must be a number of minutes above 0."
+    : opensAt && closesAt && fromLocalInput(closesAt)! <= fromLocalInput(opensAt)! ? "The closing time must be after the opening time."
+    : '';
+
+  const handleSave = () => {
+    if (error) return;
+    if (!enabled) return onSave(undefined);
+    const settings: AssessmentSettings = {};
+    if (timeLimit) settings.timeLimit = minutes;
+    if (opensAt) settings.opensAt = fromLocalInput(opensAt);
+    if (closesAt) settings.closesAt = fromLocalInput(closesAt);
+    if (onePageAtATime) settings.onePageAtATime = true;
+    if (autoSubmit) settings.autoSubmit = true;
+    onSave(settings);
+  };
+
+  const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-800 outline-none focus:border-[var(--primary)] disabled:opacity-50";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 font-sans">
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto p-6 animate-in zoom-in-95">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="font-bold text-xl text-slate-800 flex items-center gap-2"><Timer size={20} className="text-[var(--primary)]" /> Timed Assessment</h3>
+          <button onClick={onClose}><X size={20} className="text-slate-400 hover:text-slate-600" /></button>
+        </div>
+
+        <div className="space-y-5">
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} className="mt-1 accent-[var(--primary)]" />
+            <span>
+              <span className="block font-medium text-slate-800">Use this worksheet as a timed assessment</span>
+              <span className="block text-xs text-slate-400">Students enter their name and start the clock. Checking answers is turned off, and they submit once.</span>
+            </span>
+          </label>
+
+          <div className={`space-y-5 ${enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+            <div>
+              <label className="text-xs font-bold text-slate-500 uppercase mb-2 block">Time limit (minutes)</label>
+              <input type="number" min={1} value={timeLimit} onChange={(e) => setTimeLimit(e.target.value)} placeholder="No limit" disabled={!enabled} className={inputClass} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs font-bold text-slate-500 uppercase mb-2 block">Opens</label>
+                <input type="datetime-local" value={opensAt} onChange={(e) => setOpensAt(e.target.value)} disabled={!enabled} className={inputClass} />
+              </div>
+              <div>
+                <label className="text-xs font-bold text-slate-500 uppercase mb-2 block">Closes</label>
+                <input type="datetime-local" value={closesAt} onChange={(e) => setClosesAt(e.target.value)} disabled={!enabled} className={inputClass} />
+              </div>
+            </div>
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input type="checkbox" checked={onePageAtATime} onChange={(e) => setOnePageAtATime(e.target.checked)} disabled={!enabled} className="mt-1 accent-[var(--primary)]" />
+              <span>
+                <span className="block text-sm font-medium text-slate-700">One page at a time, no going back</span>
+                <span className="block text-xs text-slate-400">Pages are split at page breaks. This worksheet has {pageCount} page{pageCount === 1 ? '' : 's'}.</span>
+              </span>
+            </label>
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input type="checkbox" checked={autoSubmit} onChange={(e) => setAutoSubmit(e.target.checked)} disabled={!enabled} className="mt-1 accent-[var(--primary)]" />
+              <span>
+                <span className="block text-sm font-medium text-slate-700">Submit automatically when time runs out</span>
+                <span className="block text-xs text-slate-400">Otherwise the answers are locked and the student submits them.</span>
+              </span>
+            </label>
+          </div>
+
+          {error && <div className="p-3 bg-red-50 text-red-600 text-sm rounded-lg flex items-center gap-2"><AlertCircle size={16} className="flex-shrink-0" /> {error}</div>}
+          <p className="text-xs text-slate-400">The clock runs in the student's browser and the time spent on each page is recorded in their answer file. It keeps a class to time; it can't stop a student who clears their browser data.</p>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg font-medium text-slate-600 hover:bg-slate-100 transition-colors">Cancel</button>
+          <button onClick={handleSave} disabled={!!error} className="px-4 py-2 rounded-lg font-medium bg-slate-800 text-white hover:bg-slate-900 disabled:opacity-50 transition-colors shadow-sm">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
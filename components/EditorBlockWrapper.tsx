@@ -7,10 +7,22 @@ import {
   Copy, 
   X, 
   Info, 
-  Plus 
+  Plus,
+  Check,
+  KeyRound,
+  ArrowRight,
+  Shuffle,
+  Crosshair,
+  BookmarkPlus
 } from "lucide-react";
-import { Block, DragItem, QuestionBlock, GroupBlock, BlockType } from "../types";
-import { EmbedRenderer } from "./UIComponents";
+import { Block, DragItem, QuestionBlock, GroupBlock, BlockType, MatchSettings, MatchPair, Hotspot, NumericSettings, TableCell } from "../types";
+import { getChoiceKey, getGapKeys, getMatchPairs } from "../grading";
+import { createBlock, createDragPreview, focusBlock, generateId } from "../helpers";
+import { getCompatibleUnits, validateNumericKey } from "../numeric";
+import { parseCellGap, parseGapRule, parseGaps } from "../gaps";
+import { EmbedRenderer, ImageInput, useImageUpload } from "./UIComponents";
+import { getImageFile } from "../images";
+import { useSlashMenu } from "./SlashMenu";
 
 interface EditorBlockWrapperProps {
   block: Block;
@@ -20,6 +32,11 @@ interface EditorBlockWrapperProps {
   updateBlock: (id: string, parentId: string | undefined, newData: Block) => void;
   removeBlock: (id: string, parentId: string | undefined) => void;
   duplicateBlock: (block: Block, parentId?: string) => void;
+  moveBlock: (id: string, direction: 'up' | 'down' | 'in' | 'out') => void;
+  insertBlockNear: (anchorId: string, block: Block, replaceAnchor: boolean) => void;
+  onSaveToBank: (block: Block) => void;
+  selection: string[];
+  onSelectBlock: (id: string, how: 'toggle' | 'range' | 'clear') => void;
   handleDrop: (e: React.DragEvent, targetId?: string, targetParentId?: string, targetIndex?: number) => void;
   dragTarget?: { id: string, pos: 'top' | 'bottom' | 'inside' } | null;
   setDragTarget?: (t: { id: string, pos: 'top' | 'bottom' | 'inside' } | null) => void;
@@ -31,24 +48,297 @@ interface EditorBlockWrapperProps {
   onBlockDragStart: (type: BlockType) => void;
 }
 
-export const EditorBlockWrapper = ({ block, index, parentId, updateBlock, removeBlock, duplicateBlock, handleDrop, dragTarget, setDragTarget, onDragEnd, isDraggingItem, depth = 0, getNumbering, draggedType, onBlockDragStart }: EditorBlockWrapperProps) => {
+// How typed answers are compared, for cloze text gaps and table text gaps
+const MatchSettingsToggles = ({ block, onChange, className = '' }: { block: QuestionBlock, onChange: (block: QuestionBlock) => void, className?: string }) => (
+  <div className={`mt-1 flex flex-wrap gap-3 text-xs text-slate-500 ${className}`}>
+    {([['ignoreCase', 'Ignore case'], ['ignoreWhitespace', 'Ignore extra spaces'], ['ignoreDiacritics', 'Ignore accents']] as [keyof MatchSettings, string][]).map(([setting, label]) => (
+      <label key={setting} className="flex items-center gap-1.5 cursor-pointer select-none">
+        <input type="checkbox" className="accent-[var(--primary)]" checked={!!block.matching?.[setting]} onChange={(e) => onChange({ ...block, matching: { ...block.matching, [setting]: e.target.checked } })} />
+        {label}
+      </label>
+    ))}
+  </div>
+);
+
+const CELL_KINDS: { kind: TableCell['kind'], label: string, placeholder: string }[] = [
+  { kind: 'text', label: 'Text', placeholder: 'Fixed text' },
+  { kind: 'gap', label: 'Gap', placeholder: '[answer|alternative]' },
+  { kind: 'dropdown', label: 'Drop', placeholder: '[wrong|*right]' },
+  { kind: 'checkbox', label: 'Tick', placeholder: '[x] or [ ]' },
+];
+
+const TableEditor = ({ block, onChange }: { block: QuestionBlock, onChange: (block: QuestionBlock) => void }) => {
+  const rows = block.cells || [];
+  const width = rows[0]?.length || 0;
+  const setCells = (cells: TableCell[][]) => onChange({ ...block, cells });
+  const updateCell = (row: number, col: number, changes: Partial<TableCell>) =>
+    setCells(rows.map((cells, r) => (r === row ? cells.map((cell, c) => (c === col ? { ...cell, ...changes } : cell)) : cells)));
+  const emptyCell = (): TableCell => ({ kind: 'text', content: '' });
+
+  return (
+    <div className="space-y-2 pl-1">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-bold text-slate-400 uppercase">Table</span>
+        <span className="text-xs text-slate-400">Gaps use the bracket syntax: [Paris|paris] · [red|*blue] · [x]</span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="border-collapse">
+          <thead>
+            <tr>
+              {Array.from({ length: width }).map((_, col) => (
+                <th key={col} className="pb-1">
+                  <button title="Remove column" onClick={() => setCells(rows.map(cells => cells.filter((_, c) => c !== col)))} className="text-slate-300 hover:text-red-400"><X size={12} /></button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((cells, row) => (
+              <tr key={row}>
+                {cells.map((cell, col) => {
+                  const invalid = cell.kind === 'gap' && (() => { const rule = parseGapRule(parseCellGap(cell.content)); return rule.kind === 'regex' && !rule.valid; })();
+                  return (
+                    <td key={col} className={`border border-slate-200 p-1 align-top min-w-[130px] ${block.headerRow && row === 0 ? 'bg-slate-50' : ''}`}>
+                      <div className="flex flex-col gap-1">
+                        <select value={cell.kind} onChange={(e) => updateCell(row, col, { kind: e.target.value as TableCell['kind'] })} className="text-[10px] uppercase font-bold text-slate-400 bg-transparent outline-none cursor-pointer self-start">
+                          {CELL_KINDS.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+                        </select>
+                        <input
+                          className={`w-full text-sm px-1.5 py-1 rounded border outline-none ${invalid ? 'bg-red-50 border-red-200' : cell.kind === 'text' ? 'bg-transparent border-transparent hover:border-slate-200 focus:border-[var(--primary-300)]' : 'bg-green-50/50 border-green-200 focus:border-green-400 font-mono'}`}
+                          title={invalid ? 'Invalid regular expression' : undefined}
+                          placeholder={CELL_KINDS.find(k => k.kind === cell.kind)?.placeholder}
+                          value={cell.content}
+                          onChange={(e) => updateCell(row, col, { content: e.target.value })}
+                        />
+                      </div>
+                    </td>
+                  );
+                })}
+                <td className="pl-1">
+                  <button title="Remove row" onClick={() => setCells(rows.filter((_, r) => r !== row))} className="text-slate-300 hover:text-red-400"><X size={12} /></button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex gap-4">
+        <button onClick={() => setCells([...rows, Array.from({ length: Math.max(width, 1) }, emptyCell)])} className={`text-xs text-[var(--primary)] font-medium hover:underline flex items-center gap-1 mt-1`}><Plus size={12} /> Add Row</button>
+        <button onClick={() => setCells(rows.length ? rows.map(cells => [...cells, emptyCell()]) : [[emptyCell()]])} className={`text-xs text-[var(--primary)] font-medium hover:underline flex items-center gap-1 mt-1`}><Plus size={12} /> Add Column</button>
+        <label className="flex items-center gap-1.5 text-xs text-slate-500 cursor-pointer select-none mt-1">
+          <input type="checkbox" className="accent-[var(--primary)]" checked={!!block.headerRow} onChange={(e) => onChange({ ...block, headerRow: e.target.checked })} />
+          First row is a header
+        </label>
+      </div>
+      {rows.some(cells => cells.some(cell => cell.kind === 'gap')) && <MatchSettingsToggles block={block} onChange={onChange} />}
+    </div>
+  );
+};
+
+// Click the diagram to add a spot, drag a spot to move it. Positions are stored as percentages so they survive resizing.
+const HotspotEditor = ({ block, onChange }: { block: QuestionBlock, onChange: (block: QuestionBlock) => void }) => {
+  const imageRef = useRef<HTMLDivElement>(null);
+  const [movingId, setMovingId] = useState<string | null>(null);
+  const hotspots = block.hotspots || [];
+
+  const toPercent = (e: React.PointerEvent | React.MouseEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    const clamp = (v: number) => Math.round(Math.max(0, Math.min(100, v)) * 10) / 10;
+    return { x: clamp(((e.clientX - rect.left) / rect.width) * 100), y: clamp(((e.clientY - rect.top) / rect.height) * 100) };
+  };
+
+  const updateSpot = (id: string, changes: Partial<Hotspot>) => onChange({ ...block, hotspots: hotspots.map(h => (h.id === id ? { ...h, ...changes } : h)) });
+
+  return (
+    <div className="space-y-2 pl-1">
+      <ImageInput value={block.diagram || ''} onChange={(diagram) => onChange({ ...block, diagram })} placeholder="Paste diagram image URL, or paste/drop an image..." className="bg-slate-50 p-2 rounded border border-slate-200 text-sm" />
+      {block.diagram && (
+        <>
+          <div className="text-xs text-slate-400 flex items-center gap-1"><Crosshair size={12} /> Click the image to add a numbered spot, drag a spot to move it</div>
+          <div ref={imageRef} className="relative inline-block max-w-full select-none cursor-crosshair" onClick={(e) => {
+            if (e.target !== e.currentTarget.firstChild) return;
+            onChange({ ...block, hotspots: [...hotspots, { id: generateId(), ...toPercent(e), label: `Label ${hotspots.length + 1}` }] });
+          }}>
+            <img src={block.diagram} className="max-w-full max-h-[400px] rounded-lg border border-slate-200" alt="Diagram" draggable={false} />
+            {hotspots.map((spot, idx) => (
+              <span
+                key={spot.id}
+                style={{ left: `${spot.x}%`, top: `${spot.y}%` }}
+                onPointerDown={(e) => { e.stopPropagation(); e.currentTarget.setPointerCapture(e.pointerId); setMovingId(spot.id); }}
+                onPointerMove={(e) => { if (movingId === spot.id) updateSpot(spot.id, toPercent(e)); }}
+                onPointerUp={() => setMovingId(null)}
+                title={spot.label}
+                className={`absolute -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full text-white text-xs font-bold flex items-center justify-center shadow-md border-2 border-white cursor-move touch-none ${movingId === spot.id ? 'bg-[var(--primary)] scale-125' : 'bg-slate-800'}`}
+              >
+                {idx + 1}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+      {hotspots.map((spot, idx) => (
+        <div key={spot.id} className="flex items-center gap-2">
+          <span className="w-5 h-5 rounded-full bg-slate-800 text-white text-[10px] font-bold flex items-center justify-center flex-shrink-0">{idx + 1}</span>
+          <input className="flex-1 text-sm p-1.5 bg-green-50/50 border border-green-200 rounded focus:border-green-400 outline-none" placeholder="Correct label" value={spot.label} onChange={(e) => updateSpot(spot.id, { label: e.target.value })} />
+          <button onClick={() => onChange({ ...block, hotspots: hotspots.filter(h => h.id !== spot.id) })} className="text-slate-300 hover:text-red-400"><X size={14} /></button>
+        </div>
+      ))}
+      {hotspots.length > 0 && (
+        <>
+          <div className="text-xs font-bold text-slate-400 uppercase pt-3">Distractors <span className="font-normal normal-case">· extra labels that belong nowhere</span></div>
+          {block.distractors?.map((item, itemIdx) => (
+            <div key={itemIdx} className="flex items-center gap-2 pl-7">
+              <input className="flex-1 text-sm p-1.5 bg-red-50/40 border border-red-100 rounded focus:border-red-300 outline-none" placeholder="Wrong label" value={item} onChange={(e) => { const next = [...(block.distractors || [])]; next[itemIdx] = e.target.value; onChange({ ...block, distractors: next }); }} />
+              <button onClick={() => onChange({ ...block, distractors: block.distractors?.filter((_, i) => i !== itemIdx) })} className="text-slate-300 hover:text-red-400"><X size={14} /></button>
+            </div>
+          ))}
+          <button onClick={() => onChange({ ...block, distractors: [...(block.distractors || []), ''] })} className={`text-xs text-[var(--primary)] font-medium hover:underline flex items-center gap-1 mt-2 pl-7`}><Plus size={12} /> Add Distractor</button>
+        </>
+      )}
+    </div>
+  );
+};
+
+const NumericEditor = ({ block, onChange }: { block: QuestionBlock, onChange: (block: QuestionBlock) => void }) => {
+  const settings: NumericSettings = block.numeric || { kind: 'number', answer: '' };
+  const update = (changes: Partial<NumericSettings>) => onChange({ ...block, numeric: { ...settings, ...changes } });
+  const problem = validateNumericKey(settings);
+  const unit = settings.unit?.trim() || '';
+  const fieldStyle = 'text-sm p-1.5 bg-slate-50 border border-slate-200 rounded focus:border-[var(--primary-300)] outline-none';
+  return (
+    <div className="space-y-2 pl-1">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-bold text-slate-400 uppercase mr-2">Answer</span>
+        {(['number', 'formula'] as const).map(kind => (
+          <button key={kind} onClick={() => update({ kind })} className={`text-xs px-2 py-1 rounded-md border transition-colors ${settings.kind === kind ? 'bg-[var(--primary-50)] border-[var(--primary-300)] text-[var(--primary-700)] font-medium' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}>
+            {kind === 'number' ? 'Number' : 'Formula'}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <input className={`${fieldStyle} font-mono w-40 !bg-green-50/50 !border-green-200`} placeholder={settings.kind === 'formula' ? '2*pi*r' : '1500'} value={settings.answer} onChange={(e) => update({ answer: e.target.value })} />
+        {settings.kind === 'number' && <input className={`${fieldStyle} w-20`} placeholder="Unit" value={settings.unit || ''} onChange={(e) => update({ unit: e.target.value })} />}
+        <span className="text-xs text-slate-400">±</span>
+        <input type="number" min={0} step="any" className={`${fieldStyle} w-20`} value={settings.tolerance ?? 0} onChange={(e) => update({ tolerance: Math.max(0, parseFloat(e.target.value) || 0) })} />
+        <select className={`${fieldStyle} cursor-pointer`} value={settings.toleranceMode || 'absolute'} onChange={(e) => update({ toleranceMode: e.target.value as NumericSettings['toleranceMode'] })}>
+          <option value="absolute">{settings.kind === 'number' && unit ? unit : 'absolute'}</option>
+          <option value="percent">%</option>
+        </select>
+      </div>
+      <div className={`text-xs flex items-center gap-1 ${problem ? 'text-amber-600' : 'text-slate-400'}`}>
+        <KeyRound size={12} />
+        {problem || (settings.kind === 'formula'
+          ? 'Student formulas are checked by evaluating both at random values of the variables.'
+          : unit ? `Also accepted in ${getCompatibleUnits(unit).filter(u => u !== unit).join(', ') || 'no other units'}.` : 'Students may type expressions like 3/4 or 2*pi.')}
+      </div>
+    </div>
+  );
+};
+
+export const EditorBlockWrapper = ({ block, index, parentId, updateBlock, removeBlock, duplicateBlock, moveBlock, insertBlockNear, onSaveToBank, selection, onSelectBlock, handleDrop, dragTarget, setDragTarget, onDragEnd, isDraggingItem, depth = 0, getNumbering, draggedType, onBlockDragStart }: EditorBlockWrapperProps) => {
   const [draggedOptionIdx, setDraggedOptionIdx] = useState<number | null>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
   
+  const isSelected = selection.includes(block.id);
+
   const onBadgeDragStart = (e: React.DragEvent) => {
     e.stopPropagation();
     onBlockDragStart(block.type);
-    const dragData: DragItem = { id: block.id, index, parentId, type: 'block' };
+    // Dragging any block of a multi-selection moves the whole selection
+    const multi = isSelected && selection.length > 1;
+    const dragData: DragItem = { id: block.id, index, parentId, type: 'block', ids: multi ? selection : undefined };
     e.dataTransfer.setData("dragData", JSON.stringify(dragData));
     e.dataTransfer.effectAllowed = "move";
-    if (wrapperRef.current) {
+    if (multi) {
+      const ghost = createDragPreview(`${selection.length} blocks`);
+      e.dataTransfer.setDragImage(ghost, 0, 0);
+      setTimeout(() => document.body.removeChild(ghost), 0);
+    } else if (wrapperRef.current) {
       e.dataTransfer.setDragImage(wrapperRef.current, 0, 0);
     }
   };
 
+  // Shift/Ctrl/Cmd-click outside the fields selects; fields keep their own shift-click text selection
+  const inField = (target: EventTarget) => !!(target as HTMLElement).closest('input, textarea, select, button, label, a');
+  const onClick = (e: React.MouseEvent) => {
+    // Clicks inside a nested block are that block's
+    if ((e.target as HTMLElement).closest('[data-block-id]') !== e.currentTarget) return;
+    const modifier = e.shiftKey ? 'range' : (e.ctrlKey || e.metaKey) ? 'toggle' : null;
+    if (modifier && inField(e.target)) return;
+    onSelectBlock(block.id, modifier || 'clear');
+  };
+
+  // Image files pasted or dropped anywhere on a question become its image (the diagram, for image-label questions)
+  const imageUpload = useImageUpload((src) => {
+    if (block.type !== 'question') return;
+    updateBlock(block.id, parentId, block.qType === 'image-label' ? { ...block, diagram: src } : { ...block, image: src });
+  });
+  const acceptsImage = (e: React.DragEvent) => block.type === 'question' && e.dataTransfer.types.includes('Files');
+
+  const slash = useSlashMenu((command, remainingText) => {
+    if (block.type === 'text') {
+      // An empty text block is just a placeholder for the command, so the new block takes its place
+      if (!remainingText.trim()) return insertBlockNear(block.id, createBlock(command.type, command.qType), true);
+      updateBlock(block.id, parentId, { ...block, content: remainingText });
+    } else if (block.type === 'question') {
+      updateBlock(block.id, parentId, { ...block, prompt: remainingText });
+    }
+    insertBlockNear(block.id, createBlock(command.type, command.qType), false);
+  });
+
+  // With the block itself focused (Esc from any of its fields): arrows move between blocks, Alt+arrows move the block,
+  // Enter edits it, Delete removes it and Ctrl/Cmd+D duplicates it
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target !== e.currentTarget) {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        wrapperRef.current?.focus();
+      }
+      return;
+    }
+    const blocks = Array.from(document.querySelectorAll<HTMLElement>('[data-block-id]'));
+    const position = blocks.indexOf(e.currentTarget as HTMLElement);
+    const mod = e.ctrlKey || e.metaKey;
+    // A multi-selection's delete and duplicate shortcuts are handled by the editor for all selected blocks
+    if (selection.length > 0 && (e.key === 'Delete' || e.key === 'Backspace' || (mod && e.key.toLowerCase() === 'd'))) return;
+    let handled = true;
+    if (e.altKey && e.key === 'ArrowUp') moveBlock(block.id, 'up');
+    else if (e.altKey && e.key === 'ArrowDown') moveBlock(block.id, 'down');
+    else if (e.altKey && e.key === 'ArrowRight') moveBlock(block.id, 'in');
+    else if (e.altKey && e.key === 'ArrowLeft') moveBlock(block.id, 'out');
+    else if (e.key === 'ArrowUp') blocks[position - 1]?.focus();
+    else if (e.key === 'ArrowDown') blocks[position + 1]?.focus();
+    else if (e.key === 'Enter') focusBlock(block.id, true);
+    else if (mod && e.key.toLowerCase() === 'd') duplicateBlock(block, parentId);
+    else if (e.key === 'Delete' || e.key === 'Backspace') {
+      // Keep the keyboard in the list: focus the next block outside this one, or the previous
+      const next = blocks.slice(position + 1).find(el => !e.currentTarget.contains(el)) || blocks[position - 1];
+      removeBlock(block.id, parentId);
+      if (next?.dataset.blockId) focusBlock(next.dataset.blockId);
+    } else handled = false;
+    if (handled) {
+      e.preventDefault();
+      e.stopPropagation();
+    }
+  };
+
+  const onPaste = (e: React.ClipboardEvent) => {
+    const file = block.type === 'question' ? getImageFile(e.clipboardData) : null;
+    // Text copied from office apps often comes with a picture of itself; in a text field the text wins
+    const inTextField = e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement;
+    if (!file || (inTextField && e.clipboardData.getData('text/plain'))) return;
+    e.preventDefault();
+    imageUpload.upload(file);
+  };
+
   const onDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
+    if (acceptsImage(e)) {
+      e.dataTransfer.dropEffect = 'copy';
+      if (setDragTarget) setDragTarget(null);
+      return;
+    }
     e.dataTransfer.dropEffect = 'move';
 
     if (setDragTarget) {
@@ -68,6 +358,11 @@ export const EditorBlockWrapper = ({ block, index, parentId, updateBlock, remove
     e.preventDefault();
     e.stopPropagation();
     if (setDragTarget) setDragTarget(null);
+    if (acceptsImage(e)) {
+      const file = getImageFile(e.dataTransfer);
+      if (file) imageUpload.upload(file);
+      return;
+    }
     
     const rect = e.currentTarget.getBoundingClientRect();
     const isTop = e.clientY < rect.top + 20;
@@ -86,23 +381,65 @@ export const EditorBlockWrapper = ({ block, index, parentId, updateBlock, remove
     e.dataTransfer.effectAllowed = 'move';
   };
 
-  const handleItemDrop = (e: React.DragEvent, dropIdx: number, type: 'options' | 'listItems') => {
+  const handleItemDrop = (e: React.DragEvent, dropIdx: number, type: 'options' | 'listItems' | 'pairs') => {
     e.preventDefault();
     e.stopPropagation();
     if (draggedOptionIdx === null || draggedOptionIdx === dropIdx) return;
 
     const qBlock = block as QuestionBlock;
-    const list = type === 'options' ? [...(qBlock.options || [])] : [...(qBlock.listItems || [])];
+    const list: (string | MatchPair)[] = [...(qBlock[type] || [])];
     const item = list[draggedOptionIdx];
     list.splice(draggedOptionIdx, 1);
     list.splice(dropIdx, 0, item);
 
-    if (type === 'options') updateBlock(block.id, parentId, { ...qBlock, options: list });
-    else updateBlock(block.id, parentId, { ...qBlock, listItems: list });
+    updateBlock(block.id, parentId, { ...qBlock, [type]: list });
     
     setDraggedOptionIdx(null);
   };
 
+  // Answer key for multiple choice is stored by option text, like the player answers
+  const toggleCorrectOption = (opt: string) => {
+    const qBlock = block as QuestionBlock;
+    const key = getChoiceKey(qBlock);
+    if (qBlock.multiSelect) {
+      const next = key.includes(opt) ? key.filter(k => k !== opt) : [...key, opt];
+      updateBlock(block.id, parentId, { ...qBlock, correctAnswer: next.length ? next : undefined });
+    } else {
+      updateBlock(block.id, parentId, { ...qBlock, correctAnswer: key[0] === opt ? undefined : opt });
+    }
+  };
+
+  const renameOption = (optIdx: number, value: string) => {
+    const qBlock = block as QuestionBlock;
+    const oldValue = qBlock.options?.[optIdx];
+    const newOpts = [...(qBlock.options || [])];
+    newOpts[optIdx] = value;
+    const key = getChoiceKey(qBlock).map(k => (k === oldValue ? value : k));
+    updateBlock(block.id, parentId, { ...qBlock, options: newOpts, correctAnswer: key.length ? (qBlock.multiSelect ? key : key[0]) : undefined });
+  };
+
+  const removeOption = (optIdx: number) => {
+    const qBlock = block as QuestionBlock;
+    const removed = qBlock.options?.[optIdx];
+    const key = getChoiceKey(qBlock).filter(k => k !== removed);
+    updateBlock(block.id, parentId, { ...qBlock, options: qBlock.options?.filter((_, i) => i !== optIdx), correctAnswer: key.length ? (qBlock.multiSelect ? key : key[0]) : undefined });
+  };
+
+  const toggleMultiSelect = () => {
+    const qBlock = block as QuestionBlock;
+    const key = getChoiceKey(qBlock);
+    const multiSelect = !qBlock.multiSelect;
+    updateBlock(block.id, parentId, { ...qBlock, multiSelect, correctAnswer: key.length ? (multiSelect ? key : key[0]) : undefined });
+  };
+
+  const updatePair = (pairIdx: number, changes: Partial<MatchPair>) => {
+    const qBlock = block as QuestionBlock;
+    const pairs = (qBlock.pairs || []).map((p, i) => (i === pairIdx ? { ...p, ...changes } : p));
+    updateBlock(block.id, parentId, { ...qBlock, pairs });
+  };
+
+  const gapKeys = block.type === 'question' ? getGapKeys(block) : {};
+
   const isGroupDrag = draggedType === 'group';
   const isDividerDrag = draggedType === 'divider';
   const isMaxDepth = depth >= 1;
@@ -111,9 +448,15 @@ export const EditorBlockWrapper = ({ block, index, parentId, updateBlock, remove
   return (
     <div 
       ref={wrapperRef}
-      className="group relative flex px-0 py-3 border-b border-slate-100 last:border-0"
+      className={`group relative flex px-0 py-3 border-b border-slate-100 last:border-0 outline-none rounded-lg focus:ring-2 focus:ring-[var(--primary-300)] ${isSelected ? 'bg-[var(--primary-50)] ring-2 ring-[var(--primary-300)]' : ''}`}
       onDragOver={onDragOver}
       onDrop={onDrop}
+      onPaste={onPaste}
+      onKeyDown={onKeyDown}
+      onClick={onClick}
+      onMouseDown={(e) => { if (e.shiftKey && !inField(e.target)) e.preventDefault(); }}
+      data-block-id={block.id}
+      tabIndex={-1}
     >
       {dragTarget?.id === block.id && dragTarget.pos !== 'inside' && (
          <div className={`absolute left-0 right-0 h-1 bg-blue-500 rounded-full pointer-events-none z-50 ${dragTarget.pos === 'top' ? '-top-0.5' : '-bottom-0.5'}`}></div>
@@ -127,6 +470,8 @@ export const EditorBlockWrapper = ({ block, index, parentId, updateBlock, remove
               draggable
               onDragStart={onBadgeDragStart}
               onDragEnd={onDragEnd}
+              onClick={() => wrapperRef.current?.focus()}
+              title="Drag to move, or click and use ↑/↓ to select and Alt+arrows to move or indent"
               className={`cursor-grab active:cursor-grabbing flex items-center justify-center text-slate-300 hover:text-slate-600 p-1 rounded hover:bg-slate-100 transition-colors w-8 h-8`}
             >
                <GripVertical size={20} />
@@ -140,13 +485,14 @@ export const EditorBlockWrapper = ({ block, index, parentId, updateBlock, remove
                     <button title="Toggle Image" onClick={(e) => { e.stopPropagation(); updateBlock(block.id, parentId, { ...(block as QuestionBlock), image: (block as QuestionBlock).image === undefined ? '' : undefined }); }} className={`p-1.5 rounded hover:bg-slate-100 text-slate-500 hover:text-slate-900 ${(block as QuestionBlock).image !== undefined ? 'text-blue-600 bg-blue-50' : ''}`}><ImageIcon size={14} /></button>
                     <button title="Toggle Description" onClick={(e) => { e.stopPropagation(); updateBlock(block.id, parentId, { ...(block as QuestionBlock), description: (block as QuestionBlock).description === undefined ? '' : undefined }); }} className={`p-1.5 rounded hover:bg-slate-100 text-slate-500 hover:text-slate-900 ${(block as QuestionBlock).description !== undefined ? 'text-blue-600 bg-blue-50' : ''}`}><FileText size={14} /></button>
                     {(block as QuestionBlock).qType === 'multiple-choice' && (
-                       <button title="Toggle Multiple Answer" onClick={(e) => { e.stopPropagation(); updateBlock(block.id, parentId, { ...(block as QuestionBlock), multiSelect: !(block as QuestionBlock).multiSelect }); }} className={`p-1.5 rounded hover:bg-slate-100 text-slate-500 hover:text-slate-900 ${(block as QuestionBlock).multiSelect ? 'text-blue-600 bg-blue-50' : ''}`}><CheckSquare size={14} /></button>
+                       <button title="Toggle Multiple Answer" onClick={(e) => { e.stopPropagation(); toggleMultiSelect(); }} className={`p-1.5 rounded hover:bg-slate-100 text-slate-500 hover:text-slate-900 ${(block as QuestionBlock).multiSelect ? 'text-blue-600 bg-blue-50' : ''}`}><CheckSquare size={14} /></button>
                     )}
                     <div className="w-px bg-slate-200 mx-0.5"></div>
                   </>
                 )}
-                <button title="Duplicate" onClick={(e) => { e.stopPropagation(); duplicateBlock(block, parentId); }} className="p-1.5 rounded hover:bg-slate-100 text-slate-400 hover:text-slate-900"><Copy size={14} /></button>
-                <button title="Delete" onClick={(e) => { e.stopPropagation(); removeBlock(block.id, parentId); }} className="p-1.5 rounded hover:bg-red-50 text-slate-400 hover:text-red-500"><X size={14} /></button>
+                <button title="Save to question bank" onClick={(e) => { e.stopPropagation(); onSaveToBank(block); }} className="p-1.5 rounded hover:bg-slate-100 text-slate-400 hover:text-slate-900"><BookmarkPlus size={14} /></button>
+                <button title="Duplicate (Ctrl+D)" onClick={(e) => { e.stopPropagation(); duplicateBlock(block, parentId); }} className="p-1.5 rounded hover:bg-slate-100 text-slate-400 hover:text-slate-900"><Copy size={14} /></button>
+                <button title="Delete (Del)" onClick={(e) => { e.stopPropagation(); removeBlock(block.id, parentId); }} className="p-1.5 rounded hover:bg-red-50 text-slate-400 hover:text-red-500"><X size={14} /></button>
               </div>
               <div className="absolute top-full left-1/2 -translate-x-1/2 border-4 border-transparent border-t-white -mt-2"></div>
             </div>
@@ -156,7 +502,7 @@ export const EditorBlockWrapper = ({ block, index, parentId, updateBlock, remove
 
       <div className="flex-1 pl-2 relative">
         {block.type === 'text' && (
-            <div className="flex gap-2"><textarea className="w-full resize-none outline-none text-slate-700 bg-transparent placeholder-slate-300 font-normal" placeholder="Type text..." value={block.content} rows={Math.max(1, block.content.split('\n').length)} onChange={(e) => updateBlock(block.id, parentId, { ...block, content: e.target.value })} /></div>
+            <div className="flex gap-2 relative"><textarea className="w-full resize-none outline-none text-slate-700 bg-transparent placeholder-slate-300 font-normal" placeholder="Type text, or / to insert a block..." value={block.content} rows={Math.max(1, block.content.split('\n').length)} onChange={(e) => { updateBlock(block.id, parentId, { ...block, content: e.target.value }); slash.track(e.target); }} onKeyDown={slash.onKeyDown} onBlur={slash.close} />{slash.menu}</div>
         )}
         {block.type === 'embed' && (
              <div>
@@ -168,22 +514,73 @@ export const EditorBlockWrapper = ({ block, index, parentId, updateBlock, remove
         {block.type === 'question' && (
            <div className="flex flex-col-reverse md:flex-row gap-6">
               <div className="flex-1 space-y-3">
-                 <div className="flex gap-2"><textarea className="flex-1 text-lg font-medium outline-none placeholder-slate-300 resize-none bg-transparent" placeholder="Question Prompt..." value={block.prompt} onChange={(e) => updateBlock(block.id, parentId, { ...block, prompt: e.target.value })} rows={Math.max(1, block.prompt.length / 60)} /></div>
+                 <div className="flex gap-2 relative"><textarea className="flex-1 text-lg font-medium outline-none placeholder-slate-300 resize-none bg-transparent" placeholder="Question Prompt..." value={block.prompt} onChange={(e) => { updateBlock(block.id, parentId, { ...block, prompt: e.target.value }); slash.track(e.target); }} onKeyDown={slash.onKeyDown} onBlur={slash.close} rows={Math.max(1, block.prompt.length / 60)} />{slash.menu}</div>
                  {(block as QuestionBlock).description !== undefined && (<div className="bg-slate-50 p-2 rounded-lg flex items-start gap-2 border border-slate-100 focus-within:border-[var(--primary-300)] transition-colors"><Info size={14} className="text-slate-400 mt-0.5 flex-shrink-0" /><textarea className="w-full text-sm text-slate-600 bg-transparent outline-none resize-none placeholder-slate-400" placeholder="Context / Description..." value={(block as QuestionBlock).description || ''} onChange={(e) => updateBlock(block.id, parentId, { ...block, description: e.target.value })} rows={1} style={{ minHeight: '1.5em' }} onInput={(e) => { (e.target as HTMLTextAreaElement).style.height = 'auto'; (e.target as HTMLTextAreaElement).style.height = (e.target as HTMLTextAreaElement).scrollHeight + 'px'; }} /></div>)}
-                 {(block as QuestionBlock).image !== undefined && !(block as QuestionBlock).image && (<div className="flex items-center gap-2 bg-slate-50 p-2 rounded border border-slate-200"><ImageIcon size={16} className="text-slate-400"/><input className="bg-transparent text-sm w-full outline-none placeholder-slate-400" placeholder="Paste Image URL..." value={(block as QuestionBlock).image || ''} onChange={(e) => updateBlock(block.id, parentId, { ...block, image: e.target.value })} /></div>)}
+                 {(block as QuestionBlock).image !== undefined && !(block as QuestionBlock).image && <ImageInput value={(block as QuestionBlock).image || ''} onChange={(image) => updateBlock(block.id, parentId, { ...block, image })} className="bg-slate-50 p-2 rounded border border-slate-200 text-sm" />}
+                 {imageUpload.busy && <div className="text-xs text-slate-400">Adding image...</div>}
+                 {imageUpload.error && <div className="text-xs text-red-500">{imageUpload.error}</div>}
                  
                  {block.qType === 'multiple-choice' && (
                   <div className="space-y-2 pl-1">
-                     <div className="flex items-center justify-between mb-2"><span className="text-xs font-bold text-slate-400 uppercase">Options</span></div>
+                     <div className="flex items-center justify-between mb-2"><span className="text-xs font-bold text-slate-400 uppercase">Options</span>{getChoiceKey(block).length === 0 && <span className="text-xs text-slate-400 flex items-center gap-1"><KeyRound size={12} /> Click a marker to set the answer key</span>}</div>
                      {block.options?.map((opt: string, optIdx: number) => (
                      <div key={optIdx} className="flex items-center gap-2 group/opt" draggable onDragStart={(e) => handleItemDragStart(e, optIdx)} onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); }} onDrop={(e) => handleItemDrop(e, optIdx, 'options')}>
                         <div className="cursor-grab active:cursor-grabbing text-slate-300 hover:text-slate-500 opacity-0 group-hover/opt:opacity-100 transition-opacity"><GripVertical size={14} /></div>
-                        <div className={`w-4 h-4 ${(block as QuestionBlock).multiSelect ? 'rounded-md' : 'rounded-full'} border border-slate-300 flex-shrink-0`} /><input className={`flex-1 text-sm p-1 border-b border-transparent hover:border-slate-200 focus:border-[var(--primary-300)] outline-none bg-transparent`} value={opt} onChange={(e) => { const newOpts = [...(block.options || [])]; newOpts[optIdx] = e.target.value; updateBlock(block.id, parentId, { ...block, options: newOpts }); }} /><button onClick={() => updateBlock(block.id, parentId, { ...block, options: block.options?.filter((_, i) => i !== optIdx) })} className="text-slate-300 hover:text-red-400"><X size={14} /></button>
+                        <button title="Mark as correct" onClick={() => toggleCorrectOption(opt)} className={`w-4 h-4 ${(block as QuestionBlock).multiSelect ? 'rounded-md' : 'rounded-full'} border flex-shrink-0 flex items-center justify-center transition-colors ${getChoiceKey(block).includes(opt) ? 'bg-green-500 border-green-500 text-white' : 'border-slate-300 hover:border-green-400'}`}>{getChoiceKey(block).includes(opt) && <Check size={10} strokeWidth={4} />}</button><input className={`flex-1 text-sm p-1 border-b border-transparent hover:border-slate-200 focus:border-[var(--primary-300)] outline-none bg-transparent`} value={opt} onChange={(e) => renameOption(optIdx, e.target.value)} /><button onClick={() => removeOption(optIdx)} className="text-slate-300 hover:text-red-400"><X size={14} /></button>
                      </div>
                      ))}
                      <button onClick={() => updateBlock(block.id, parentId, { ...block, options: [...(block.options || []), `Option ${(block.options?.length || 0) + 1}`] })} className={`text-xs text-[var(--primary)] font-medium hover:underline flex items-center gap-1 mt-2 pl-6`}><Plus size={12} /> Add Option</button>
                   </div>
                  )}
+                 {block.qType === 'table' && <TableEditor block={block} onChange={(next) => updateBlock(block.id, parentId, next)} />}
+                 {block.qType === 'numeric' && <NumericEditor block={block} onChange={(next) => updateBlock(block.id, parentId, next)} />}
+                 {block.qType === 'image-label' && <HotspotEditor block={block} onChange={(next) => updateBlock(block.id, parentId, next)} />}
+                 {block.qType === 'ordering' && (
+                  <div className="space-y-2 pl-1">
+                     <div className="flex items-center justify-between mb-2"><span className="text-xs font-bold text-slate-400 uppercase">Items in the correct order</span><span className="text-xs text-slate-400 flex items-center gap-1"><Shuffle size={12} /> Students see them shuffled</span></div>
+                     {block.options?.map((item: string, itemIdx: number) => (
+                     <div key={itemIdx} className="flex items-center gap-2 group/opt" draggable onDragStart={(e) => handleItemDragStart(e, itemIdx)} onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); }} onDrop={(e) => handleItemDrop(e, itemIdx, 'options')}>
+                        <div className="cursor-grab active:cursor-grabbing text-slate-300 hover:text-slate-500 opacity-0 group-hover/opt:opacity-100 transition-opacity"><GripVertical size={14} /></div>
+                        <span className="text-slate-300 text-xs select-none w-4">{itemIdx + 1}.</span>
+                        <input className={`flex-1 text-sm p-1 border-b border-transparent hover:border-slate-200 focus:border-[var(--primary-300)] outline-none bg-transparent`} value={item} onChange={(e) => { const next = [...(block.options || [])]; next[itemIdx] = e.target.value; updateBlock(block.id, parentId, { ...block, options: next }); }} /><button onClick={() => updateBlock(block.id, parentId, { ...block, options: block.options?.filter((_, i) => i !== itemIdx) })} className="text-slate-300 hover:text-red-400"><X size={14} /></button>
+                     </div>
+                     ))}
+                     <button onClick={() => updateBlock(block.id, parentId, { ...block, options: [...(block.options || []), `Step ${(block.options?.length || 0) + 1}`] })} className={`text-xs text-[var(--primary)] font-medium hover:underline flex items-center gap-1 mt-2 pl-6`}><Plus size={12} /> Add Item</button>
+                     <label className="ml-6 mt-2 flex items-center gap-1.5 text-xs text-slate-500 cursor-pointer select-none">
+                       <input type="checkbox" className="accent-[var(--primary)]" checked={block.orderScoring === 'adjacent'} onChange={(e) => updateBlock(block.id, parentId, { ...block, orderScoring: e.target.checked ? 'adjacent' : 'exact' })} />
+                       Partial credit: a point for each pair of neighbours in the right order
+                     </label>
+                  </div>
+                 )}
+                 {block.qType === 'matching' && (
+                   <div className="space-y-2 pl-1">
+                      <div className="flex items-center justify-between mb-2"><span className="text-xs font-bold text-slate-400 uppercase">Pairs</span>{getMatchPairs(block).length === 0 && <span className="text-xs text-slate-400 flex items-center gap-1"><KeyRound size={12} /> Fill in both sides of a pair to grade it</span>}</div>
+                      {block.pairs?.map((pair, pairIdx) => (
+                        <div key={pair.id} className="flex items-center gap-2 group/opt" draggable onDragStart={(e) => handleItemDragStart(e, pairIdx)} onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); }} onDrop={(e) => handleItemDrop(e, pairIdx, 'pairs')}>
+                           <div className="cursor-grab active:cursor-grabbing text-slate-300 hover:text-slate-500 opacity-0 group-hover/opt:opacity-100 transition-opacity"><GripVertical size={14} /></div>
+                           <input className="flex-1 min-w-0 text-sm p-1.5 bg-slate-50 border border-slate-200 rounded focus:border-[var(--primary-300)] outline-none" placeholder="Left item" value={pair.left} onChange={(e) => updatePair(pairIdx, { left: e.target.value })} />
+                           <ArrowRight size={14} className="text-slate-300 flex-shrink-0" />
+                           <input className="flex-1 min-w-0 text-sm p-1.5 bg-green-50/50 border border-green-200 rounded focus:border-green-400 outline-none" placeholder="Matching right item" value={pair.right} onChange={(e) => updatePair(pairIdx, { right: e.target.value })} />
+                           <button onClick={() => updateBlock(block.id, parentId, { ...block, pairs: block.pairs?.filter((_, i) => i !== pairIdx) })} className="text-slate-300 hover:text-red-400"><X size={14} /></button>
+                        </div>
+                      ))}
+                      <button onClick={() => updateBlock(block.id, parentId, { ...block, pairs: [...(block.pairs || []), { id: generateId(), left: '', right: '' }] })} className={`text-xs text-[var(--primary)] font-medium hover:underline flex items-center gap-1 mt-2 pl-6`}><Plus size={12} /> Add Pair</button>
+
+                      <div className="text-xs font-bold text-slate-400 uppercase pt-3">Distractors <span className="font-normal normal-case">· extra right items with no pair</span></div>
+                      {block.distractors?.map((item, itemIdx) => (
+                        <div key={itemIdx} className="flex items-center gap-2 pl-6">
+                           <input className="flex-1 text-sm p-1.5 bg-red-50/40 border border-red-100 rounded focus:border-red-300 outline-none" placeholder="Wrong answer" value={item} onChange={(e) => { const next = [...(block.distractors || [])]; next[itemIdx] = e.target.value; updateBlock(block.id, parentId, { ...block, distractors: next }); }} />
+                           <button onClick={() => updateBlock(block.id, parentId, { ...block, distractors: block.distractors?.filter((_, i) => i !== itemIdx) })} className="text-slate-300 hover:text-red-400"><X size={14} /></button>
+                        </div>
+                      ))}
+                      <button onClick={() => updateBlock(block.id, parentId, { ...block, distractors: [...(block.distractors || []), ''] })} className={`text-xs text-[var(--primary)] font-medium hover:underline flex items-center gap-1 mt-2 pl-6`}><Plus size={12} /> Add Distractor</button>
+
+                      <label className="ml-6 mt-2 flex items-center gap-1.5 text-xs text-slate-500 cursor-pointer select-none">
+                        <input type="checkbox" className="accent-[var(--primary)]" checked={!!block.shuffle} onChange={(e) => updateBlock(block.id, parentId, { ...block, shuffle: e.target.checked })} />
+                        <Shuffle size={12} /> Shuffle the right column
+                      </label>
+                   </div>
+                 )}
                  {['cloze-text', 'cloze-dropdown', 'drag-inline'].includes(block.qType) && (
                    <div className="space-y-3 pl-1">
                       <div className="text-xs font-bold text-slate-400 uppercase mb-2">Sentences</div>
@@ -195,10 +592,22 @@ export const EditorBlockWrapper = ({ block, index, parentId, updateBlock, remove
                          </div>
                       ))}
                       <button onClick={() => updateBlock(block.id, parentId, { ...block, listItems: [...(block.listItems || []), 'New sentence with [answer]...'] })} className={`text-xs text-[var(--primary)] font-medium hover:underline flex items-center gap-1 mt-2 pl-9`}><Plus size={12} /> Add Sentence</button>
+                      {Object.keys(gapKeys).length > 0 && (
+                        <div className="ml-9 mt-2 text-xs text-slate-400 flex flex-wrap items-center gap-1">
+                          <KeyRound size={12} /> Key:
+                          {parseGaps(block.listItems).map(gap => {
+                            const invalid = block.qType === 'cloze-text' && (() => { const rule = parseGapRule(gap.raw); return rule.kind === 'regex' && !rule.valid; })();
+                            return <span key={gap.key} title={invalid ? 'Invalid regular expression' : undefined} className={`px-1.5 py-0.5 border rounded ${invalid ? 'bg-red-50 text-red-600 border-red-200' : 'bg-green-50 text-green-700 border-green-200'}`}>{gapKeys[gap.key]}</span>;
+                          })}
+                          {block.qType === 'cloze-dropdown' && <span className="w-full mt-1">Mark the correct choice with *, e.g. [red|*blue|green]. Otherwise the first choice counts.</span>}
+                          {block.qType === 'cloze-text' && <span className="w-full mt-1">Alternatives: [Paris|paris] · Numbers: [3.14~0.01] · Patterns: [/colou?r/i]</span>}
+                        </div>
+                      )}
+                      {block.qType === 'cloze-text' && <MatchSettingsToggles block={block} onChange={(next) => updateBlock(block.id, parentId, next)} className="ml-9" />}
                    </div>
                  )}
               </div>
-              {(block as QuestionBlock).image && (<div className="w-full md:w-1/4 max-w-[200px] flex-shrink-0"><div className="relative group/img rounded-lg overflow-hidden border border-slate-200 bg-slate-50"><img src={(block as QuestionBlock).image!} className="w-full h-auto object-cover" alt="Question" /><div className="absolute inset-0 bg-black/50 opacity-0 group-hover/img:opacity-100 transition-opacity flex items-center justify-center p-2"><input className="w-full bg-white text-xs p-1 rounded outline-none" value={(block as QuestionBlock).image || ''} onChange={(e) => updateBlock(block.id, parentId, { ...block, image: e.target.value })} placeholder="Image URL" onClick={(e) => e.stopPropagation()} /></div></div></div>)}
+              {(block as QuestionBlock).image && (<div className="w-full md:w-1/4 max-w-[200px] flex-shrink-0"><div className="relative group/img rounded-lg overflow-hidden border border-slate-200 bg-slate-50"><img src={(block as QuestionBlock).image!} className="w-full h-auto object-cover" alt="Question" /><div className="absolute inset-0 bg-black/50 opacity-0 group-hover/img:opacity-100 focus-within:opacity-100 transition-opacity flex items-center justify-center p-2"><ImageInput value={(block as QuestionBlock).image || ''} onChange={(image) => updateBlock(block.id, parentId, { ...block, image })} placeholder="Image URL" className="w-full bg-white text-xs p-1 rounded" /></div></div></div>)}
            </div>
         )}
         {block.type === 'group' && (
@@ -219,6 +628,11 @@ export const EditorBlockWrapper = ({ block, index, parentId, updateBlock, remove
                       updateBlock={updateBlock} 
                       removeBlock={removeBlock} 
                       duplicateBlock={duplicateBlock} 
+                      moveBlock={moveBlock}
+                      insertBlockNear={insertBlockNear}
+                      onSaveToBank={onSaveToBank}
+                      selection={selection}
+                      onSelectBlock={onSelectBlock}
                       handleDrop={handleDrop} 
                       dragTarget={dragTarget} 
                       setDragTarget={setDragTarget} 
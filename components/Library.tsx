@@ -0,0 +1,184 @@
+import React, { useState, useEffect } from "react";
+import {
+  FolderOpen,
+  Plus,
+  Upload,
+  FileDown,
+  Pencil,
+  Copy,
+  Trash2,
+  Check,
+  X,
+  AlertCircle,
+  Loader2
+} from "lucide-react";
+import { LibraryEntry } from "../types";
+import { downloadFile, generateId } from "../helpers";
+import { collectQuestions } from "../grading";
+import { deleteWorksheet, exportLibrary, importLibrary, listWorksheets, putWorksheet } from "../library";
+
+interface LibraryProps {
+  currentId: string;
+  onOpen: (entry: LibraryEntry) => void;
+  onNew: () => void;
+  onRenamed: (id: string, title: string) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+export const Library = ({ currentId, onOpen, onNew, onRenamed, onDeleted, onClose }: LibraryProps) => {
+  const [entries, setEntries] = useState<LibraryEntry[] | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string, title: string } | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [notice, setNotice] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const refresh = () => listWorksheets()
+      .then(setEntries)
+      .catch(e => { setEntries([]); setErrors([`Couldn't read the library: ${(e as Error).message}`]); });
+
+  useEffect(() => { refresh(); }, []);
+
+  const handleRename = async () => {
+      if (!renaming) return;
+      const entry = entries?.find(e => e.id === renaming.id);
+      const title = renaming.title.trim() || 'Untitled Worksheet';
+      setRenaming(null);
+      if (!entry || entry.data.title === title) return;
+      await putWorksheet({ ...entry, data: { ...entry.data, title }, updatedAt: Date.now() });
+      onRenamed(entry.id, title);
+      refresh();
+  };
+
+  const handleDuplicate = async (entry: LibraryEntry) => {
+      const now = Date.now();
+      await putWorksheet({ id: generateId(), data: { ...entry.data, title: `${entry.data.title} (copy)` }, createdAt: now, updatedAt: now });
+      refresh();
+  };
+
+  const handleDelete = async (id: string) => {
+      setConfirmDelete(null);
+      await deleteWorksheet(id);
+      onDeleted(id);
+      refresh();
+  };
+
+  const handleExport = async () => {
+      if (!entries?.length) return;
+      setBusy(true);
+      try {
+          downloadFile(`worksheeter-library-${new Date().toISOString().slice(0, 10)}.zip`, await exportLibrary(entries), 'application/zip');
+      } catch (e) {
+          setErrors([(e as Error).message]);
+      } finally {
+          setBusy(false);
+      }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      setBusy(true);
+      setNotice('');
+      try {
+          const { imported, errors } = await importLibrary(file);
+          setErrors(errors);
+          setNotice(`Imported ${imported} worksheet${imported === 1 ? '' : 's'}.`);
+      } catch (err) {
+          setErrors([`${file.name}: ${(err as Error).message}`]);
+      } finally {
+          setBusy(false);
+          refresh();
+      }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 font-sans">
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col animate-in zoom-in-95">
+        <div className="flex items-center justify-between p-6 pb-4">
+          <h3 className="font-bold text-xl text-slate-800 flex items-center gap-2"><FolderOpen size={20} className="text-[var(--primary)]" /> My Worksheets</h3>
+          <button onClick={onClose}><X size={20} className="text-slate-400 hover:text-slate-600" /></button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 px-6 pb-4 border-b border-slate-100">
+          <button onClick={onNew} className="flex items-center gap-2 bg-slate-800 text-white px-4 py-2 rounded-lg hover:bg-slate-900 transition-colors text-sm font-medium">
+            <Plus size={16} /> New worksheet
+          </button>
+          <div className="flex-1" />
+          <label className={`flex items-center gap-2 bg-white border border-slate-200 hover:border-slate-300 text-slate-700 px-4 py-2 rounded-lg transition-colors text-sm font-medium ${busy ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+            <Upload size={16} /> Import .zip
+            <input type="file" className="hidden" accept=".zip" onChange={handleImport} />
+          </label>
+          <button onClick={handleExport} disabled={busy || !entries?.length} className="flex items-center gap-2 bg-white border border-slate-200 hover:border-slate-300 disabled:opacity-50 text-slate-700 px-4 py-2 rounded-lg transition-colors text-sm font-medium">
+            {busy ? <Loader2 size={16} className="animate-spin" /> : <FileDown size={16} />} Export .zip
+          </button>
+        </div>
+
+        {(errors.length > 0 || notice) && (
+          <div className="px-6 pt-4 space-y-2">
+            {notice && <div className="p-3 bg-green-50 text-green-700 text-sm rounded-lg flex items-center gap-2"><Check size={14} /> {notice}</div>}
+            {errors.length > 0 && (
+              <div className="p-3 bg-red-50 text-red-600 text-sm rounded-lg space-y-1">
+                {errors.map((err, i) => <div key={i} className="flex items-center gap-2"><AlertCircle size={14} className="flex-shrink-0" /> {err}</div>)}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-6 pt-4">
+          {entries === null ? (
+            <div className="flex justify-center p-8 text-slate-400"><Loader2 size={20} className="animate-spin" /></div>
+          ) : entries.length === 0 ? (
+            <p className="text-center p-8 text-slate-400">Worksheets you create are saved here automatically.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {entries.map(entry => {
+                const questionCount = collectQuestions(entry.data.blocks).length;
+                const isCurrent = entry.id === currentId;
+                return (
+                  <li key={entry.id} className="group flex items-center gap-3 py-3">
+                    <div className="flex-1 min-w-0">
+                      {renaming?.id === entry.id ? (
+                        <input
+                          autoFocus
+                          value={renaming.title}
+                          onChange={(e) => setRenaming({ ...renaming, title: e.target.value })}
+                          onBlur={handleRename}
+                          onKeyDown={(e) => { if (e.key === 'Enter') handleRename(); if (e.key === 'Escape') setRenaming(null); }}
+                          className="w-full font-semibold text-slate-800 border-b-2 border-[var(--primary)] outline-none bg-transparent"
+                        />
+                      ) : (
+                        <button onClick={() => onOpen(entry)} className="text-left w-full truncate font-semibold text-slate-800 hover:text-[var(--primary)] transition-colors">
+                          {entry.data.title || 'Untitled Worksheet'}
+                          {isCurrent && <span className="ml-2 text-xs font-medium text-[var(--primary)] bg-[var(--primary-50)] rounded px-1.5 py-0.5 align-middle">Open</span>}
+                        </button>
+                      )}
+                      <div className="text-xs text-slate-400">
+                        Edited {new Date(entry.updatedAt).toLocaleString()} · {questionCount} question{questionCount === 1 ? '' : 's'}
+                      </div>
+                    </div>
+                    {confirmDelete === entry.id ? (
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="text-red-600">Delete?</span>
+                        <button onClick={() => handleDelete(entry.id)} className="px-3 py-1 rounded-lg font-medium bg-red-600 text-white hover:bg-red-700 transition-colors">Delete</button>
+                        <button onClick={() => setConfirmDelete(null)} className="px-3 py-1 rounded-lg font-medium text-slate-600 hover:bg-slate-100 transition-colors">Cancel</button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                        <button title="Rename" onClick={() => setRenaming({ id: entry.id, title: entry.data.title })} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg"><Pencil size={16} /></button>
+                        <button title="Duplicate" onClick={() => handleDuplicate(entry)} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg"><Copy size={16} /></button>
+                        <button title="Delete" onClick={() => setConfirmDelete(entry.id)} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg"><Trash2 size={16} /></button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
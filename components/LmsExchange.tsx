@@ -0,0 +1,133 @@
+import React, { useState } from "react";
+import {
+  GraduationCap,
+  Upload,
+  FileDown,
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle2,
+  X
+} from "lucide-react";
+import { WorksheetData } from "../types";
+import { downloadFile } from "../helpers";
+import { LMS_FORMATS, LmsFormat, LmsImport, exportForLms, importLmsFile } from "../interop";
+import { PrintWorksheet } from "./PrintComponents";
+
+interface LmsExchangeProps {
+  current: WorksheetData;
+  onImport: (parsed: LmsImport, mode: 'append' | 'replace') => void;
+  onClose: () => void;
+}
+
+// What didn't make it across, listed so nothing goes missing without the teacher knowing
+const IssueReport = ({ title, issues }: { title: string, issues: string[] }) => (
+  issues.length === 0 ? (
+    <div className="p-3 bg-green-50 text-green-700 text-sm rounded-lg flex items-center gap-2"><CheckCircle2 size={16} /> {title} Everything was converted.</div>
+  ) : (
+    <div className="p-3 bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-lg">
+      <div className="flex items-center gap-2 font-semibold mb-1"><AlertTriangle size={16} /> {title} {issues.length} {issues.length === 1 ? 'thing needs' : 'things need'} your attention:</div>
+      <ul className="list-disc pl-6 space-y-0.5 max-h-40 overflow-y-auto">
+        {issues.map((issue, i) => <li key={i}>{issue}</li>)}
+      </ul>
+    </div>
+  )
+);
+
+export const LmsExchange = ({ current, onImport, onClose }: LmsExchangeProps) => {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [exported, setExported] = useState<{ label: string, issues: string[] } | null>(null);
+  const [imported, setImported] = useState<{ name: string, result: LmsImport } | null>(null);
+  const preview: WorksheetData | null = imported && { ...current, title: imported.result.title ?? current.title, blocks: imported.result.blocks };
+
+  const handleExport = async (format: LmsFormat, label: string) => {
+    setBusy(true);
+    setError('');
+    setImported(null);
+    try {
+      const result = await exportForLms(format, current);
+      downloadFile(result.filename, result.content, result.contentType);
+      setExported({ label, issues: result.issues });
+    } catch (e) {
+      setError((e as Error).message || "The export couldn't be created.");
+    }
+    setBusy(false);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setBusy(true);
+    setError('');
+    setExported(null);
+    try {
+      const result = await importLmsFile(file);
+      if (!result.blocks.length && !result.issues.length) throw new Error(`${file.name} doesn't contain any questions.`);
+      setImported({ name: file.name, result });
+    } catch (e) {
+      setImported(null);
+      setError((e as Error).message || "This file couldn't be read.");
+    }
+    setBusy(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 font-sans">
+      <div className="bg-white rounded-xl shadow-2xl max-w-5xl w-full max-h-[90vh] flex flex-col animate-in zoom-in-95">
+        <div className="flex items-center justify-between p-6 pb-4">
+          <h3 className="font-bold text-xl text-slate-800 flex items-center gap-2"><GraduationCap size={20} className="text-[var(--primary)]" /> LMS Import / Export</h3>
+          <button onClick={onClose}><X size={20} className="text-slate-400 hover:text-slate-600" /></button>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6 px-6 pb-4 border-b border-slate-100">
+          <div>
+            <h4 className="text-xs font-bold text-slate-400 uppercase mb-2">Export this worksheet</h4>
+            <div className="space-y-2">
+              {LMS_FORMATS.map(({ format, label, description }) => (
+                <button key={format} disabled={busy} onClick={() => handleExport(format, label)} className="w-full flex items-center gap-3 text-left bg-white border border-slate-200 hover:border-slate-300 px-4 py-2 rounded-lg transition-colors disabled:opacity-50">
+                  <FileDown size={16} className="text-slate-400 flex-shrink-0" />
+                  <span><span className="block text-sm font-medium text-slate-700">{label}</span><span className="block text-xs text-slate-400">{description}</span></span>
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <h4 className="text-xs font-bold text-slate-400 uppercase mb-2">Import questions</h4>
+            <label className={`flex flex-col items-center justify-center gap-2 h-[calc(100%-1.75rem)] min-h-[8rem] border-2 border-dashed border-slate-200 hover:border-slate-300 rounded-lg text-sm text-slate-500 transition-colors ${busy ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+              <Upload size={20} className="text-slate-400" />
+              <span className="font-medium text-slate-700">Choose a QTI, Moodle XML or GIFT file</span>
+              <span className="text-xs text-slate-400">.zip, .xml, .gift or .txt</span>
+              <input type="file" className="hidden" accept=".zip,.xml,.gift,.txt,application/zip,application/xml,text/xml,text/plain" onChange={handleFile} />
+            </label>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto p-6 space-y-4">
+          {error && <div className="p-3 bg-red-50 text-red-600 text-sm rounded-lg flex items-center gap-2"><AlertCircle size={16} /> {error}</div>}
+          {exported && <IssueReport title={`Downloaded as ${exported.label}.`} issues={exported.issues} />}
+          {imported && preview && (
+            <>
+              <IssueReport title={`Read ${imported.result.blocks.length} block${imported.result.blocks.length === 1 ? '' : 's'} from ${imported.name}.`} issues={imported.result.issues} />
+              <div className="bg-slate-100 rounded-lg p-4">
+                <div className="shadow-sm rounded-lg overflow-hidden text-sm [&_.print-page]:mb-4 [&_.print-page]:p-6">
+                  <PrintWorksheet data={preview} showKey />
+                </div>
+              </div>
+            </>
+          )}
+          {!error && !exported && !imported && (
+            <p className="text-center p-4 text-slate-400 text-sm">Questions Worksheeter can't express in a format, and content a file has that Worksheeter can't, are listed here after each export or import.</p>
+          )}
+        </div>
+
+        {imported && (
+          <div className="flex items-center justify-end gap-3 p-4 border-t border-slate-100">
+            <button onClick={() => onImport(imported.result, 'append')} disabled={!imported.result.blocks.length} className="px-4 py-2 rounded-lg font-medium bg-white border border-slate-200 hover:border-slate-300 text-slate-700 disabled:opacity-50 transition-colors">Add to worksheet</button>
+            <button onClick={() => onImport(imported.result, 'replace')} disabled={!imported.result.blocks.length} title="Undo (Ctrl+Z) brings the old content back" className="px-4 py-2 rounded-lg font-medium bg-slate-800 text-white hover:bg-slate-900 disabled:opacity-50 transition-colors shadow-sm">Replace worksheet</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
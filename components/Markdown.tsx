@@ -0,0 +1,70 @@
+import React, { useMemo } from "react";
+import { MdBlock, MdInline, parseMarkdown } from "../markdown";
+import { MathNode, texToMathml } from "../math";
+
+const renderMathNode = (node: MathNode | string, key: number): React.ReactNode =>
+  typeof node === 'string' ? node : React.createElement(node.tag, { key, ...node.attrs }, ...node.children.map(renderMathNode));
+
+export const TexMath = ({ tex, display = false }: { tex: string, display?: boolean }) => {
+  const tree = useMemo(() => texToMathml(tex), [tex]);
+  // The TeX source rides along as an annotation, so copying the formula gives something re-typeable
+  return React.createElement('math', { display: display ? 'block' : 'inline', className: display ? 'my-3 text-lg' : undefined },
+    React.createElement('semantics', null, renderMathNode(tree, 0), React.createElement('annotation', { encoding: 'application/x-tex' }, tex)));
+};
+
+const renderInline = (nodes: MdInline[]): React.ReactNode[] => nodes.map((node, i) => {
+  switch (node.type) {
+    case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+    case 'strong': return <strong key={i}>{renderInline(node.children)}</strong>;
+    case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+    case 'del': return <del key={i}>{renderInline(node.children)}</del>;
+    case 'code': return <code key={i}>{node.text}</code>;
+    case 'math': return <TexMath key={i} tex={node.tex} display={node.display} />;
+    case 'link': return <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{renderInline(node.children)}</a>;
+    case 'image': return <img key={i} src={node.src} alt={node.alt} className="max-w-full inline-block" />;
+    case 'break': return <br key={i} />;
+  }
+});
+
+const renderBlocks = (blocks: MdBlock[], tight = false): React.ReactNode[] => blocks.map((block, i) => {
+  switch (block.type) {
+    case 'paragraph': return tight ? <React.Fragment key={i}>{renderInline(block.children)}</React.Fragment> : <p key={i}>{renderInline(block.children)}</p>;
+    case 'heading': return React.createElement(`h${block.level}`, { key: i }, ...renderInline(block.children));
+    case 'code': return <pre key={i}><code>{block.text}</code></pre>;
+    case 'math': return <TexMath key={i} tex={block.tex} display />;
+    case 'quote': return <blockquote key={i}>{renderBlocks(block.children)}</blockquote>;
+    case 'rule': return <hr key={i} />;
+    case 'list': {
+      const items = block.items.map((item, idx) => (
+        <li key={idx} className={item.checked !== null ? 'list-none -ml-5' : undefined}>
+          {item.checked !== null && <input type="checkbox" checked={item.checked} readOnly disabled className="mr-2 align-middle" />}
+          {renderBlocks(item.children, !block.loose)}
+        </li>
+      ));
+      return block.ordered ? <ol key={i} start={block.start}>{items}</ol> : <ul key={i}>{items}</ul>;
+    }
+    case 'table': return (
+      <div key={i} className="overflow-x-auto">
+        <table>
+          <thead><tr>{block.header.map((cell, col) => <th key={col} style={{ textAlign: block.align[col] || undefined }}>{renderInline(cell)}</th>)}</tr></thead>
+          <tbody>
+            {block.rows.map((cells, row) => (
+              <tr key={row}>{cells.map((cell, col) => <td key={col} style={{ textAlign: block.align[col] || undefined }}>{renderInline(cell)}</td>)}</tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+});
+
+// Renders worksheet markdown as React elements; see markdown.ts for what is supported and why no HTML gets through.
+// `compact` is for prompts and descriptions: a single paragraph renders as plain inline text styled by className,
+// anything richer falls back to prose styling with tight spacing.
+export const Markdown = ({ text, compact = false, className = '' }: { text: string, compact?: boolean, className?: string }) => {
+  const blocks = useMemo(() => parseMarkdown(text || ''), [text]);
+  if (blocks.length === 0) return null;
+  if (compact && blocks.length === 1 && blocks[0].type === 'paragraph') return <div className={className}>{renderInline(blocks[0].children)}</div>;
+  if (compact) return <div className={`prose prose-slate max-w-none prose-p:my-1 prose-ul:my-1 prose-ol:my-1 ${className}`}>{renderBlocks(blocks)}</div>;
+  return <div className={`prose prose-slate max-w-none text-slate-700 leading-relaxed ${className}`}>{renderBlocks(blocks)}</div>;
+};
@@ -1,9 +1,21 @@
-import { useMemo } from "react";
-import { Check } from "lucide-react";
-import { QuestionBlock } from "../types";
+import { useMemo, useState, useRef, useEffect } from "react";
+import { Check, CheckCircle2, ChevronDown, ChevronUp, GripVertical, X, XCircle } from "lucide-react";
+import { GradeReport, QuestionBlock, QuestionResult, TableCell } from "../types";
+import { parseCellGap, parseGapLine, parseGaps } from "../gaps";
+import { getDropdownOptions, getLabelBank, getLabelHotspots, getMatchItems, getMatchPairs, getOrderKey, getOrderShuffle } from "../grading";
+import { getMatchLetter, getStudentSeed } from "../helpers";
+import { parseExpression, parseNumberAnswer } from "../numeric";
 import { useInputStyle, CustomSelect } from "./UIComponents";
 
-export const MultipleChoicePlayer = ({ block, onChange, value }: { block: QuestionBlock, onChange: (val: any) => void, value: any }) => {
+// Per-gap correctness once answers have been checked
+const gapTone = (result: QuestionResult | undefined, gapKey: string): 'correct' | 'incorrect' | undefined => {
+  const gap = result?.gaps?.find(g => g.key === gapKey);
+  if (!gap) return undefined;
+  return gap.correct ? 'correct' : 'incorrect';
+};
+
+// Without showKey, checking only marks the chosen options right or wrong instead of also revealing the missed ones
+export const MultipleChoicePlayer = ({ block, onChange, value, result, showKey = true }: { block: QuestionBlock, onChange: (val: any) => void, value: any, result?: QuestionResult, showKey?: boolean }) => {
   const isMulti = block.multiSelect;
   const isSelected = (opt: string) => {
     if (isMulti) {
@@ -29,8 +41,10 @@ export const MultipleChoicePlayer = ({ block, onChange, value }: { block: Questi
     <div className="flex flex-col gap-3 mt-3">
       {block.options?.map((opt, idx) => {
         const selected = isSelected(opt);
+        const isKey = result?.expected?.includes(opt);
+        const checkedStyle = result && (showKey || selected) && (isKey ? 'bg-green-50 border-green-500 ring-1 ring-green-500' : selected ? 'bg-red-50 border-red-400 ring-1 ring-red-400' : '');
         return (
-            <label key={idx} className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${selected ? `bg-[var(--primary-50)] border-[var(--primary-300)] ring-1 ring-[var(--primary-300)]` : 'bg-white border-slate-200 hover:bg-slate-50'}`}>
+            <label key={idx} className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${checkedStyle || (selected ? `bg-[var(--primary-50)] border-[var(--primary-300)] ring-1 ring-[var(--primary-300)]` : 'bg-white border-slate-200 hover:bg-slate-50')}`}>
             <div className={`w-5 h-5 ${isMulti ? 'rounded-md' : 'rounded-full'} border flex items-center justify-center ${selected ? `border-[var(--primary)] bg-[var(--primary)] text-white` : 'border-slate-300'}`}>
                 {selected && (isMulti ? <Check size={14} strokeWidth={3} /> : <div className={`w-2.5 h-2.5 rounded-full bg-white`} />)}
             </div>
@@ -62,24 +76,25 @@ export const OpenAnswerPlayer = ({ onChange, value }: { onChange: (val: any) =>
   );
 };
 
-export const ClozeTextPlayer = ({ block, onChange, value }: { block: QuestionBlock, onChange: (val: any) => void, value: any }) => {
+export const ClozeTextPlayer = ({ block, onChange, value, result }: { block: QuestionBlock, onChange: (val: any) => void, value: any, result?: QuestionResult }) => {
   const inputStyle = useInputStyle();
   const currentAnswers = value || {};
 
   return (
     <div className="flex flex-col gap-4">
       {block.listItems?.map((line, lineIdx) => {
-        const parts = line.split(/\[(.*?)\]/g);
+        const segments = parseGapLine(line, lineIdx);
         return (
           <div key={lineIdx} className="leading-9 text-lg text-slate-800">
-            {parts.map((part, index) => {
-              if (index % 2 === 0) return <span key={index}>{part}</span>;
-              const gapKey = `${lineIdx}-${Math.floor(index / 2)}`;
+            {segments.map((seg, index) => {
+              if (seg.kind === 'text') return <span key={index}>{seg.text}</span>;
+              const gapKey = seg.key;
+              const tone = gapTone(result, gapKey);
               return (
                 <input
                   key={index}
                   type="text"
-                  className={`mx-1 min-w-[120px] max-w-[200px] text-center inline-block ${inputStyle}`}
+                  className={`mx-1 min-w-[120px] max-w-[200px] text-center inline-block ${inputStyle} ${tone === 'correct' ? '!border-green-500 ring-1 ring-green-500' : tone === 'incorrect' ? '!border-red-400 ring-1 ring-red-400' : ''}`}
                   value={currentAnswers[gapKey] || ''}
                   onChange={(e) => onChange({ ...currentAnswers, [gapKey]: e.target.value })}
                 />
@@ -92,23 +107,24 @@ export const ClozeTextPlayer = ({ block, onChange, value }: { block: QuestionBlo
   );
 };
 
-export const ClozeDropdownPlayer = ({ block, onChange, value }: { block: QuestionBlock, onChange: (val: any) => void, value: any }) => {
+export const ClozeDropdownPlayer = ({ block, onChange, value, result }: { block: QuestionBlock, onChange: (val: any) => void, value: any, result?: QuestionResult }) => {
   const currentAnswers = value || {};
+  const seed = useMemo(getStudentSeed, []);
 
   return (
     <div className="flex flex-col gap-4">
       {block.listItems?.map((line, lineIdx) => {
-        const parts = line.split(/\[(.*?)\]/g);
+        const segments = parseGapLine(line, lineIdx);
         return (
           <div key={lineIdx} className="leading-9 text-lg text-slate-800">
-             {parts.map((part, index) => {
-              if (index % 2 === 0) return <span key={index}>{part}</span>;
-              const options = part.split('|');
-              const gapKey = `${lineIdx}-${Math.floor(index / 2)}`;
+             {segments.map((seg, index) => {
+              if (seg.kind === 'text') return <span key={index}>{seg.text}</span>;
+              const gapKey = seg.key;
               return (
                 <CustomSelect
                   key={index}
-                  options={options}
+                  options={getDropdownOptions(block, gapKey, seg.raw, seed)}
+                  tone={gapTone(result, gapKey)}
                   value={currentAnswers[gapKey] || ''}
                   onChange={(val) => onChange({ ...currentAnswers, [gapKey]: val })}
                 />
@@ -121,15 +137,11 @@ export const ClozeDropdownPlayer = ({ block, onChange, value }: { block: Questio
   );
 };
 
-export const DragInlinePlayer = ({ block, onChange, value }: { block: QuestionBlock, onChange: (val: any) => void, value: any }) => {
+export const DragInlinePlayer = ({ block, onChange, value, result }: { block: QuestionBlock, onChange: (val: any) => void, value: any, result?: QuestionResult }) => {
   const currentAnswers = value || {};
   
   const availableWords = useMemo(() => {
-    const allWords: string[] = [];
-    block.listItems?.forEach(line => {
-      const parts = line.split(/\[(.*?)\]/g);
-      parts.forEach((p, i) => { if (i % 2 !== 0) allWords.push(p); });
-    });
+    const allWords = parseGaps(block.listItems).map(g => g.raw.trim());
 
     const counts: Record<string, number> = {};
     allWords.forEach(w => { counts[w] = (counts[w] || 0) + 1; });
@@ -149,13 +161,14 @@ export const DragInlinePlayer = ({ block, onChange, value }: { block: QuestionBl
     <div className="flex flex-col gap-6">
       <div className="flex flex-col gap-4">
         {block.listItems?.map((line, lineIdx) => {
-            const parts = line.split(/\[(.*?)\]/g);
+            const segments = parseGapLine(line, lineIdx);
             return (
               <div key={lineIdx} className="leading-loose text-lg text-slate-800">
-                {parts.map((part, index) => {
-                  if (index % 2 === 0) return <span key={index}>{part}</span>;
-                  const gapKey = `${lineIdx}-${Math.floor(index / 2)}`;
+                {segments.map((seg, index) => {
+                  if (seg.kind === 'text') return <span key={index}>{seg.text}</span>;
+                  const gapKey = seg.key;
                   const filledWord = currentAnswers[gapKey];
+                  const tone = gapTone(result, gapKey);
                   return (
                     <span
                       key={index}
@@ -163,7 +176,8 @@ export const DragInlinePlayer = ({ block, onChange, value }: { block: QuestionBl
                       onDrop={(e) => { e.preventDefault(); onChange({ ...currentAnswers, [gapKey]: e.dataTransfer.getData("text/plain") }); }}
                       onClick={() => { const n = {...currentAnswers}; delete n[gapKey]; onChange(n); }}
                       className={`inline-flex items-center justify-center mx-1 px-3 py-1 min-w-[100px] rounded-md border transition-all align-middle cursor-pointer 
-                        ${filledWord ? `bg-[var(--primary-100)] border-[var(--primary)] text-[var(--primary-900)] font-bold border-solid shadow-sm` : 'bg-white border-slate-300 border-dashed text-slate-400'}`}
+                        ${filledWord ? `bg-[var(--primary-100)] border-[var(--primary)] text-[var(--primary-900)] font-bold border-solid shadow-sm` : 'bg-white border-slate-300 border-dashed text-slate-400'}
+                        ${tone === 'correct' ? '!border-green-500 ring-1 ring-green-500' : tone === 'incorrect' ? '!border-red-400 ring-1 ring-red-400' : ''}`}
                     >
                       {filledWord || "Drop here"}
                     </span>
@@ -188,4 +202,369 @@ export const DragInlinePlayer = ({ block, onChange, value }: { block: QuestionBl
       )}
     </div>
   );
-};
\ No newline at end of file
+};
+
+// Connect a left item to a right item by dragging, or by clicking one on each side (in either order)
+export const MatchingPlayer = ({ block, onChange, value, result }: { block: QuestionBlock, onChange: (val: any) => void, value: any, result?: QuestionResult }) => {
+  const currentAnswers: Record<string, string> = value || {};
+  const [selectedPair, setSelectedPair] = useState<string | null>(null);
+  const [selectedItem, setSelectedItem] = useState<number | null>(null);
+  const pairs = getMatchPairs(block);
+  const items = useMemo(() => getMatchItems(block), [block]);
+
+  const usedCounts: Record<string, number> = {};
+  Object.values(currentAnswers).forEach(ans => { if (typeof ans === 'string') usedCounts[ans] = (usedCounts[ans] || 0) + 1; });
+
+  const connect = (pairId: string, itemIdx: number) => {
+    onChange({ ...currentAnswers, [pairId]: items[itemIdx] });
+    setSelectedPair(null);
+    setSelectedItem(null);
+  };
+
+  const disconnect = (pairId: string) => {
+    const next = { ...currentAnswers };
+    delete next[pairId];
+    onChange(next);
+  };
+
+  const handlePairClick = (pairId: string) => {
+    if (selectedItem !== null) connect(pairId, selectedItem);
+    else setSelectedPair(selectedPair === pairId ? null : pairId);
+  };
+
+  const handleItemClick = (itemIdx: number) => {
+    if (selectedPair) connect(selectedPair, itemIdx);
+    else setSelectedItem(selectedItem === itemIdx ? null : itemIdx);
+  };
+
+  return (
+    <div className="grid md:grid-cols-[3fr_2fr] gap-6 mt-3">
+      <div className="flex flex-col gap-2">
+        {pairs.map(pair => {
+          const chosen = currentAnswers[pair.id];
+          const tone = gapTone(result, pair.id);
+          const active = selectedPair === pair.id;
+          return (
+            <div
+              key={pair.id}
+              onClick={() => handlePairClick(pair.id)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => { e.preventDefault(); const idx = Number(e.dataTransfer.getData("text/plain")); if (items[idx] !== undefined) connect(pair.id, idx); }}
+              className={`flex items-center gap-3 p-2 pl-3 rounded-lg border cursor-pointer transition-colors
+                ${active ? 'bg-[var(--primary-50)] border-[var(--primary)] ring-1 ring-[var(--primary)]' : 'bg-white border-slate-200 hover:border-[var(--primary-300)]'}
+                ${tone === 'correct' ? '!border-green-500 ring-1 ring-green-500' : tone === 'incorrect' ? '!border-red-400 ring-1 ring-red-400' : ''}`}
+            >
+              <span className="flex-1 text-slate-800">{pair.left}</span>
+              {chosen ? (
+                <span className="flex items-center gap-2 px-2 py-1 rounded-md bg-[var(--primary-100)] border border-[var(--primary)] text-[var(--primary-900)] font-medium text-sm">
+                  {items.includes(chosen) && <span className="font-bold">{getMatchLetter(items.indexOf(chosen))}</span>} {chosen}
+                  <button title="Remove" onClick={(e) => { e.stopPropagation(); disconnect(pair.id); }} className="opacity-60 hover:opacity-100"><X size={12} /></button>
+                </span>
+              ) : (
+                <span className="px-3 py-1 min-w-[100px] text-center rounded-md border border-dashed border-slate-300 text-slate-400 text-sm">{selectedItem !== null ? 'Click to match' : 'Drop here'}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex flex-col gap-2">
+        {items.map((item, idx) => {
+          const used = (usedCounts[item] || 0) > 0;
+          return (
+            <div
+              key={idx}
+              draggable
+              onDragStart={(e) => e.dataTransfer.setData("text/plain", String(idx))}
+              onClick={() => handleItemClick(idx)}
+              className={`flex items-center gap-2 px-3 py-2 rounded-md border shadow-sm cursor-grab active:cursor-grabbing transition-all
+                ${selectedItem === idx ? 'bg-[var(--primary-50)] border-[var(--primary)] ring-1 ring-[var(--primary)]' : 'bg-slate-50 border-slate-200 hover:shadow-md hover:border-[var(--primary-300)]'}
+                ${used ? 'opacity-50' : ''}`}
+            >
+              <span className="font-bold text-slate-400 text-sm w-4">{getMatchLetter(idx)}</span>
+              <span className="text-slate-700 font-medium">{item}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+// Reorder by dragging, with the arrow buttons, or with the up/down keys on a focused item
+export const OrderingPlayer = ({ block, onChange, value, result }: { block: QuestionBlock, onChange: (val: any) => void, value: any, result?: QuestionResult }) => {
+  const [draggedIdx, setDraggedIdx] = useState<number | null>(null);
+  const [focusIdx, setFocusIdx] = useState<number | null>(null);
+  const itemRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const seed = useMemo(getStudentSeed, []);
+  const key = getOrderKey(block);
+
+  // A saved answer only applies while it still has exactly the question's items
+  const isCurrent = Array.isArray(value) && value.length === key.length && [...value].sort().join('\n') === [...key].sort().join('\n');
+  const order: string[] = isCurrent ? value : getOrderShuffle(block, seed);
+
+  useEffect(() => {
+    if (focusIdx === null) return;
+    itemRefs.current[focusIdx]?.focus();
+    setFocusIdx(null);
+  }, [focusIdx]);
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= order.length || from === to) return;
+    const next = [...order];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+    setFocusIdx(to);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, idx: number) => {
+    if (e.key === 'ArrowUp') { e.preventDefault(); move(idx, idx - 1); }
+    if (e.key === 'ArrowDown') { e.preventDefault(); move(idx, idx + 1); }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 mt-3" role="list">
+      {order.map((item, idx) => {
+        const tone = result && (item === key[idx] ? 'correct' : 'incorrect');
+        return (
+          <div
+            key={`${item}-${idx}`}
+            ref={el => { itemRefs.current[idx] = el; }}
+            role="listitem"
+            tabIndex={0}
+            aria-label={`${item}, position ${idx + 1} of ${order.length}. Use the up and down arrow keys to move.`}
+            draggable
+            onDragStart={(e) => { setDraggedIdx(idx); e.dataTransfer.effectAllowed = 'move'; }}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => { e.preventDefault(); if (draggedIdx !== null) move(draggedIdx, idx); setDraggedIdx(null); }}
+            onDragEnd={() => setDraggedIdx(null)}
+            onKeyDown={(e) => handleKeyDown(e, idx)}
+            className={`group flex items-center gap-3 p-2 pl-3 rounded-lg border bg-white cursor-grab active:cursor-grabbing outline-none transition-all focus:border-[var(--primary)] focus:ring-1 focus:ring-[var(--primary)]
+              ${draggedIdx === idx ? 'opacity-40' : 'border-slate-200 hover:border-[var(--primary-300)]'}
+              ${tone === 'correct' ? '!border-green-500 ring-1 ring-green-500 bg-green-50' : tone === 'incorrect' ? '!border-red-400 ring-1 ring-red-400 bg-red-50' : ''}`}
+          >
+            <GripVertical size={16} className="text-slate-300 flex-shrink-0" />
+            <span className="w-6 h-6 rounded-full bg-[var(--primary-100)] text-[var(--primary-700)] text-xs font-bold flex items-center justify-center flex-shrink-0">{idx + 1}</span>
+            <span className="flex-1 text-slate-800">{item}</span>
+            <div className="flex gap-0.5 opacity-0 group-hover:opacity-100 group-focus:opacity-100 transition-opacity">
+              <button tabIndex={-1} title="Move up" disabled={idx === 0} onClick={() => move(idx, idx - 1)} className="p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-100 disabled:opacity-30"><ChevronUp size={16} /></button>
+              <button tabIndex={-1} title="Move down" disabled={idx === order.length - 1} onClick={() => move(idx, idx + 1)} className="p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-100 disabled:opacity-30"><ChevronDown size={16} /></button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// Drag labels from the bank onto the numbered spots, or click a label and then a spot. Clicking a filled spot clears it.
+export const ImageLabelPlayer = ({ block, onChange, value, result }: { block: QuestionBlock, onChange: (val: any) => void, value: any, result?: QuestionResult }) => {
+  const currentAnswers: Record<string, string> = value || {};
+  const [selectedLabel, setSelectedLabel] = useState<string | null>(null);
+  const hotspots = getLabelHotspots(block);
+
+  const availableLabels = useMemo(() => {
+    const bank = getLabelBank(block);
+    Object.values(currentAnswers).forEach(ans => {
+      const idx = bank.indexOf(ans);
+      if (idx !== -1) bank.splice(idx, 1);
+    });
+    return bank;
+  }, [block, currentAnswers]);
+
+  const place = (spotId: string, label: string) => {
+    onChange({ ...currentAnswers, [spotId]: label });
+    setSelectedLabel(null);
+  };
+
+  const handleSpotClick = (spotId: string) => {
+    if (selectedLabel) place(spotId, selectedLabel);
+    else if (currentAnswers[spotId]) { const next = { ...currentAnswers }; delete next[spotId]; onChange(next); }
+  };
+
+  if (!block.diagram) return <div className="mt-3 p-4 bg-slate-50 border border-slate-100 rounded-xl text-center text-slate-400 text-sm italic">No diagram yet</div>;
+
+  return (
+    <div className="flex flex-col gap-4 mt-3">
+      <div className="relative inline-block self-start max-w-full select-none">
+        <img src={block.diagram} className="max-w-full max-h-[520px] rounded-lg border border-slate-200" alt="" draggable={false} />
+        {hotspots.map((spot, idx) => {
+          const placed = currentAnswers[spot.id];
+          const tone = gapTone(result, spot.id);
+          return (
+            <button
+              key={spot.id}
+              style={{ left: `${spot.x}%`, top: `${spot.y}%` }}
+              onClick={() => handleSpotClick(spot.id)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => { e.preventDefault(); const label = e.dataTransfer.getData("text/plain"); if (label) place(spot.id, label); }}
+              className={`absolute -translate-x-1/2 -translate-y-1/2 flex items-center gap-1.5 pl-1 pr-2 py-1 rounded-full border-2 shadow-md text-sm font-medium whitespace-nowrap transition-all
+                ${placed ? 'bg-[var(--primary-100)] border-[var(--primary)] text-[var(--primary-900)]' : selectedLabel ? 'bg-white border-[var(--primary)] text-slate-400 animate-pulse' : 'bg-white/90 border-slate-400 border-dashed text-slate-400'}
+                ${tone === 'correct' ? '!border-green-500 !bg-green-50' : tone === 'incorrect' ? '!border-red-400 !bg-red-50' : ''}`}
+            >
+              <span className="w-5 h-5 rounded-full bg-slate-800 text-white text-xs font-bold flex items-center justify-center">{idx + 1}</span>
+              {placed || '?'}
+            </button>
+          );
+        })}
+      </div>
+
+      {availableLabels.length > 0 ? (
+        <div className="p-4 bg-white border border-slate-200 rounded-md shadow-sm flex flex-wrap gap-2">
+          <span className="text-xs font-bold text-slate-400 uppercase w-full mb-1">Labels</span>
+          {availableLabels.map((label, i) => (
+             <div key={i} draggable onDragStart={(e) => e.dataTransfer.setData("text/plain", label)} onClick={() => setSelectedLabel(selectedLabel === label ? null : label)} className={`px-3 py-1.5 border shadow-sm rounded-md cursor-grab active:cursor-grabbing hover:shadow-md text-slate-700 font-medium ${selectedLabel === label ? 'bg-[var(--primary-50)] border-[var(--primary)] ring-1 ring-[var(--primary)]' : 'bg-slate-50 border-slate-200 hover:border-[var(--primary-300)]'}`}>
+               {label}
+             </div>
+          ))}
+        </div>
+      ) : (
+        <div className="p-4 bg-slate-50 border border-slate-100 rounded-xl text-center text-slate-400 text-sm italic">All labels placed</div>
+      )}
+    </div>
+  );
+};
+
+// Shows how the answer was read (value, unit conversion or formula variables) while the student types
+const numericPreview = (input: string, block: QuestionBlock): { ok: boolean, text: string } | null => {
+  if (!input.trim() || !block.numeric) return null;
+  try {
+    if (block.numeric.kind === 'formula') {
+      const { variables } = parseExpression(input);
+      return { ok: true, text: variables.length ? `Formula in ${variables.join(', ')}` : `= ${parseFloat(parseExpression(input).evaluate().toPrecision(10))}` };
+    }
+    return { ok: true, text: `= ${parseNumberAnswer(input, block.numeric).display}` };
+  } catch (e) {
+    return { ok: false, text: (e as Error).message };
+  }
+};
+
+export const NumericPlayer = ({ block, onChange, value, result }: { block: QuestionBlock, onChange: (val: any) => void, value: any, result?: QuestionResult }) => {
+  const inputStyle = useInputStyle();
+  const input = typeof value === 'string' ? value : '';
+  const preview = numericPreview(input, block);
+  const unit = block.numeric?.kind === 'number' ? block.numeric.unit?.trim() : '';
+  const tone = result && (result.correct ? '!border-green-500 ring-1 ring-green-500' : '!border-red-400 ring-1 ring-red-400');
+  return (
+    <div className="mt-3">
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          inputMode={block.numeric?.kind === 'formula' ? 'text' : 'decimal'}
+          className={`w-64 font-mono ${inputStyle} ${tone || ''}`}
+          placeholder={block.numeric?.kind === 'formula' ? 'e.g. 2*pi*r' : unit ? `e.g. 12.5 ${unit}` : 'Your answer'}
+          value={input}
+          onChange={(e) => onChange(e.target.value)}
+        />
+        {unit && <span className="text-sm text-slate-400">in {unit} or a related unit</span>}
+      </div>
+      {preview && <div className={`mt-1.5 text-sm font-mono ${preview.ok ? 'text-slate-500' : 'text-amber-600'}`}>{preview.text}</div>}
+    </div>
+  );
+};
+
+// Scrolls sideways on narrow screens rather than squeezing the columns
+export const TablePlayer = ({ block, onChange, value, result }: { block: QuestionBlock, onChange: (val: any) => void, value: any, result?: QuestionResult }) => {
+  const inputStyle = useInputStyle();
+  const currentAnswers = value || {};
+  const seed = useMemo(getStudentSeed, []);
+  const rows = block.cells || [];
+  const header = block.headerRow && rows.length > 0 ? rows[0] : null;
+  const body = header ? rows.slice(1) : rows;
+
+  const renderCell = (cell: TableCell, row: number, col: number) => {
+    const key = `${row}-${col}`;
+    const tone = gapTone(result, key);
+    const toneStyle = tone === 'correct' ? '!border-green-500 ring-1 ring-green-500' : tone === 'incorrect' ? '!border-red-400 ring-1 ring-red-400' : '';
+    if (cell.kind === 'gap') {
+      return <input type="text" className={`w-full min-w-[80px] text-center ${inputStyle} ${toneStyle}`} value={currentAnswers[key] || ''} onChange={(e) => onChange({ ...currentAnswers, [key]: e.target.value })} />;
+    }
+    if (cell.kind === 'dropdown') {
+      return <CustomSelect options={getDropdownOptions(block, key, parseCellGap(cell.content), seed)} tone={tone} value={currentAnswers[key] || ''} onChange={(val) => onChange({ ...currentAnswers, [key]: val })} />;
+    }
+    if (cell.kind === 'checkbox') {
+      const ticked = currentAnswers[key] === true;
+      return (
+        <button onClick={() => onChange({ ...currentAnswers, [key]: !ticked })} className={`w-6 h-6 mx-auto rounded-md border flex items-center justify-center transition-colors ${ticked ? 'border-[var(--primary)] bg-[var(--primary)] text-white' : 'border-slate-300 bg-white hover:border-[var(--primary-300)]'} ${toneStyle}`}>
+          {ticked && <Check size={14} strokeWidth={3} />}
+        </button>
+      );
+    }
+    return <span>{cell.content}</span>;
+  };
+
+  return (
+    <div className="mt-3 overflow-x-auto">
+      <table className="min-w-full border-collapse text-slate-800">
+        {header && (
+          <thead>
+            <tr>{header.map((cell, col) => <th key={col} className="border border-slate-200 bg-slate-50 px-3 py-2 text-left font-semibold">{renderCell(cell, 0, col)}</th>)}</tr>
+          </thead>
+        )}
+        <tbody>
+          {body.map((cells, idx) => {
+            const row = header ? idx + 1 : idx;
+            return <tr key={row}>{cells.map((cell, col) => <td key={col} className="border border-slate-200 px-3 py-2">{renderCell(cell, row, col)}</td>)}</tr>;
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+// Dispatches to the right player for a question type. Students check their answers with showKey off (see QuestionFeedback).
+export const QuestionPlayer = ({ block, onChange, value, result, showKey = true }: { block: QuestionBlock, onChange: (val: any) => void, value: any, result?: QuestionResult, showKey?: boolean }) => {
+  switch (block.qType) {
+    case 'multiple-choice': return <MultipleChoicePlayer block={block} value={value} onChange={onChange} result={result} showKey={showKey} />;
+    case 'open-answer': return <OpenAnswerPlayer value={value} onChange={onChange} />;
+    case 'cloze-text': return <ClozeTextPlayer block={block} value={value} onChange={onChange} result={result} />;
+    case 'cloze-dropdown': return <ClozeDropdownPlayer block={block} value={value} onChange={onChange} result={result} />;
+    case 'drag-inline': return <DragInlinePlayer block={block} value={value} onChange={onChange} result={result} />;
+    case 'matching': return <MatchingPlayer block={block} value={value} onChange={onChange} result={result} />;
+    case 'ordering': return <OrderingPlayer block={block} value={value} onChange={onChange} result={result} />;
+    case 'image-label': return <ImageLabelPlayer block={block} value={value} onChange={onChange} result={result} />;
+    case 'numeric': return <NumericPlayer block={block} value={value} onChange={onChange} result={result} />;
+    case 'table': return <TablePlayer block={block} value={value} onChange={onChange} result={result} />;
+    default: return null;
+  }
+};
+
+// With showKey off it says what is right or wrong but not what the right answer is, so a student can't copy the key
+export const QuestionFeedback = ({ result, showKey = true }: { result: QuestionResult, showKey?: boolean }) => {
+  const missed = (result.gaps || []).map((g, idx) => ({ ...g, number: idx + 1 })).filter(g => !g.correct);
+  return (
+    <div className={`mt-4 p-3 rounded-lg border text-sm font-sans flex items-start gap-2 ${result.correct ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'}`}>
+      {result.correct ? <CheckCircle2 size={16} className="mt-0.5 flex-shrink-0" /> : <XCircle size={16} className="mt-0.5 flex-shrink-0" />}
+      <div className="flex-1">
+        <div className="font-semibold">{result.correct ? 'Correct' : 'Not quite'} <span className="font-normal opacity-70">· {result.score}/{result.maxScore}</span></div>
+        {showKey && !result.correct && result.expected && result.expected.length > 0 && (
+          <div className="mt-1">Correct answer: <span className="font-medium">{result.expected.join(', ')}</span></div>
+        )}
+        {missed.length > 0 && (
+          <ul className="mt-1 space-y-0.5">
+            {missed.map(g => (
+              <li key={g.key}>{g.label || `Gap ${g.number}`}: <span className="line-through opacity-60">{g.given || '—'}</span>{showKey && <> → <span className="font-medium">{g.expected}</span></>}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const ScoreSummary = ({ report, onClose }: { report: GradeReport, onClose: () => void }) => {
+  const percent = report.maxScore ? Math.round((report.score / report.maxScore) * 100) : 0;
+  const count = Object.keys(report.results).length;
+  const correctCount = Object.values(report.results).filter(r => r.correct).length;
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 flex items-center gap-6 font-sans animate-in fade-in slide-in-from-top-4">
+      <div className="w-20 h-20 rounded-full bg-[var(--primary-100)] text-[var(--primary-700)] flex items-center justify-center text-2xl font-bold flex-shrink-0">{percent}%</div>
+      <div className="flex-1">
+        <h2 className="text-xl font-bold text-slate-900">Your Results</h2>
+        <p className="text-slate-500">{report.score} of {report.maxScore} points · {correctCount} of {count} questions fully correct</p>
+        {count === 0 && <p className="text-xs text-slate-400 mt-1">This worksheet has no answer key.</p>}
+      </div>
+      <button onClick={onClose} className="px-4 py-2 rounded-lg font-medium text-slate-600 hover:bg-slate-100 transition-colors">Back to questions</button>
+    </div>
+  );
+};
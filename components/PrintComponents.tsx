@@ -0,0 +1,329 @@
+import React, { useState, useEffect } from "react";
+import { flushSync } from "react-dom";
+import { Link as LinkIcon, Printer, X } from "lucide-react";
+import { Block, GroupBlock, QuestionBlock, TableCell, WorksheetData } from "../types";
+import { getMatchLetter, getNumbering, splitIntoPages } from "../helpers";
+import { describeNumericKey } from "../numeric";
+import { getChoiceKey, getDropdownOptions, getGapKeys, getLabelBank, getLabelHotspots, getMatchItems, getMatchPairs, getOrderKey, getOrderShuffle } from "../grading";
+import { parseCellGap, parseGapLine, parseGaps } from "../gaps";
+import { Markdown } from "./Markdown";
+
+// Paper renderings of the players, used for PDF export and the ?print view. With showKey the teacher copy fills in the answers.
+
+const PrintGap = ({ answer }: { answer?: string }) => (
+  <span className="inline-block min-w-[110px] border-b-2 border-slate-700 mx-1 text-center leading-6 align-baseline">
+    {answer ? <span className="text-[var(--primary-700)] font-semibold">{answer}</span> : ' '}
+  </span>
+);
+
+const PrintChoices = ({ block, showKey }: { block: QuestionBlock, showKey: boolean }) => {
+  const key = getChoiceKey(block);
+  return (
+    <div className="flex flex-col gap-2 mt-3">
+      {block.options?.map((opt, idx) => {
+        const marked = showKey && key.includes(opt);
+        return (
+          <div key={idx} className="flex items-center gap-3">
+            <span className={`w-4 h-4 border-2 border-slate-700 flex-shrink-0 flex items-center justify-center ${block.multiSelect ? 'rounded-sm' : 'rounded-full'}`}>
+              {marked && <span className={`w-2 h-2 bg-[var(--primary-700)] ${block.multiSelect ? 'rounded-[1px]' : 'rounded-full'}`} />}
+            </span>
+            <span className={marked ? 'font-semibold text-[var(--primary-700)]' : 'text-slate-800'}>{opt}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const PrintLines = ({ count }: { count: number }) => (
+  <div className="mt-3 space-y-7 pt-4">
+    {Array.from({ length: count }).map((_, i) => <div key={i} className="border-b border-slate-400" />)}
+  </div>
+);
+
+const PrintCloze = ({ block, showKey }: { block: QuestionBlock, showKey: boolean }) => {
+  const keys = getGapKeys(block);
+  const bank = block.qType === 'drag-inline' ? parseGaps(block.listItems).map(g => g.raw.trim()).sort() : [];
+  return (
+    <div className="flex flex-col gap-3 mt-2">
+      {bank.length > 0 && (
+        <div className="border-2 border-slate-700 rounded-md p-3 flex flex-wrap gap-x-4 gap-y-1">
+          <span className="text-xs font-bold uppercase text-slate-500 w-full">Word Bank</span>
+          {bank.map((word, i) => <span key={i} className="text-slate-800">{word}</span>)}
+        </div>
+      )}
+      {block.listItems?.map((line, lineIdx) => (
+        <div key={lineIdx} className="leading-9 text-slate-800">
+          {parseGapLine(line, lineIdx).map((seg, index) => {
+            if (seg.kind === 'text') return <span key={index}>{seg.text}</span>;
+            const gap = <PrintGap key={index} answer={showKey ? keys[seg.key] : undefined} />;
+            if (block.qType !== 'cloze-dropdown') return gap;
+            return (
+              <React.Fragment key={index}>
+                {gap}
+                <span className="text-sm text-slate-500">({getDropdownOptions(block, seg.key, seg.raw, '').join(' / ')})</span>
+              </React.Fragment>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Students write the letter of the matching right item into the box next to each left item
+const PrintMatching = ({ block, showKey }: { block: QuestionBlock, showKey: boolean }) => {
+  const items = getMatchItems(block);
+  return (
+    <div className="grid grid-cols-2 gap-8 mt-3">
+      <div className="flex flex-col gap-2">
+        {getMatchPairs(block).map(pair => (
+          <div key={pair.id} className="flex items-center gap-3">
+            <span className="flex-1 text-slate-800">{pair.left}</span>
+            <span className="w-8 h-7 border-2 border-slate-700 rounded flex items-center justify-center font-semibold text-[var(--primary-700)]">
+              {showKey ? getMatchLetter(items.indexOf(pair.right)) : ''}
+            </span>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-col gap-2">
+        {items.map((item, idx) => (
+          <div key={idx} className="flex items-center gap-2 leading-7">
+            <span className="font-bold text-slate-600 w-5">{getMatchLetter(idx)}</span>
+            <span className="text-slate-800">{item}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Students number the items in the right order; paper copies all share the unseeded shuffle
+const PrintOrdering = ({ block, showKey }: { block: QuestionBlock, showKey: boolean }) => {
+  const key = getOrderKey(block);
+  return (
+    <div className="flex flex-col gap-2 mt-3">
+      {getOrderShuffle(block, '').map((item, idx) => (
+        <div key={idx} className="flex items-center gap-3">
+          <span className="w-8 h-7 border-2 border-slate-700 rounded flex items-center justify-center font-semibold text-[var(--primary-700)] flex-shrink-0">
+            {showKey ? key.indexOf(item) + 1 : ''}
+          </span>
+          <span className="text-slate-800">{item}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// The diagram takes the left part of the figure and the numbered answer lines the right. Leader lines run from each
+// spot to its line; lines are stacked in the order of the spots' heights so they don't cross more than needed.
+const DIAGRAM_WIDTH = 62;
+const LINES_LEFT = 66;
+
+const PrintImageLabel = ({ block, showKey }: { block: QuestionBlock, showKey: boolean }) => {
+  const spots = getLabelHotspots(block).map((spot, idx) => ({ ...spot, number: idx + 1 }));
+  const rows = [...spots].sort((a, b) => a.y - b.y).map((spot, idx, all) => ({ ...spot, rowY: ((idx + 0.5) / all.length) * 100 }));
+  if (!block.diagram) return null;
+  return (
+    <div className="flex flex-col gap-3 mt-3">
+      <div className="relative">
+        <img src={block.diagram} crossOrigin="anonymous" style={{ width: `${DIAGRAM_WIDTH}%` }} className="block border border-slate-300 rounded" />
+        <svg className="absolute inset-0 w-full h-full overflow-visible pointer-events-none">
+          {rows.map(spot => (
+            <line key={spot.id} x1={`${(spot.x * DIAGRAM_WIDTH) / 100}%`} y1={`${spot.y}%`} x2={`${LINES_LEFT - 1}%`} y2={`${spot.rowY}%`} stroke="#334155" strokeWidth={1} />
+          ))}
+        </svg>
+        {spots.map(spot => (
+          <span key={spot.id} style={{ left: `${(spot.x * DIAGRAM_WIDTH) / 100}%`, top: `${spot.y}%` }} className="absolute -translate-x-1/2 -translate-y-1/2 w-5 h-5 rounded-full bg-slate-800 text-white text-[10px] font-bold flex items-center justify-center">{spot.number}</span>
+        ))}
+        {rows.map(spot => (
+          <div key={spot.id} style={{ left: `${LINES_LEFT}%`, top: `${spot.rowY}%` }} className="absolute right-0 -translate-y-1/2 flex items-baseline gap-2">
+            <span className="font-bold text-slate-600">{spot.number}.</span>
+            <span className="flex-1 border-b border-slate-700 leading-6 text-[var(--primary-700)] font-semibold">{showKey ? spot.label : ' '}</span>
+          </div>
+        ))}
+      </div>
+      {!showKey && (
+        <div className="border-2 border-slate-700 rounded-md p-3 flex flex-wrap gap-x-4 gap-y-1">
+          <span className="text-xs font-bold uppercase text-slate-500 w-full">Labels</span>
+          {getLabelBank(block).map((label, i) => <span key={i} className="text-slate-800">{label}</span>)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PrintTable = ({ block, showKey }: { block: QuestionBlock, showKey: boolean }) => {
+  const keys = getGapKeys(block);
+  const renderCell = (cell: TableCell, row: number, col: number) => {
+    const answer = showKey ? keys[`${row}-${col}`] : undefined;
+    if (cell.kind === 'checkbox') {
+      return <span className="inline-flex w-4 h-4 border-2 border-slate-700 rounded-sm items-center justify-center">{answer === 'ticked' && <span className="w-2 h-2 bg-[var(--primary-700)] rounded-[1px]" />}</span>;
+    }
+    if (cell.kind === 'gap') return <PrintGap answer={answer} />;
+    if (cell.kind === 'dropdown') {
+      return <><PrintGap answer={answer} /> <span className="text-xs text-slate-500">({getDropdownOptions(block, `${row}-${col}`, parseCellGap(cell.content), '').join(' / ')})</span></>;
+    }
+    return cell.content;
+  };
+  return (
+    <table className="mt-3 border-collapse text-slate-800">
+      <tbody>
+        {block.cells?.map((cells, row) => (
+          <tr key={row}>
+            {cells.map((cell, col) => {
+              const Cell = block.headerRow && row === 0 ? 'th' : 'td';
+              return <Cell key={col} className={`border border-slate-500 px-3 py-1.5 text-left ${Cell === 'th' ? 'font-semibold bg-slate-100' : ''}`}>{renderCell(cell, row, col)}</Cell>;
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export const PrintQuestion = ({ block, showKey }: { block: QuestionBlock, showKey: boolean }) => {
+  switch (block.qType) {
+    case 'multiple-choice': return <PrintChoices block={block} showKey={showKey} />;
+    case 'open-answer': return <PrintLines count={4} />;
+    case 'cloze-text':
+    case 'cloze-dropdown':
+    case 'drag-inline': return <PrintCloze block={block} showKey={showKey} />;
+    case 'matching': return <PrintMatching block={block} showKey={showKey} />;
+    case 'ordering': return <PrintOrdering block={block} showKey={showKey} />;
+    case 'image-label': return <PrintImageLabel block={block} showKey={showKey} />;
+    case 'table': return <PrintTable block={block} showKey={showKey} />;
+    case 'numeric': return (
+      <div className="mt-3 flex items-baseline gap-2 text-slate-800">
+        Answer: <PrintGap answer={showKey && block.numeric ? describeNumericKey(block.numeric) : undefined} />
+        {!showKey && block.numeric?.kind === 'number' && block.numeric.unit && <span>{block.numeric.unit}</span>}
+      </div>
+    );
+    default: return null;
+  }
+};
+
+export const PrintEmbed = ({ url, title }: { url: string, title?: string }) => (
+  <div className="border border-slate-300 rounded-md p-3 flex items-start gap-3">
+    <LinkIcon size={18} className="text-slate-500 mt-0.5 flex-shrink-0" />
+    <div className="min-w-0">
+      {title && <div className="font-medium text-slate-800">{title}</div>}
+      <div className="text-sm text-slate-600 break-all">{url || 'No link provided'}</div>
+    </div>
+  </div>
+);
+
+const PrintLabel = ({ label, depth }: { label: string, depth: number }) => (
+  <div className={`flex-shrink-0 w-8 font-bold ${depth === 0 ? 'text-[var(--primary-700)]' : 'text-slate-600'}`}>{label}</div>
+);
+
+export const PrintBlock = ({ block, label, depth, showKey }: { block: Block, label: string, depth: number, showKey: boolean }) => {
+  if (block.type === 'text') return <Markdown text={block.content} />;
+  if (block.type === 'embed') return <PrintEmbed url={block.url} title={block.title} />;
+  if (block.type === 'question') {
+    return (
+      <div className="flex gap-3 break-inside-avoid">
+        <PrintLabel label={label} depth={depth} />
+        <div className="flex-1 flex gap-6">
+          <div className="flex-1">
+            <Markdown text={block.prompt} compact className="font-medium text-slate-900" />
+            {block.description && <Markdown text={block.description} compact className="text-sm text-slate-500 italic mt-1" />}
+            <PrintQuestion block={block} showKey={showKey} />
+          </div>
+          {block.image && <img src={block.image} crossOrigin="anonymous" className="w-1/4 max-w-[180px] self-start rounded border border-slate-200" />}
+        </div>
+      </div>
+    );
+  }
+  if (block.type === 'group') {
+    const g = block as GroupBlock;
+    let counter = 0;
+    return (
+      <div className="flex gap-3">
+        <PrintLabel label={label} depth={depth} />
+        <div className="flex-1 space-y-5">
+          {g.title && <h3 className="text-lg font-semibold text-slate-800">{g.title}</h3>}
+          {g.children.map(child => {
+            const childLabel = (child.type === 'question' || child.type === 'group') ? getNumbering(depth + 1, counter++) : '';
+            return <div key={child.id}><PrintBlock block={child} label={childLabel} depth={depth + 1} showKey={showKey} /></div>;
+          })}
+        </div>
+      </div>
+    );
+  }
+  return null;
+};
+
+// One element per divider-separated page. Top-level blocks carry data-print-block so long pages can be split between blocks.
+export const PrintWorksheet = ({ data, showKey }: { data: WorksheetData, showKey: boolean }) => {
+  let counter = 0;
+  const fontClass = data.design?.font === 'serif' ? 'font-serif' : data.design?.font === 'mono' ? 'font-mono' : 'font-sans';
+  return (
+    <div className={`${fontClass} text-slate-900`}>
+      {splitIntoPages(data.blocks).map((page, pageIdx) => (
+        <div key={pageIdx} data-print-page className="print-page bg-white p-10 space-y-6 print:p-0 print:shadow-none break-after-page last:break-after-auto">
+          {pageIdx === 0 && (
+            <div data-print-block className="pb-4 border-b border-slate-300">
+              <h1 className="text-3xl font-bold mb-2">{data.title}{showKey && <span className="ml-3 align-middle text-sm font-semibold text-[var(--primary-700)] border border-[var(--primary-300)] rounded px-2 py-0.5">Answer Key</span>}</h1>
+              {data.description && <p className="text-slate-600">{data.description}</p>}
+              {!showKey && <div className="mt-4 flex gap-8 text-sm text-slate-600"><span>Name: <span className="inline-block w-56 border-b border-slate-500" /></span><span>Date: <span className="inline-block w-32 border-b border-slate-500" /></span></div>}
+            </div>
+          )}
+          {page.map(block => {
+            const label = (block.type === 'question' || block.type === 'group') ? getNumbering(0, counter++) : '';
+            return <div key={block.id} data-print-block className="break-inside-avoid"><PrintBlock block={block} label={label} depth={0} showKey={showKey} /></div>;
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const PrintStyle = () => (
+  <style>{`
+    @media print {
+      @page { size: A4; margin: 14mm; }
+      html, body { background: #fff !important; }
+      * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    }
+  `}</style>
+);
+
+// True while the worksheet should use the paper layout: with ?print in the URL, or for the duration of a browser print
+export const usePrintMode = () => {
+  const forced = new URLSearchParams(window.location.search).has('print');
+  const [printing, setPrinting] = useState(forced);
+
+  useEffect(() => {
+    // flushSync so the print layout is in the DOM before the browser snapshots the page
+    const before = () => flushSync(() => setPrinting(true));
+    const after = () => setPrinting(forced);
+    window.addEventListener('beforeprint', before);
+    window.addEventListener('afterprint', after);
+    return () => {
+      window.removeEventListener('beforeprint', before);
+      window.removeEventListener('afterprint', after);
+    };
+  }, [forced]);
+
+  return printing;
+};
+
+export const PrintView = ({ data, showKey, onExit }: { data: WorksheetData, showKey: boolean, onExit?: () => void }) => (
+  <div className="min-h-screen bg-slate-200 print:bg-white py-10 print:py-0 font-sans">
+    <PrintStyle />
+    <div className="fixed top-4 right-4 z-50 flex gap-2 print:hidden">
+      {onExit && (
+        <button onClick={onExit} className="flex items-center gap-2 bg-white text-slate-700 border border-slate-200 px-4 py-2 rounded-lg shadow font-medium hover:bg-slate-50 transition-colors">
+          <X size={16} /> Close
+        </button>
+      )}
+      <button onClick={() => window.print()} className="flex items-center gap-2 bg-slate-800 text-white px-4 py-2 rounded-lg shadow font-medium hover:bg-slate-900 transition-colors">
+        <Printer size={16} /> Print
+      </button>
+    </div>
+    <div className="max-w-[210mm] mx-auto [&_.print-page]:shadow-lg [&_.print-page]:mb-8 print:[&_.print-page]:mb-0">
+      <PrintWorksheet data={data} showKey={showKey} />
+    </div>
+  </div>
+);
@@ -0,0 +1,316 @@
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  LibraryBig,
+  BookmarkPlus,
+  Search,
+  Plus,
+  Upload,
+  FileDown,
+  Pencil,
+  Trash2,
+  Check,
+  X,
+  AlertCircle,
+  Loader2,
+  GripVertical,
+  Heading
+} from "lucide-react";
+import { BankItem, BankTags, Block, BlockType, DragItem } from "../types";
+import { createDragPreview, downloadFile, generateId } from "../helpers";
+import { deleteBankItem, exportBank, getBankItemTitle, getBankSearchText, getBankTagValues, importBank, listBankItems, putBankItem } from "../library";
+import { SLASH_COMMANDS } from "./SlashMenu";
+
+const TAG_FIELDS: { key: keyof BankTags, label: string, placeholder: string }[] = [
+  { key: 'subject', label: 'Subject', placeholder: 'e.g. Biology' },
+  { key: 'grade', label: 'Grade', placeholder: 'e.g. Year 9' },
+  { key: 'topic', label: 'Topic', placeholder: 'e.g. Cells' },
+];
+
+const EMPTY_TAGS: BankTags = { subject: '', grade: '', topic: '' };
+
+const trimTags = (tags: BankTags): BankTags => ({ subject: tags.subject.trim(), grade: tags.grade.trim(), topic: tags.topic.trim() });
+
+const getBlockKind = (block: Block) => {
+  const command = SLASH_COMMANDS.find(c => c.type === block.type && (block.type !== 'question' || c.qType === block.qType));
+  return command ? { label: command.label, icon: command.icon } : { label: 'Group', icon: Heading };
+};
+
+// Free-text tags with the values already in the bank as suggestions, so "Year 9" doesn't also end up as "year9"
+const TagFields = ({ tags, onChange, suggestions }: { tags: BankTags, onChange: (tags: BankTags) => void, suggestions: Record<keyof BankTags, string[]> }) => (
+  <div className="grid grid-cols-3 gap-2">
+    {TAG_FIELDS.map(({ key, label, placeholder }) => (
+      <label key={key} className="block">
+        <span className="text-xs font-bold text-slate-500 uppercase mb-1 block">{label}</span>
+        <input
+          list={`bank-${key}-values`}
+          value={tags[key]}
+          placeholder={placeholder}
+          onChange={(e) => onChange({ ...tags, [key]: e.target.value })}
+          className="w-full bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-sm text-slate-900 outline-none focus:border-[var(--primary)]"
+        />
+        <datalist id={`bank-${key}-values`}>
+          {suggestions[key].map(value => <option key={value} value={value} />)}
+        </datalist>
+      </label>
+    ))}
+  </div>
+);
+
+interface SaveToBankDialogProps {
+  block: Block;
+  onSaved: () => void;
+  onClose: () => void;
+}
+
+// Saves a copy of the block as it is now; later edits to the worksheet don't change the bank item
+export const SaveToBankDialog = ({ block, onSaved, onClose }: SaveToBankDialogProps) => {
+  const [items, setItems] = useState<BankItem[]>([]);
+  const [tags, setTags] = useState<BankTags>(EMPTY_TAGS);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const kind = getBlockKind(block);
+
+  useEffect(() => {
+    listBankItems()
+      .then(loaded => {
+        setItems(loaded);
+        // Start from the tags used last, since a teacher usually saves several questions from the same unit
+        if (loaded.length) setTags(loaded[0].tags);
+      })
+      .catch(() => {});
+  }, []);
+
+  const handleSave = async () => {
+    setBusy(true);
+    try {
+      const now = Date.now();
+      await putBankItem({ id: generateId(), block, tags: trimTags(tags), createdAt: now, updatedAt: now });
+      onSaved();
+    } catch (e) {
+      setError(`Couldn't save to the question bank: ${(e as Error).message}`);
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 font-sans">
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6 animate-in zoom-in-95">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-bold text-xl text-slate-800 flex items-center gap-2"><BookmarkPlus size={20} className="text-[var(--primary)]" /> Save to Question Bank</h3>
+          <button onClick={onClose}><X size={20} className="text-slate-400 hover:text-slate-600" /></button>
+        </div>
+        <div className="mb-4 p-3 bg-slate-50 border border-slate-100 rounded-lg flex items-center gap-2 text-sm text-slate-700">
+          <kind.icon size={16} className="text-slate-400 flex-shrink-0" />
+          <span className="truncate">{getBankItemTitle(block) || <span className="text-slate-400">{kind.label}</span>}</span>
+        </div>
+        <form onSubmit={(e) => { e.preventDefault(); handleSave(); }}>
+          <TagFields tags={tags} onChange={setTags} suggestions={getBankTagValues(items)} />
+          {error && <div className="mt-4 p-3 bg-red-50 text-red-600 text-sm rounded-lg flex items-center gap-2"><AlertCircle size={14} className="flex-shrink-0" /> {error}</div>}
+          <div className="flex justify-end gap-3 mt-6">
+            <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg font-medium text-slate-600 hover:bg-slate-100 transition-colors">Cancel</button>
+            <button type="submit" disabled={busy} className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium bg-slate-800 text-white hover:bg-slate-900 disabled:opacity-50 transition-colors shadow-sm">
+              {busy ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />} Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+interface QuestionBankProps {
+  revision: number; // Bumped by the Builder after saving an item, to reload the list
+  onInsert: (block: Block) => void;
+  onDragStart: (type: BlockType) => void;
+  onDragEnd: () => void;
+  onClose: () => void;
+}
+
+// Side panel rather than a modal, so items can be dragged straight onto the worksheet
+export const QuestionBank = ({ revision, onInsert, onDragStart, onDragEnd, onClose }: QuestionBankProps) => {
+  const [items, setItems] = useState<BankItem[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<BankTags>(EMPTY_TAGS);
+  const [editing, setEditing] = useState<{ id: string, tags: BankTags } | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [notice, setNotice] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const refresh = () => listBankItems()
+      .then(setItems)
+      .catch(e => { setItems([]); setErrors([`Couldn't read the question bank: ${(e as Error).message}`]); });
+
+  useEffect(() => { refresh(); }, [revision]);
+
+  const tagValues = useMemo(() => getBankTagValues(items || []), [items]);
+
+  // Every word of the search has to appear somewhere in the item
+  const visible = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return (items || []).filter(item =>
+      TAG_FIELDS.every(({ key }) => !filters[key] || item.tags[key] === filters[key]) &&
+      (!words.length || words.every(w => getBankSearchText(item).includes(w))));
+  }, [items, query, filters]);
+
+  const handleSaveTags = async () => {
+      if (!editing) return;
+      const item = items?.find(i => i.id === editing.id);
+      setEditing(null);
+      if (!item) return;
+      await putBankItem({ ...item, tags: trimTags(editing.tags), updatedAt: Date.now() });
+      refresh();
+  };
+
+  const handleDelete = async (id: string) => {
+      setConfirmDelete(null);
+      await deleteBankItem(id);
+      refresh();
+  };
+
+  // Exports what the filters show, so a department can share just its own subject
+  const handleExport = () => {
+      if (!visible.length) return;
+      const name = [filters.subject, filters.grade, filters.topic].filter(Boolean).join('-').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      downloadFile(`question-bank${name ? `-${name}` : ''}-${new Date().toISOString().slice(0, 10)}.json`, exportBank(visible), 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      setBusy(true);
+      setNotice('');
+      try {
+          const { imported, errors } = await importBank(await file.text());
+          setErrors(errors);
+          setNotice(`Imported ${imported} item${imported === 1 ? '' : 's'}.`);
+      } catch (err) {
+          setErrors([`${file.name}: ${(err as Error).message}`]);
+      } finally {
+          setBusy(false);
+          refresh();
+      }
+  };
+
+  const handleDragStart = (e: React.DragEvent, item: BankItem) => {
+      onDragStart(item.block.type);
+      const dragData: DragItem = { type: 'bank-block', block: item.block };
+      e.dataTransfer.setData("dragData", JSON.stringify(dragData));
+      e.dataTransfer.effectAllowed = "all";
+      const ghost = createDragPreview(getBankItemTitle(item.block).slice(0, 40) || getBlockKind(item.block).label);
+      e.dataTransfer.setDragImage(ghost, 0, 0);
+      setTimeout(() => document.body.removeChild(ghost), 0);
+  };
+
+  return (
+    <div className="fixed top-14 right-0 bottom-0 w-full sm:w-96 z-[45] bg-white border-l border-slate-200 shadow-2xl flex flex-col font-sans animate-in slide-in-from-right-10">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2"><LibraryBig size={18} className="text-[var(--primary)]" /> Question Bank</h3>
+        <button onClick={onClose}><X size={18} className="text-slate-400 hover:text-slate-600" /></button>
+      </div>
+
+      <div className="p-4 space-y-2 border-b border-slate-100">
+        <div className="relative">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search questions and tags"
+            className="w-full bg-slate-50 border border-slate-200 rounded-lg pl-8 pr-3 py-2 text-sm text-slate-900 outline-none focus:border-[var(--primary)]"
+          />
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {TAG_FIELDS.map(({ key, label }) => (
+            <select
+              key={key}
+              value={filters[key]}
+              onChange={(e) => setFilters({ ...filters, [key]: e.target.value })}
+              className="min-w-0 bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-xs text-slate-700 outline-none"
+            >
+              <option value="">Any {label.toLowerCase()}</option>
+              {tagValues[key].map(value => <option key={value} value={value}>{value}</option>)}
+            </select>
+          ))}
+        </div>
+      </div>
+
+      {(errors.length > 0 || notice) && (
+        <div className="px-4 pt-3 space-y-2">
+          {notice && <div className="p-3 bg-green-50 text-green-700 text-sm rounded-lg flex items-center gap-2"><Check size={14} /> {notice}</div>}
+          {errors.length > 0 && (
+            <div className="p-3 bg-red-50 text-red-600 text-sm rounded-lg space-y-1">
+              {errors.map((err, i) => <div key={i} className="flex items-center gap-2"><AlertCircle size={14} className="flex-shrink-0" /> {err}</div>)}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {items === null ? (
+          <div className="flex justify-center p-8 text-slate-400"><Loader2 size={20} className="animate-spin" /></div>
+        ) : items.length === 0 ? (
+          <p className="text-center p-8 text-sm text-slate-400">Save a block with the bookmark button in its menu and it will be here for every worksheet.</p>
+        ) : visible.length === 0 ? (
+          <p className="text-center p-8 text-sm text-slate-400">Nothing matches this search.</p>
+        ) : visible.map(item => {
+          const kind = getBlockKind(item.block);
+          const tags = TAG_FIELDS.map(({ key }) => item.tags[key]).filter(Boolean);
+          return (
+            <div
+              key={item.id}
+              draggable={editing?.id !== item.id}
+              onDragStart={(e) => handleDragStart(e, item)}
+              onDragEnd={onDragEnd}
+              className="group bg-white border border-slate-200 hover:border-slate-300 rounded-lg p-3 cursor-grab active:cursor-grabbing"
+            >
+              <div className="flex items-start gap-2">
+                <GripVertical size={14} className="mt-0.5 text-slate-300 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-slate-800 line-clamp-2">{getBankItemTitle(item.block) || <span className="text-slate-400">Untitled</span>}</div>
+                  <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-slate-500">
+                    <span className="flex items-center gap-1 mr-1"><kind.icon size={12} /> {kind.label}</span>
+                    {tags.map(tag => <span key={tag} className="bg-slate-100 rounded px-1.5 py-0.5">{tag}</span>)}
+                  </div>
+                </div>
+                {confirmDelete !== item.id && editing?.id !== item.id && (
+                  <div className="flex gap-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                    <button title="Add to worksheet" onClick={() => onInsert(item.block)} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg"><Plus size={14} /></button>
+                    <button title="Edit tags" onClick={() => setEditing({ id: item.id, tags: item.tags })} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg"><Pencil size={14} /></button>
+                    <button title="Delete" onClick={() => setConfirmDelete(item.id)} className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg"><Trash2 size={14} /></button>
+                  </div>
+                )}
+              </div>
+              {confirmDelete === item.id && (
+                <div className="mt-2 flex items-center justify-end gap-2 text-sm">
+                  <span className="text-red-600">Remove from the bank?</span>
+                  <button onClick={() => handleDelete(item.id)} className="px-3 py-1 rounded-lg font-medium bg-red-600 text-white hover:bg-red-700 transition-colors">Delete</button>
+                  <button onClick={() => setConfirmDelete(null)} className="px-3 py-1 rounded-lg font-medium text-slate-600 hover:bg-slate-100 transition-colors">Cancel</button>
+                </div>
+              )}
+              {editing?.id === item.id && (
+                <form className="mt-3" onSubmit={(e) => { e.preventDefault(); handleSaveTags(); }}>
+                  <TagFields tags={editing.tags} onChange={(tags) => setEditing({ ...editing, tags })} suggestions={tagValues} />
+                  <div className="flex justify-end gap-2 mt-2 text-sm">
+                    <button type="button" onClick={() => setEditing(null)} className="px-3 py-1 rounded-lg font-medium text-slate-600 hover:bg-slate-100 transition-colors">Cancel</button>
+                    <button type="submit" className="px-3 py-1 rounded-lg font-medium bg-slate-800 text-white hover:bg-slate-900 transition-colors">Save</button>
+                  </div>
+                </form>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2 p-4 border-t border-slate-100">
+        <label className={`flex-1 flex items-center justify-center gap-2 bg-white border border-slate-200 hover:border-slate-300 text-slate-700 px-3 py-2 rounded-lg transition-colors text-sm font-medium ${busy ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+          {busy ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />} Import
+          <input type="file" className="hidden" accept=".json,application/json" onChange={handleImport} />
+        </label>
+        <button onClick={handleExport} disabled={!visible.length} title="Exports the items shown" className="flex-1 flex items-center justify-center gap-2 bg-white border border-slate-200 hover:border-slate-300 disabled:opacity-50 text-slate-700 px-3 py-2 rounded-lg transition-colors text-sm font-medium">
+          <FileDown size={16} /> Export {visible.length !== (items?.length || 0) ? `${visible.length} shown` : 'all'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,222 @@
+import React, { useState, useMemo } from "react";
+import {
+  Upload,
+  FileText,
+  Users,
+  Heart,
+  AlertCircle,
+  AlertTriangle,
+  FileDown,
+  TrendingDown,
+  X
+} from "lucide-react";
+import { StudentResponse, WorksheetData } from "../types";
+import { downloadFile, slugify } from "../helpers";
+import { getResponseKey, parseResponse } from "../responses";
+import { readWorksheetFile } from "../schema";
+import { buildGradebook, getHardestQuestions, gradebookToCsv } from "../gradebook";
+import { formatDuration } from "../assessment";
+import { ThemeStyle } from "./UIComponents";
+
+const scoreTone = (ratio: number) => {
+  if (ratio >= 0.8) return 'bg-green-50 text-green-800';
+  if (ratio >= 0.5) return 'bg-amber-50 text-amber-800';
+  return 'bg-red-50 text-red-700';
+};
+
+export const Results = () => {
+  const [data, setData] = useState<WorksheetData | null>(null);
+  const [responses, setResponses] = useState<{ fileName: string, response: StudentResponse }[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleWorksheetUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      try {
+          const loaded = readWorksheetFile(await file.text());
+          setData(loaded.data);
+          setErrors(loaded.issues.map(i => `${file.name}: ${i.path} ${i.message}`));
+      } catch (err) {
+          setErrors([`${file.name}: ${(err as Error).message}`]);
+      }
+  };
+
+  const handleResponsesUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files || []);
+      const loaded: { fileName: string, response: StudentResponse }[] = [];
+      const failed: string[] = [];
+      // Files are told apart by content, not name: every student may hand in the same "worksheet-response.json"
+      const keys = new Set(responses.map(r => getResponseKey(r.response)));
+      for (const file of files) {
+          try {
+              const response = parseResponse(await file.text());
+              const key = getResponseKey(response);
+              if (keys.has(key)) {
+                  failed.push(`${file.name}: the same answers are already loaded, so this file was skipped.`);
+                  continue;
+              }
+              keys.add(key);
+              loaded.push({ fileName: file.name, response });
+          } catch (err) {
+              failed.push(`${file.name}: ${(err as Error).message}`);
+          }
+      }
+      setResponses(prev => [...prev, ...loaded]);
+      setErrors(failed);
+      e.target.value = '';
+  };
+
+  const gradebook = useMemo(() => (data ? buildGradebook(data, responses) : null), [data, responses]);
+  const hardest = useMemo(() => (gradebook ? getHardestQuestions(gradebook) : []), [gradebook]);
+
+  const handleExportCsv = () => {
+      if (!data || !gradebook) return;
+      downloadFile(`${slugify(data.title) || 'worksheet'}-results.csv`, gradebookToCsv(gradebook), 'text/csv');
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 pb-20 font-sans">
+      <ThemeStyle color={data?.design?.accentColor || '#6366f1'} />
+      <div className="fixed top-0 left-0 right-0 h-14 bg-white border-b border-slate-200 z-40 flex items-center justify-between px-6 shadow-sm w-full">
+         <div className="flex items-center gap-2">
+            <div className="w-8 h-8 bg-[var(--primary)] rounded-lg flex items-center justify-center text-white font-bold">W</div>
+            <span className="font-bold text-slate-800">Gradebook</span>
+            {data && <span className="text-slate-400 truncate max-w-xs">· {data.title}</span>}
+         </div>
+         {gradebook && gradebook.rows.length > 0 && (
+            <button onClick={handleExportCsv} className="flex items-center gap-2 bg-slate-800 text-white px-4 py-2 rounded-lg hover:bg-slate-900 transition-colors text-sm font-medium">
+               <FileDown size={16} /> Export CSV
+            </button>
+         )}
+      </div>
+
+      <div className="max-w-6xl mx-auto px-4 md:px-8 pt-24 space-y-6">
+         <div className="grid md:grid-cols-2 gap-4">
+            <label className={`flex items-center gap-4 p-5 bg-white rounded-xl border-2 border-dashed cursor-pointer hover:bg-slate-50 transition-colors ${data ? 'border-green-300' : 'border-slate-300'}`}>
+               <div className="w-12 h-12 bg-blue-50 text-blue-600 rounded-full flex items-center justify-center flex-shrink-0"><FileText size={22} /></div>
+               <div className="flex-1 min-w-0">
+                  <div className="font-semibold text-slate-800">1. Worksheet</div>
+                  <div className="text-sm text-slate-500 truncate">{data ? data.title : <>Upload the original <code>.wks</code> file</>}</div>
+               </div>
+               <Upload size={18} className="text-slate-400" />
+               <input type="file" className="hidden" accept=".json,.wks" onChange={handleWorksheetUpload} />
+            </label>
+            <label className={`flex items-center gap-4 p-5 bg-white rounded-xl border-2 border-dashed transition-colors ${data ? 'cursor-pointer hover:bg-slate-50 border-slate-300' : 'opacity-50 cursor-not-allowed border-slate-200'}`}>
+               <div className="w-12 h-12 bg-[var(--primary-50)] text-[var(--primary)] rounded-full flex items-center justify-center flex-shrink-0"><Users size={22} /></div>
+               <div className="flex-1">
+                  <div className="font-semibold text-slate-800">2. Student responses</div>
+                  <div className="text-sm text-slate-500">{responses.length ? `${responses.length} loaded · add more` : 'Select one or many response files'}</div>
+               </div>
+               <Upload size={18} className="text-slate-400" />
+               <input type="file" className="hidden" accept=".json" multiple disabled={!data} onChange={handleResponsesUpload} />
+            </label>
+         </div>
+
+         {errors.length > 0 && (
+            <div className="p-3 bg-red-50 text-red-600 text-sm rounded-lg space-y-1">
+               {errors.map((err, i) => <div key={i} className="flex items-center gap-2"><AlertCircle size={14} className="flex-shrink-0" /> {err}</div>)}
+            </div>
+         )}
+
+         {gradebook && gradebook.rows.length > 0 && (
+            <>
+               <div className="grid md:grid-cols-3 gap-4">
+                  <div className="bg-white rounded-xl border border-slate-200 p-5">
+                     <div className="text-xs font-bold text-slate-400 uppercase mb-1">Class Average</div>
+                     <div className="text-3xl font-bold text-slate-900">{Math.round(gradebook.classAverage * 100)}%</div>
+                     <div className="text-sm text-slate-500">{gradebook.rows.length} students · {gradebook.columns.length} graded questions</div>
+                  </div>
+                  <div className="bg-white rounded-xl border border-slate-200 p-5 md:col-span-2">
+                     <div className="text-xs font-bold text-slate-400 uppercase mb-2 flex items-center gap-1"><TrendingDown size={12} /> Hardest Questions</div>
+                     {hardest.length === 0 ? <p className="text-sm text-slate-500">Everyone answered everything correctly.</p> : (
+                        <ul className="space-y-1.5">
+                           {hardest.map(col => (
+                              <li key={col.blockId} className="flex items-center gap-3 text-sm">
+                                 <span className="w-10 font-bold text-slate-700">{col.label}</span>
+                                 <span className="flex-1 truncate text-slate-600">{col.prompt}</span>
+                                 <span className={`px-2 py-0.5 rounded font-medium ${scoreTone(gradebook.averages[col.blockId])}`}>{Math.round(gradebook.averages[col.blockId] * 100)}%</span>
+                              </li>
+                           ))}
+                        </ul>
+                     )}
+                  </div>
+               </div>
+
+               <div className="bg-white rounded-xl border border-slate-200 overflow-x-auto">
+                  <table className="w-full text-sm">
+                     <thead>
+                        <tr className="border-b border-slate-200 bg-slate-50 text-slate-500">
+                           <th className="text-left font-semibold px-4 py-3 sticky left-0 bg-slate-50">Student</th>
+                           {gradebook.columns.map(col => <th key={col.blockId} title={col.prompt} className="px-3 py-3 font-semibold text-center whitespace-nowrap">{col.label}</th>)}
+                           <th className="px-4 py-3 font-semibold text-right">Total</th>
+                           <th className="px-2 py-3"></th>
+                        </tr>
+                     </thead>
+                     <tbody>
+                        {gradebook.rows.map(row => {
+                           const ratio = row.report.maxScore ? row.report.score / row.report.maxScore : 0;
+                           return (
+                              <tr key={getResponseKey(row.response)} className="border-b border-slate-100 last:border-0">
+                                 <td className="px-4 py-3 sticky left-0 bg-white">
+                                    <div className="font-medium text-slate-800 flex items-center gap-1.5">
+                                       {row.response.studentName || <span className="italic text-slate-400">Unnamed</span>}
+                                       {row.warnings.length > 0 && <span title={row.warnings.join('\n')}><AlertTriangle size={14} className="text-amber-500" /></span>}
+                                    </div>
+                                    <div className="text-xs text-slate-400">{new Date(row.response.submittedAt).toLocaleString()}</div>
+                                    {row.response.timing && (
+                                       <div className="text-xs text-slate-400" title={row.response.timing.pageSeconds.map((s, i) => `Page ${i + 1}: ${formatDuration(s)}`).join('\n')}>
+                                          {formatDuration(row.response.timing.pageSeconds.reduce((sum, s) => sum + s, 0))} taken{row.response.timing.autoSubmitted ? ', time ran out' : ''}
+                                       </div>
+                                    )}
+                                 </td>
+                                 {gradebook.columns.map(col => {
+                                    const result = row.report.results[col.blockId];
+                                    const score = result?.score || 0;
+                                    return (
+                                       <td key={col.blockId} className="px-2 py-2 text-center">
+                                          <div className={`rounded-md px-2 py-1 font-medium ${scoreTone(score / col.maxScore)}`}>{score}/{col.maxScore}</div>
+                                          {result?.gaps && result.gaps.length > 1 && (
+                                             <div className="flex justify-center gap-0.5 mt-1">
+                                                {result.gaps.map((g, i) => <span key={g.key} title={`${g.label || `Gap ${i + 1}`}: ${g.given || '—'} (expected ${g.expected})`} className={`w-2 h-2 rounded-full ${g.correct ? 'bg-green-500' : 'bg-red-400'}`} />)}
+                                             </div>
+                                          )}
+                                       </td>
+                                    );
+                                 })}
+                                 <td className="px-4 py-3 text-right whitespace-nowrap">
+                                    <span className={`px-2 py-1 rounded-md font-bold ${scoreTone(ratio)}`}>{Math.round(ratio * 100)}%</span>
+                                    <div className="text-xs text-slate-400 mt-1">{row.report.score}/{row.report.maxScore}</div>
+                                 </td>
+                                 <td className="px-2">
+                                    <button title="Remove" onClick={() => setResponses(prev => prev.filter(p => p.fileName !== row.fileName))} className="p-1 text-slate-300 hover:text-red-500"><X size={14} /></button>
+                                 </td>
+                              </tr>
+                           );
+                        })}
+                     </tbody>
+                     <tfoot>
+                        <tr className="border-t border-slate-200 bg-slate-50 font-semibold text-slate-600">
+                           <td className="px-4 py-3 sticky left-0 bg-slate-50">Average</td>
+                           {gradebook.columns.map(col => <td key={col.blockId} className="px-3 py-3 text-center">{Math.round(gradebook.averages[col.blockId] * 100)}%</td>)}
+                           <td className="px-4 py-3 text-right">{Math.round(gradebook.classAverage * 100)}%</td>
+                           <td></td>
+                        </tr>
+                     </tfoot>
+                  </table>
+               </div>
+            </>
+         )}
+
+         {data && responses.length === 0 && (
+            <div className="text-center p-8 text-slate-400">
+               <p>Add the response files your students downloaded to see the class results.</p>
+            </div>
+         )}
+      </div>
+
+      <footer className="fixed bottom-0 left-0 w-full text-center text-slate-400 text-xs py-2 bg-slate-50/80 backdrop-blur-sm border-t border-slate-200 z-40 flex items-center justify-center gap-1">
+         made with <Heart size={10} className="text-red-500 fill-red-500" /> by daniel
+      </footer>
+    </div>
+  );
+};
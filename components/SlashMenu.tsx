@@ -0,0 +1,109 @@
+import React, { useRef, useState } from "react";
+import {
+  Type,
+  Heading,
+  Link as LinkIcon,
+  Divide,
+  ImageIcon,
+  TextCursorInput,
+  ListOrdered,
+  MousePointerClick,
+  ArrowRightLeft,
+  ArrowUpDown,
+  Crosshair,
+  Calculator,
+  Table,
+  MessageSquare
+} from "lucide-react";
+import { BlockType, QuestionType } from "../types";
+
+export interface SlashCommand {
+  label: string;
+  icon: any;
+  type: BlockType;
+  qType?: QuestionType;
+  keywords: string;
+}
+
+// Same blocks, labels and icons as the editor toolbar; the question bank uses them to label its items
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { label: 'Text', icon: Type, type: 'text', keywords: 'paragraph instructions markdown' },
+  { label: 'Group', icon: Heading, type: 'group', keywords: 'section heading' },
+  { label: 'Embed', icon: LinkIcon, type: 'embed', keywords: 'video youtube link' },
+  { label: 'Break', icon: Divide, type: 'divider', keywords: 'page divider' },
+  { label: 'Multiple Choice', icon: ImageIcon, type: 'question', qType: 'multiple-choice', keywords: 'choice options quiz' },
+  { label: 'Cloze (Text)', icon: TextCursorInput, type: 'question', qType: 'cloze-text', keywords: 'gap fill blank' },
+  { label: 'Cloze (Drop)', icon: ListOrdered, type: 'question', qType: 'cloze-dropdown', keywords: 'gap dropdown select' },
+  { label: 'Drag & Drop', icon: MousePointerClick, type: 'question', qType: 'drag-inline', keywords: 'drag inline words' },
+  { label: 'Matching', icon: ArrowRightLeft, type: 'question', qType: 'matching', keywords: 'pairs connect' },
+  { label: 'Ordering', icon: ArrowUpDown, type: 'question', qType: 'ordering', keywords: 'sequence sort order' },
+  { label: 'Label Diagram', icon: Crosshair, type: 'question', qType: 'image-label', keywords: 'image hotspot picture' },
+  { label: 'Numeric', icon: Calculator, type: 'question', qType: 'numeric', keywords: 'number formula math unit' },
+  { label: 'Table', icon: Table, type: 'question', qType: 'table', keywords: 'grid cells' },
+  { label: 'Open Answer', icon: MessageSquare, type: 'question', qType: 'open-answer', keywords: 'essay free text' },
+];
+
+const matchCommands = (query: string) => {
+  const words = query.toLowerCase().split(/[\s-]+/).filter(Boolean);
+  return SLASH_COMMANDS.filter(c => words.every(w => `${c.label} ${c.keywords}`.toLowerCase().includes(w)));
+};
+
+// Typing "/" at the start of a line in a text or prompt field opens a block picker filtered by what follows.
+// Wire `track` to the field's onChange and `onKeyDown` to its onKeyDown, and render `menu` below the field.
+// onPick gets the field's text with the "/command" removed.
+export const useSlashMenu = (onPick: (command: SlashCommand, remainingText: string) => void) => {
+  const [state, setState] = useState<{ query: string, start: number, active: number } | null>(null);
+  const fieldRef = useRef<HTMLTextAreaElement | null>(null);
+  const matches = state ? matchCommands(state.query) : [];
+
+  const track = (field: HTMLTextAreaElement) => {
+    fieldRef.current = field;
+    const caret = field.selectionStart;
+    const match = /(^|\n)\/([\w &()-]{0,24})$/.exec(field.value.slice(0, caret));
+    setState(match ? { query: match[2], start: caret - match[2].length - 1, active: 0 } : null);
+  };
+
+  const pick = (command: SlashCommand) => {
+    const field = fieldRef.current;
+    if (!state || !field) return;
+    setState(null);
+    onPick(command, field.value.slice(0, state.start) + field.value.slice(field.selectionStart));
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (!state) return;
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      setState(null);
+      return;
+    }
+    if (matches.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setState({ ...state, active: (state.active + step + matches.length) % matches.length });
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      pick(matches[Math.min(state.active, matches.length - 1)]);
+    }
+  };
+
+  const menu = state && matches.length > 0 ? (
+    <div className="absolute left-0 top-full mt-1 z-[60] w-64 max-h-72 overflow-y-auto bg-white rounded-lg shadow-xl border border-slate-200 py-1 font-sans text-sm">
+      <div className="px-3 py-1 text-[10px] font-bold uppercase text-slate-400">Insert block</div>
+      {matches.map((command, idx) => (
+        <button
+          key={command.label}
+          onMouseDown={(e) => { e.preventDefault(); pick(command); }}
+          onMouseEnter={() => setState({ ...state, active: idx })}
+          className={`w-full flex items-center gap-2 px-3 py-1.5 text-left ${idx === state.active ? 'bg-[var(--primary-50)] text-[var(--primary-700)]' : 'text-slate-700'}`}
+        >
+          <command.icon size={14} className="flex-shrink-0" /> {command.label}
+        </button>
+      ))}
+    </div>
+  ) : null;
+
+  return { menu, track, onKeyDown, close: () => setState(null) };
+};
@@ -0,0 +1,152 @@
+import React, { useState, useMemo, useDeferredValue, useRef } from "react";
+import {
+  FileInput,
+  Upload,
+  FileDown,
+  RotateCcw,
+  HelpCircle,
+  AlertCircle,
+  X
+} from "lucide-react";
+import { WorksheetData } from "../types";
+import { downloadFile, slugify } from "../helpers";
+import { ParsedWorksheetText, parseWorksheetText, worksheetToText } from "../textformat";
+import { PrintWorksheet } from "./PrintComponents";
+
+const EXAMPLE = `# Cells
+> Answer every question.
+
+## Cell parts
+1. Which parts do plant cells have? {multi}
+- [x] Cell wall
+- [x] Chloroplasts
+- [ ] Centrioles
+
+2. Energy is released in the [mitochondria|mitochondrion].
+
+3. Why do root cells have no chloroplasts?
+___
+`;
+
+const FORMAT_HELP: [string, string][] = [
+  ['# Title', 'Worksheet title, first line only. "> text" right below it is the description.'],
+  ['## Heading', 'Starts a group. A "##" on its own line ends it.'],
+  ['---', 'Page break'],
+  ['1. Prompt', 'Starts a question; it runs until the next blank line.'],
+  ['- [x] Option', 'Multiple choice; [x] marks the correct options. Add {multi} to the prompt to allow several answers.'],
+  ['[Paris|paris]', 'Cloze gap with accepted answers. Add {dropdown} ([*blue|green]) or {drag} to the prompt for the other kinds.'],
+  ['___', 'Open answer'],
+  ['> text / ![](url)', 'Description or image under a prompt'],
+  [':::block … :::', 'Any other block as JSON, as written by the export'],
+];
+
+interface TextImportProps {
+  current: WorksheetData;
+  onImport: (parsed: ParsedWorksheetText, mode: 'append' | 'replace') => void;
+  onClose: () => void;
+}
+
+export const TextImport = ({ current, onImport, onClose }: TextImportProps) => {
+  const [text, setText] = useState('');
+  const [showHelp, setShowHelp] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Typing stays responsive on long worksheets; the preview catches up
+  const deferredText = useDeferredValue(text);
+  const parsed = useMemo(() => parseWorksheetText(deferredText), [deferredText]);
+  const preview: WorksheetData = { ...current, title: parsed.title ?? current.title, description: parsed.title !== undefined ? parsed.description || '' : current.description, blocks: parsed.blocks };
+  const canImport = text.trim() !== '' && parsed.errors.length === 0 && text === deferredText;
+
+  const goToLine = (line: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const lines = text.split('\n');
+    const start = lines.slice(0, line - 1).reduce((acc, l) => acc + l.length + 1, 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, start + (lines[line - 1]?.length || 0));
+    // Put the line roughly in the middle of the textarea
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    textarea.scrollTop = Math.max(0, (line - 1) * lineHeight - textarea.clientHeight / 2);
+  };
+
+  const handleOpenFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setText(await file.text());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 font-sans">
+      <div className="bg-white rounded-xl shadow-2xl max-w-6xl w-full h-[90vh] flex flex-col animate-in zoom-in-95">
+        <div className="flex items-center justify-between p-6 pb-4">
+          <h3 className="font-bold text-xl text-slate-800 flex items-center gap-2"><FileInput size={20} className="text-[var(--primary)]" /> Import from Text</h3>
+          <button onClick={onClose}><X size={20} className="text-slate-400 hover:text-slate-600" /></button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 px-6 pb-4 border-b border-slate-100">
+          <label className="flex items-center gap-2 bg-white border border-slate-200 hover:border-slate-300 text-slate-700 px-3 py-1.5 rounded-lg transition-colors text-sm font-medium cursor-pointer">
+            <Upload size={14} /> Open .md / .txt
+            <input type="file" className="hidden" accept=".md,.markdown,.txt,text/plain,text/markdown" onChange={handleOpenFile} />
+          </label>
+          <button onClick={() => setText(worksheetToText(current))} title="Edit the open worksheet as text, then replace it" className="flex items-center gap-2 bg-white border border-slate-200 hover:border-slate-300 text-slate-700 px-3 py-1.5 rounded-lg transition-colors text-sm font-medium">
+            <RotateCcw size={14} /> Start from this worksheet
+          </button>
+          <button onClick={() => downloadFile(`${slugify(current.title) || 'worksheet'}.md`, worksheetToText(current), 'text/markdown')} className="flex items-center gap-2 bg-white border border-slate-200 hover:border-slate-300 text-slate-700 px-3 py-1.5 rounded-lg transition-colors text-sm font-medium">
+            <FileDown size={14} /> Export this worksheet as .md
+          </button>
+          <div className="flex-1" />
+          <button onClick={() => setShowHelp(!showHelp)} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg transition-colors text-sm font-medium ${showHelp ? 'bg-slate-100 text-slate-900' : 'text-slate-600 hover:bg-slate-100'}`}>
+            <HelpCircle size={14} /> Format
+          </button>
+        </div>
+
+        {showHelp && (
+          <div className="px-6 py-3 border-b border-slate-100 bg-slate-50 grid md:grid-cols-2 gap-x-6 gap-y-1 text-xs text-slate-600">
+            {FORMAT_HELP.map(([syntax, meaning]) => (
+              <div key={syntax} className="flex gap-3"><code className="w-32 flex-shrink-0 font-mono text-slate-800">{syntax}</code><span>{meaning}</span></div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 grid md:grid-cols-2">
+          <div className="flex flex-col min-h-0 border-r border-slate-100">
+            <textarea
+              ref={textareaRef}
+              autoFocus
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={EXAMPLE}
+              spellCheck={false}
+              className="flex-1 min-h-0 w-full resize-none p-4 font-mono text-sm leading-5 text-slate-800 outline-none placeholder-slate-300"
+            />
+            {parsed.errors.length > 0 && (
+              <div className="max-h-40 overflow-y-auto p-3 bg-red-50 text-red-600 text-sm space-y-1 border-t border-red-100">
+                {parsed.errors.map((err, i) => (
+                  <button key={i} onClick={() => goToLine(err.line)} className="flex items-start gap-2 text-left w-full hover:underline">
+                    <AlertCircle size={14} className="flex-shrink-0 mt-0.5" /> <span><span className="font-semibold">Line {err.line}:</span> {err.message}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="min-h-0 overflow-y-auto bg-slate-100 p-4">
+            {parsed.blocks.length > 0 || parsed.title !== undefined ? (
+              <div className="shadow-sm rounded-lg overflow-hidden text-sm [&_.print-page]:mb-4 [&_.print-page]:p-6">
+                <PrintWorksheet data={preview} showKey />
+              </div>
+            ) : (
+              <p className="text-center p-8 text-slate-400 text-sm">Type or paste questions on the left to see them here, with the answer key filled in.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-slate-100">
+          <span className="flex-1 text-xs text-slate-400">
+            {parsed.errors.length > 0 ? `Fix ${parsed.errors.length} problem${parsed.errors.length === 1 ? '' : 's'} to import.` : parsed.blocks.length ? `${parsed.blocks.length} block${parsed.blocks.length === 1 ? '' : 's'} ready.` : ''}
+          </span>
+          <button onClick={() => onImport(parsed, 'append')} disabled={!canImport} className="px-4 py-2 rounded-lg font-medium bg-white border border-slate-200 hover:border-slate-300 text-slate-700 disabled:opacity-50 transition-colors">Add to worksheet</button>
+          <button onClick={() => onImport(parsed, 'replace')} disabled={!canImport} title="Undo (Ctrl+Z) brings the old content back" className="px-4 py-2 rounded-lg font-medium bg-slate-800 text-white hover:bg-slate-900 disabled:opacity-50 transition-colors shadow-sm">Replace worksheet</button>
+        </div>
+      </div>
+    </div>
+  );
+};
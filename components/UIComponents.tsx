@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useRef } from "react";
-import { Link as LinkIcon, ChevronDown } from "lucide-react";
+import { Link as LinkIcon, ChevronDown, AlertTriangle, X, ImageIcon, Upload, Loader2 } from "lucide-react";
 import { BlockType, QuestionType, DragItem } from "../types";
 import { createDragPreview } from "../helpers";
+import { SchemaIssue } from "../schema";
+import { encodeImage, formatBytes, getDataUrlSize, getImageFile, isDataUrl } from "../images";
 
 // Helper to mix colors (simple linear interpolation for RGB)
 const colorMix = (color1: string, color2: string, weight: number) => {
@@ -73,28 +75,6 @@ export const ThemeStyle = ({ color }: { color: string }) => {
   );
 };
 
-export const SimpleMarkdown = ({ text }: { text: string }) => {
-  if (!text) return null;
-  
-  // Improved markdown parsing
-  let html = text
-    // Headers
-    .replace(/^# (.*$)/gim, '<h1 class="text-2xl font-bold mb-2 mt-4">$1</h1>')
-    .replace(/^## (.*$)/gim, '<h2 class="text-xl font-bold mb-2 mt-3">$1</h2>')
-    .replace(/^### (.*$)/gim, '<h3 class="text-lg font-bold mb-1 mt-2">$1</h3>')
-    // Bold & Italic
-    .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-    .replace(/\*(.*?)\*/g, '<em>$1</em>')
-    // Links
-    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2" target="_blank" class="text-blue-600 hover:underline">$1</a>')
-    // Lists
-    .replace(/^\s*-\s(.*)$/gim, '<li class="ml-4 list-disc">$1</li>')
-    // Newlines to breaks
-    .replace(/\n/g, '<br />');
-
-  return <div className="prose prose-slate max-w-none text-slate-700 leading-relaxed" dangerouslySetInnerHTML={{ __html: html }} />;
-};
-
 interface TooltipButtonProps {
   icon: any;
   label: string;
@@ -104,9 +84,10 @@ interface TooltipButtonProps {
   active?: boolean;
   onDragEnd?: () => void;
   onDragStart?: (type: BlockType) => void;
+  disabled?: boolean;
 }
 
-export const TooltipButton = ({ icon: Icon, label, onClick, className = '', dragPayload, active, onDragEnd, onDragStart }: TooltipButtonProps) => {
+export const TooltipButton = ({ icon: Icon, label, onClick, className = '', dragPayload, active, onDragEnd, onDragStart, disabled }: TooltipButtonProps) => {
   const handleDragStart = (e: React.DragEvent) => {
     if (!dragPayload) return;
     
@@ -131,10 +112,11 @@ export const TooltipButton = ({ icon: Icon, label, onClick, className = '', drag
     <div className="group relative flex items-center justify-center font-sans flex-shrink-0">
       <button 
         onClick={onClick}
+        disabled={disabled}
         draggable={!!dragPayload}
         onDragStart={handleDragStart}
         onDragEnd={onDragEnd}
-        className={`p-2.5 rounded-xl transition-all ${active ? 'bg-slate-800 text-white' : 'hover:bg-slate-100 text-slate-500 hover:text-slate-900'} cursor-grab active:cursor-grabbing ${className}`}
+        className={`p-2.5 rounded-xl transition-all ${active ? 'bg-slate-800 text-white' : 'hover:bg-slate-100 text-slate-500 hover:text-slate-900'} cursor-grab active:cursor-grabbing disabled:opacity-30 disabled:pointer-events-none ${className}`}
       >
         <Icon size={20} strokeWidth={active ? 2.5 : 2} />
       </button>
@@ -150,7 +132,7 @@ export const useInputStyle = () => {
   return `bg-white border border-slate-300 rounded-md px-3 py-1.5 text-slate-800 shadow-sm focus:border-[var(--primary)] focus:ring-2 focus:ring-[var(--primary-200)] outline-none transition-all`;
 }
 
-export const CustomSelect = ({ options, value, onChange }: { options: string[], value: string, onChange: (val: string) => void }) => {
+export const CustomSelect = ({ options, value, onChange, tone }: { options: string[], value: string, onChange: (val: string) => void, tone?: 'correct' | 'incorrect' }) => {
   const [open, setOpen] = useState(false);
   const ref = useRef<HTMLDivElement>(null);
 
@@ -168,7 +150,7 @@ export const CustomSelect = ({ options, value, onChange }: { options: string[],
     <div ref={ref} className="relative inline-block align-middle mx-1 font-sans">
       <button 
         onClick={() => setOpen(!open)}
-        className={`flex items-center justify-between gap-2 bg-white border border-slate-300 rounded-md px-3 py-1.5 text-slate-800 shadow-sm focus:border-[var(--primary)] focus:ring-2 focus:ring-[var(--primary-200)] hover:bg-slate-50 outline-none transition-all text-base min-w-[120px]`}
+        className={`flex items-center justify-between gap-2 bg-white border ${tone === 'correct' ? 'border-green-500 ring-1 ring-green-500' : tone === 'incorrect' ? 'border-red-400 ring-1 ring-red-400' : 'border-slate-300'} rounded-md px-3 py-1.5 text-slate-800 shadow-sm focus:border-[var(--primary)] focus:ring-2 focus:ring-[var(--primary-200)] hover:bg-slate-50 outline-none transition-all text-base min-w-[120px]`}
       >
         <span className={`truncate max-w-[150px] ${!value ? 'text-slate-400' : ''}`}>{value || "Select..."}</span>
         <ChevronDown size={14} className={`text-slate-400 transition-transform ${open ? 'rotate-180' : ''}`} />
@@ -227,4 +209,86 @@ export const EmbedRenderer = ({ url, title }: { url: string, title?: string }) =
        {title && <div className="p-3 bg-white border-t border-slate-100 font-medium text-sm text-slate-700">{title}</div>}
     </div>
   );
-};
\ No newline at end of file
+};
+
+// Lists what was repaired or dropped when a worksheet was loaded
+export const SchemaIssuesNotice = ({ issues, onDismiss }: { issues: SchemaIssue[], onDismiss: () => void }) => {
+  const [expanded, setExpanded] = useState(false);
+  if (issues.length === 0) return null;
+  return (
+    <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-xl p-4 text-sm font-sans">
+      <div className="flex items-start gap-2">
+        <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+        <div className="flex-1">
+          <span className="font-semibold">This worksheet had {issues.length} {issues.length === 1 ? 'problem' : 'problems'}</span> that were fixed automatically. Some content may be missing.
+          <button onClick={() => setExpanded(!expanded)} className="ml-2 underline hover:no-underline">{expanded ? 'Hide details' : 'Show details'}</button>
+          {expanded && (
+            <ul className="mt-2 space-y-0.5 font-mono text-xs">
+              {issues.map((issue, i) => <li key={i}>{issue.path} {issue.message}</li>)}
+            </ul>
+          )}
+        </div>
+        <button onClick={onDismiss} className="text-amber-500 hover:text-amber-700"><X size={16} /></button>
+      </div>
+    </div>
+  );
+};
+
+// Downscales an uploaded image into a data URI; see encodeImage. The result goes to the onChange of the latest render,
+// since callers spread the block they were rendered with and it may have been edited while the image was read.
+export const useImageUpload = (onChange: (src: string) => void) => {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const upload = async (file: File) => {
+    setBusy(true);
+    setError('');
+    try {
+      const src = await encodeImage(file);
+      onChangeRef.current(src);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+  return { busy, error, upload };
+};
+
+// An image URL field that also takes pasted, dropped or picked files. Uploads are embedded as data URIs.
+export const ImageInput = ({ value, onChange, placeholder = 'Paste image URL, or paste/drop an image...', className = '' }: { value: string, onChange: (src: string) => void, placeholder?: string, className?: string }) => {
+  const { busy, error, upload } = useImageUpload(onChange);
+  const uploaded = isDataUrl(value);
+
+  return (
+    <div className={className} onClick={(e) => e.stopPropagation()}>
+      <div
+        className="flex items-center gap-2"
+        onDragOver={(e) => { if (e.dataTransfer.types.includes('Files')) { e.preventDefault(); e.stopPropagation(); e.dataTransfer.dropEffect = 'copy'; } }}
+        onDrop={(e) => { const file = getImageFile(e.dataTransfer); if (file) { e.preventDefault(); e.stopPropagation(); upload(file); } }}
+      >
+        <ImageIcon size={16} className="text-slate-400 flex-shrink-0" />
+        {uploaded ? (
+          <span className="w-full truncate text-slate-500">Uploaded image · {formatBytes(getDataUrlSize(value))}</span>
+        ) : (
+          <input
+            className="bg-transparent w-full outline-none placeholder-slate-400"
+            placeholder={placeholder}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            onPaste={(e) => { const file = getImageFile(e.clipboardData); if (file) { e.preventDefault(); e.stopPropagation(); upload(file); } }}
+          />
+        )}
+        {busy ? <Loader2 size={14} className="animate-spin text-slate-400 flex-shrink-0" /> : (
+          <label title="Upload image" className="cursor-pointer text-slate-400 hover:text-slate-700 flex-shrink-0">
+            <Upload size={14} />
+            <input type="file" accept="image/*" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) upload(file); }} />
+          </label>
+        )}
+        {uploaded && <button title="Remove image" onClick={() => onChange('')} className="text-slate-400 hover:text-red-500 flex-shrink-0"><X size={14} /></button>}
+      </div>
+      {error && <div className="text-xs text-red-500 mt-1">{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { matchGapRule, parseDropdownGap, parseGapLine, parseGapRule } from "./gaps";
+
+describe('parseGapLine', () => {
+  it('splits text and gaps, keying gaps by line and position', () => {
+    const segments = parseGapLine('The capital of [France] is [Paris].', 2);
+    expect(segments.filter(s => s.kind === 'gap')).toHaveLength(2);
+    expect(segments.map(s => (s.kind === 'text' ? s.text : `[${s.raw}]`)).join('')).toBe('The capital of [France] is [Paris].');
+  });
+});
+
+describe('parseDropdownGap', () => {
+  it('takes the starred choice as the key', () => {
+    expect(parseDropdownGap('cat|*dog|fish')).toEqual({ options: ['cat', 'dog', 'fish'], correct: 'dog' });
+  });
+
+  it('falls back to the first choice', () => {
+    expect(parseDropdownGap('cat|dog').correct).toBe('cat');
+  });
+});
+
+describe('parseGapRule', () => {
+  it('reads alternatives, numbers with a tolerance and regular expressions', () => {
+    expect(parseGapRule('Paris|paris')).toEqual({ kind: 'text', alternatives: ['Paris', 'paris'] });
+    expect(parseGapRule('3,14~0,01')).toEqual({ kind: 'number', value: 3.14, tolerance: 0.01 });
+    expect(parseGapRule('/colou?r/i')).toMatchObject({ kind: 'regex', pattern: 'colou?r', flags: 'i', valid: true });
+    expect(parseGapRule('/(/')).toMatchObject({ kind: 'regex', valid: false });
+  });
+});
+
+describe('matchGapRule', () => {
+  it('matches text alternatives with the question settings', () => {
+    const rule = parseGapRule('Zürich');
+    expect(matchGapRule(rule, 'Zürich')).toBe(true);
+    expect(matchGapRule(rule, 'zurich')).toBe(false);
+    expect(matchGapRule(rule, ' zurich ', { ignoreCase: true, ignoreDiacritics: true })).toBe(true);
+  });
+
+  it('accepts numbers within the tolerance, with decimal commas', () => {
+    const rule = parseGapRule('3.14~0.01');
+    expect(matchGapRule(rule, '3.15')).toBe(true);
+    expect(matchGapRule(rule, '3,13')).toBe(true);
+    expect(matchGapRule(rule, '3.16')).toBe(false);
+  });
+
+  it('requires a regular expression to match the whole answer', () => {
+    expect(matchGapRule(parseGapRule('/colou?r/'), 'color')).toBe(true);
+    expect(matchGapRule(parseGapRule('/colou?r/'), 'watercolours')).toBe(false);
+    expect(matchGapRule(parseGapRule('/cat|dog/'), 'catalog')).toBe(false);
+    expect(matchGapRule(parseGapRule('/cat|dog/'), 'hotdog')).toBe(false);
+    expect(matchGapRule(parseGapRule('/colou?r/'), 'COLOUR', { ignoreCase: true })).toBe(true);
+  });
+
+  it('never accepts an empty answer', () => {
+    expect(matchGapRule(parseGapRule('/.*/'), '  ')).toBe(false);
+  });
+});
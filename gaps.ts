@@ -0,0 +1,141 @@
+import { MatchSettings } from "./types";
+
+// Shared parser for the bracket gap syntax used in listItems, e.g. "The capital of France is [Paris]."
+// Editor, players and grader all go through here so gap keys stay in sync.
+
+export type LineSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'gap'; raw: string; key: string };
+
+export type GapRule =
+  | { kind: 'text'; alternatives: string[] }
+  | { kind: 'number'; value: number; tolerance: number }
+  | { kind: 'regex'; pattern: string; flags: string; valid: boolean };
+
+// Splits a sentence into text and gaps. Brackets may nest inside a gap (for regex classes) and \[ \] escape literal brackets.
+export const parseGapLine = (line: string, lineIdx: number): LineSegment[] => {
+  const segments: LineSegment[] = [];
+  let text = '';
+  let gap = '';
+  let depth = 0;
+  let gapIdx = 0;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '\\' && (line[i + 1] === '[' || line[i + 1] === ']')) {
+      if (depth > 0) gap += ch + line[i + 1];
+      else text += line[i + 1];
+      i++;
+      continue;
+    }
+    if (ch === '[') {
+      if (depth > 0) gap += ch;
+      depth++;
+      continue;
+    }
+    if (ch === ']' && depth > 0) {
+      depth--;
+      if (depth > 0) { gap += ch; continue; }
+      if (text) segments.push({ kind: 'text', text });
+      segments.push({ kind: 'gap', raw: gap, key: `${lineIdx}-${gapIdx++}` });
+      text = '';
+      gap = '';
+      continue;
+    }
+    if (depth > 0) gap += ch;
+    else text += ch;
+  }
+
+  // An unterminated gap is shown as plain text
+  if (depth > 0) text += '[' + gap;
+  if (text) segments.push({ kind: 'text', text });
+  return segments;
+};
+
+export const parseGaps = (listItems: string[] | undefined) => {
+  const gaps: { key: string; raw: string }[] = [];
+  listItems?.forEach((line, lineIdx) => {
+    parseGapLine(line, lineIdx).forEach(seg => { if (seg.kind === 'gap') gaps.push({ key: seg.key, raw: seg.raw }); });
+  });
+  return gaps;
+};
+
+// Table cells hold a single gap in the same syntax, e.g. "[Paris|paris]"; the brackets may be left out
+export const parseCellGap = (content: string) => {
+  const gap = parseGapLine(content, 0).find(seg => seg.kind === 'gap');
+  return gap?.kind === 'gap' ? gap.raw : content.trim();
+};
+
+// Checkbox cells are [x] when they should be ticked and [ ] when they should stay empty
+export const isTickedCell = (content: string) => parseCellGap(content).trim().toLowerCase() === 'x';
+
+// Dropdown gaps list their choices as [a|b|c]. A leading * marks the correct one, otherwise the first choice is the key.
+export const parseDropdownGap = (raw: string) => {
+  const parts = raw.split('|');
+  const starred = parts.findIndex(p => p.trim().startsWith('*'));
+  const options = parts.map(p => p.trim().replace(/^\*/, ''));
+  return { options, correct: options[starred === -1 ? 0 : starred] || '' };
+};
+
+const parseNumber = (input: string) => {
+  const cleaned = input.trim().replace(',', '.');
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) return null;
+  return parseFloat(cleaned);
+};
+
+// Text gaps: [Paris|paris] alternatives, [3.14~0.01] numeric tolerance, [/colou?r/i] regular expression
+export const parseGapRule = (raw: string): GapRule => {
+  const trimmed = raw.trim();
+
+  const regex = /^\/(.*)\/([a-z]*)$/s.exec(trimmed);
+  if (regex) {
+    const pattern = regex[1];
+    let valid = true;
+    try { new RegExp(pattern, regex[2]); } catch { valid = false; }
+    return { kind: 'regex', pattern, flags: regex[2], valid };
+  }
+
+  const tilde = trimmed.split('~');
+  if (tilde.length === 2) {
+    const value = parseNumber(tilde[0]);
+    const tolerance = parseNumber(tilde[1]);
+    if (value !== null && tolerance !== null) return { kind: 'number', value, tolerance: Math.abs(tolerance) };
+  }
+
+  return { kind: 'text', alternatives: trimmed.split('|').map(a => a.replace(/\\([[\]])/g, '$1').trim()) };
+};
+
+export const describeGapRule = (rule: GapRule) => {
+  if (rule.kind === 'number') return rule.tolerance ? `${rule.value} ± ${rule.tolerance}` : `${rule.value}`;
+  if (rule.kind === 'regex') return `/${rule.pattern}/${rule.flags}`;
+  return rule.alternatives.join(' / ');
+};
+
+export const normalizeAnswer = (value: string, settings: MatchSettings = {}) => {
+  let out = value.trim();
+  if (settings.ignoreWhitespace) out = out.replace(/\s+/g, ' ');
+  if (settings.ignoreDiacritics) out = out.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  if (settings.ignoreCase) out = out.toLowerCase();
+  return out;
+};
+
+export const matchGapRule = (rule: GapRule, given: string, settings: MatchSettings = {}) => {
+  if (!given.trim()) return false;
+
+  if (rule.kind === 'number') {
+    const value = parseNumber(given);
+    // Tiny epsilon so that e.g. 3.15 with [3.14~0.01] is not rejected by float rounding
+    return value !== null && Math.abs(value - rule.value) <= rule.tolerance + 1e-9;
+  }
+
+  if (rule.kind === 'regex') {
+    if (!rule.valid) return false;
+    const flags = settings.ignoreCase && !rule.flags.includes('i') ? rule.flags + 'i' : rule.flags;
+    const subject = normalizeAnswer(given, { ...settings, ignoreCase: false });
+    // The pattern has to match the whole answer, so /colou?r/ doesn't accept "watercolours"
+    return new RegExp(`^(?:${rule.pattern})$`, flags).test(subject);
+  }
+
+  const normalized = normalizeAnswer(given, settings);
+  return rule.alternatives.some(alt => normalizeAnswer(alt, settings) === normalized);
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { QuestionBlock, WorksheetData } from "./types";
+import { exportGift, importGift } from "./gift";
+import { collectQuestions, getGapKeys } from "./grading";
+
+describe('importGift', () => {
+  it('reads choice, short answer and numeric questions, numbers as gaps with a tolerance', () => {
+    const { blocks, issues } = importGift([
+      '::Capital:: What is the capital of France? {=Paris ~Lyon ~Nice}',
+      '',
+      'Two plus two is {=4 =four}.',
+      '',
+      'Pi to two places? {#3.14:0.01}',
+    ].join('\n'));
+    expect(issues).toEqual([]);
+    const questions = collectQuestions(blocks);
+    expect(questions.map(q => q.qType)).toEqual(['multiple-choice', 'cloze-text', 'cloze-text']);
+    expect(questions[0]).toMatchObject({ options: ['Paris', 'Lyon', 'Nice'], correctAnswer: 'Paris' });
+    expect(Object.values(getGapKeys(questions[2]))).toEqual(['3.14 ± 0.01']);
+  });
+
+  it('refuses a file without questions', () => {
+    expect(() => importGift('// only a comment')).toThrow();
+  });
+});
+
+describe('exportGift', () => {
+  it('keeps the answer key through an export and import', () => {
+    const question = (fields: Partial<QuestionBlock>): QuestionBlock => ({ id: 'q', type: 'question', qType: 'open-answer', prompt: 'Question', ...fields });
+    const data: WorksheetData = {
+      title: 'Quiz',
+      description: '',
+      blocks: [
+        question({ id: 'a', qType: 'multiple-choice', prompt: 'Pick one', options: ['Paris', 'Rome'], correctAnswer: 'Paris' }),
+        question({ id: 'b', qType: 'cloze-dropdown', prompt: 'Fill in', listItems: ['Cats are [fish|*mammals].'] }),
+      ],
+    };
+    const exported = exportGift(data);
+    const imported = collectQuestions(importGift(String(exported.content)).blocks);
+    expect(imported[0]).toMatchObject({ qType: 'multiple-choice', correctAnswer: 'Paris' });
+    expect(Object.values(getGapKeys(imported[1]))).toEqual(['mammals']);
+  });
+});
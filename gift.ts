@@ -0,0 +1,212 @@
+import { Block, QuestionBlock, WorksheetData } from "./types";
+import { generateId, slugify } from "./helpers";
+import { parseDropdownGap, parseGapLine, parseGapRule, parseGaps } from "./gaps";
+import { getChoiceKey } from "./grading";
+import { LmsExport, LmsImport, categoryPath, createCategoryGrouper, describeBlock, describeLostBreaks, describeLostMatching, getExportProblem, htmlToMarkdown } from "./interop";
+
+// GIFT, Moodle's plain-text question format: one question per paragraph, answers in {braces}. A cloze question can only
+// have one gap (a "missing word" question), so cloze questions with more gaps are reported instead of exported.
+
+const escapeGift = (text: string) => text.replace(/([~=#{}:\\])/g, '\\$1').replace(/\n/g, '\\n');
+
+const unescapeGift = (text: string) => text.replace(/\\(.)/g, (_, c: string) => (c === 'n' ? '\n' : c));
+
+const fraction = (value: number) => String(Math.round(value * 100000) / 100000);
+
+const questionText = (q: QuestionBlock) => [
+  q.prompt.trim(),
+  q.description || '',
+  q.image ? `![](${q.image})` : '',
+].filter(Boolean).join('\n\n');
+
+// The answer braces for a question's single gap
+const gapAnswer = (q: QuestionBlock, raw: string) => {
+  if (q.qType === 'cloze-dropdown') {
+    const { options, correct } = parseDropdownGap(raw);
+    return `{${options.map(o => `${o === correct ? '=' : '~'}${escapeGift(o)}`).join(' ')}}`;
+  }
+  const rule = parseGapRule(raw);
+  if (rule.kind === 'number') return `{#${rule.value}:${rule.tolerance}}`;
+  return `{${(rule.kind === 'text' ? rule.alternatives : []).map(a => `=${escapeGift(a)}`).join(' ')}}`;
+};
+
+const exportQuestion = (q: QuestionBlock) => {
+  const text = escapeGift(questionText(q));
+  if (q.qType === 'open-answer') return `[markdown]${text} {}`;
+  if (q.qType === 'multiple-choice') {
+    const key = getChoiceKey(q);
+    const right = fraction(100 / Math.max(key.length, 1));
+    const answers = (q.options || []).map(option => {
+      if (!q.multiSelect) return `${key.includes(option) ? '=' : '~'}${escapeGift(option)}`;
+      return `~%${key.includes(option) ? right : '-100'}%${escapeGift(option)}`;
+    });
+    return `[markdown]${text} {\n${answers.join('\n')}\n}`;
+  }
+  // Missing word: the answer braces go where the gap is in its line
+  const lines = (q.listItems || []).map((line, lineIdx) =>
+    parseGapLine(line, lineIdx).map(seg => (seg.kind === 'text' ? escapeGift(seg.text) : gapAnswer(q, seg.raw))).join('')
+  );
+  return `[markdown]${[text, ...lines].filter(Boolean).join('\\n')}`;
+};
+
+export const exportGift = (data: WorksheetData): LmsExport => {
+  const issues: string[] = [];
+  const parts: string[] = [`// ${data.title}`, `$CATEGORY: ${categoryPath(data.title || 'Worksheet')}`];
+  let number = 0;
+
+  const walk = (blocks: Block[], path: string[]) => {
+    for (const block of blocks) {
+      if (block.type === 'question') {
+        number++;
+        const problem = block.qType === 'drag-inline'
+          ? 'GIFT has no drag-and-drop questions; export to Moodle XML to keep it'
+          : block.qType !== 'multiple-choice' && block.qType !== 'open-answer' && parseGaps(block.listItems).length > 1
+            ? 'GIFT allows one gap per question; export to Moodle XML to keep it'
+            : getExportProblem(block);
+        if (problem) {
+          issues.push(`${describeBlock(block, number)} was left out: ${problem}.`);
+          continue;
+        }
+        if (block.qType === 'cloze-text' && parseGapRule(parseGaps(block.listItems)[0].raw).kind === 'text') {
+          const lost = [!block.matching?.ignoreCase && 'Case-sensitive matching', describeLostMatching(block)].filter(Boolean).join(' and ');
+          if (lost) issues.push(`${describeBlock(block, number)}: ${lost} can't be expressed in GIFT, whose short answers ignore capitalisation and are otherwise compared exactly.`);
+        }
+        parts.push(exportQuestion(block));
+      } else if (block.type === 'group') {
+        const groupPath = [...path, block.title || 'Untitled group'];
+        parts.push(`$CATEGORY: ${categoryPath(data.title || 'Worksheet', ...groupPath)}`);
+        walk(block.children, groupPath);
+        parts.push(`$CATEGORY: ${categoryPath(data.title || 'Worksheet', ...path)}`);
+      } else if (block.type === 'text') {
+        parts.push(`[markdown]${escapeGift(block.content)}`);
+      } else if (block.type === 'embed') {
+        parts.push(`[markdown]${escapeGift(`[${block.title || block.url}](${block.url})`)}`);
+      }
+    }
+  };
+  walk(data.blocks, []);
+  const lostBreaks = describeLostBreaks(data.blocks);
+  if (lostBreaks) issues.push(lostBreaks);
+
+  return { filename: `${slugify(data.title) || 'worksheet'}-gift.txt`, content: `${parts.join('\n\n')}\n`, contentType: 'text/plain', issues };
+};
+
+// Index of the first character in `chars` that isn't backslash-escaped
+const findUnescaped = (text: string, chars: string, from = 0) => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (chars.includes(text[i])) return i;
+  }
+  return -1;
+};
+
+// Splits an answer block like "=Paris ~%50%Lyon#Close ~Nice" into its answers
+const parseGiftAnswers = (source: string) => {
+  const answers: { fraction: number, text: string }[] = [];
+  let start = findUnescaped(source, '=~');
+  while (start !== -1) {
+    const next = findUnescaped(source, '=~', start + 1);
+    const part = source.slice(start, next === -1 ? undefined : next);
+    const match = /^([=~])(?:%(-?[\d.]+)%)?(.*)$/s.exec(part)!;
+    const feedback = findUnescaped(match[3], '#');
+    const text = unescapeGift((feedback === -1 ? match[3] : match[3].slice(0, feedback)).trim());
+    answers.push({ fraction: match[2] !== undefined ? Number(match[2]) : match[1] === '=' ? 100 : 0, text });
+    start = next;
+  }
+  return answers;
+};
+
+const escapeGapText = (text: string) => text.replace(/([[\]])/g, '\\$1');
+
+export const importGift = (text: string): LmsImport => {
+  const issues: string[] = [];
+  const grouper = createCategoryGrouper();
+  const chunks = text.replace(/\r\n?/g, '\n').split('\n')
+    .filter(line => !/^\s*\/\//.test(line))
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map(chunk => chunk.trim())
+    .filter(Boolean);
+  if (!chunks.length) throw new Error("This file doesn't contain any questions.");
+
+  let number = 0;
+  chunks.forEach(chunk => {
+    const category = /^\$CATEGORY:\s*(.*)$/m.exec(chunk);
+    if (category) {
+      grouper.setCategory(category[1]);
+      return;
+    }
+    let source = chunk;
+    const title = /^::((?:\\.|[^\\:])*)::\s*/s.exec(source);
+    if (title) source = source.slice(title[0].length);
+    const name = `"${title ? unescapeGift(title[1]) : `Question ${number + 1}`}"`;
+    const format = /^\[(html|markdown|plain|moodle)\]\s*/.exec(source);
+    if (format) source = source.slice(format[0].length);
+    // Plain text keeps its spaces so a gap line can be put back together around the answers
+    const toMarkdown = (part: string, gapText = false) => {
+      const plain = unescapeGift(part);
+      const markdown = format?.[1] === 'html' ? htmlToMarkdown(new DOMParser().parseFromString(plain, 'text/html').body) : plain;
+      return gapText ? escapeGapText(markdown) : markdown;
+    };
+
+    const open = findUnescaped(source, '{');
+    const close = open === -1 ? -1 : findUnescaped(source, '}', open);
+    if (open === -1 || close === -1) {
+      const content = toMarkdown(source);
+      if (content.trim()) grouper.add({ id: generateId(), type: 'text', content: content.trim() });
+      return;
+    }
+    number++;
+    const before = source.slice(0, open);
+    const after = source.slice(close + 1).trimEnd();
+    const answer = source.slice(open + 1, close).trim();
+    const base = { id: generateId(), type: 'question' as const, prompt: toMarkdown(before).trim() };
+    // A missing-word question: the line the answers sit in becomes the gap line, earlier lines the prompt
+    const asGap = (gap: string) => {
+      if (!after) return { listItems: [gap] };
+      const lines = (part: string) => part.split(/\n|(?<!\\)\\n/);
+      const head = lines(before);
+      const tail = lines(after);
+      const gapLine = `${toMarkdown(head.pop() || '', true)}${gap}${toMarkdown(tail.shift() || '', true)}`.trim();
+      return { prompt: toMarkdown(head.join('\n')).trim(), listItems: [gapLine, ...tail.map(l => toMarkdown(l, true).trim()).filter(Boolean)] };
+    };
+
+    if (!answer) {
+      grouper.add({ ...base, qType: 'open-answer' });
+    } else if (answer.startsWith('#')) {
+      const first = parseGiftAnswers(answer.slice(1))[0]?.text ?? unescapeGift(answer.slice(1)).split('#')[0].trim();
+      const range = /^(-?[\d.]+)\.\.(-?[\d.]+)$/.exec(first);
+      const [value, tolerance] = range
+        ? [(Number(range[1]) + Number(range[2])) / 2, Math.abs(Number(range[2]) - Number(range[1])) / 2]
+        : first.split(':').map(Number);
+      grouper.add({ ...base, qType: 'cloze-text', ...asGap(`[${value}${tolerance ? `~${tolerance}` : ''}]`) });
+    } else if (/^(T|TRUE|F|FALSE)\s*(#|$)/i.test(answer)) {
+      grouper.add({ ...base, qType: 'multiple-choice', options: ['True', 'False'], correctAnswer: /^T/i.test(answer) ? 'True' : 'False' });
+    } else if (answer.includes('->')) {
+      issues.push(`${name} is a matching question; only choice, gap, numeric and open questions are imported from GIFT, so it was left out.`);
+    } else {
+      const answers = parseGiftAnswers(answer);
+      const correct = answers.filter(a => a.fraction > 0);
+      if (answers.every(a => a.fraction >= 100)) {
+        // Short answer; Moodle always compares these ignoring capitalisation
+        grouper.add({ ...base, qType: 'cloze-text', ...asGap(`[${answers.map(a => escapeGapText(a.text)).join('|')}]`), matching: { ignoreCase: true } });
+      } else if (after && correct.length === 1) {
+        grouper.add({ ...base, qType: 'cloze-dropdown', ...asGap(`[${answers.map(a => `${a.fraction > 0 ? '*' : ''}${escapeGapText(a.text)}`).join('|')}]`) });
+      } else {
+        const multiSelect = correct.length > 1 || correct.some(a => a.fraction < 100);
+        if (answers.some(a => a.fraction > 0 && a.fraction < 100) && !multiSelect) issues.push(`${name}: partial credit for some answers was dropped.`);
+        if (after) issues.push(`${name}: the text after the answers was moved into the prompt.`);
+        grouper.add({
+          ...base,
+          prompt: after ? `${base.prompt} ___ ${toMarkdown(after).trim()}` : base.prompt,
+          qType: 'multiple-choice',
+          options: answers.map(a => a.text),
+          ...(multiSelect ? { multiSelect } : {}),
+          correctAnswer: multiSelect ? correct.map(a => a.text) : correct[0]?.text,
+        });
+      }
+    }
+  });
+
+  return { title: grouper.getTitle(), blocks: grouper.blocks, issues };
+};
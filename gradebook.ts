@@ -0,0 +1,73 @@
+import { Gradebook, GradebookColumn, GradebookRow, StudentResponse, WorksheetData } from "./types";
+import { collectQuestions, gradeQuestion, gradeWorksheet } from "./grading";
+import { getQuestionLabels, hashWorksheet } from "./helpers";
+import { verifyResponse } from "./responses";
+import { markdownToText } from "./markdown";
+
+export const buildGradebook = (data: WorksheetData, responses: { fileName: string, response: StudentResponse }[]): Gradebook => {
+  const labels = getQuestionLabels(data.blocks);
+  const worksheetHash = hashWorksheet(data);
+
+  const columns: GradebookColumn[] = [];
+  collectQuestions(data.blocks).forEach(q => {
+    const empty = gradeQuestion(q, undefined);
+    if (!empty) return;
+    columns.push({ blockId: q.id, label: labels[q.id], prompt: markdownToText(q.prompt), maxScore: empty.maxScore, gapKeys: empty.gaps?.map(g => g.key) || [] });
+  });
+
+  const rows: GradebookRow[] = responses.map(({ fileName, response }) => {
+    const warnings: string[] = [];
+    if (response.worksheetHash !== worksheetHash) warnings.push("Answers were made on a different version of this worksheet.");
+    if (!verifyResponse(response)) warnings.push("File was modified after it was downloaded.");
+    return { fileName, response, report: gradeWorksheet(data, response.answers, response.seed), warnings };
+  });
+
+  const averages: Record<string, number> = {};
+  columns.forEach(col => {
+    const ratios = rows.map(r => (r.report.results[col.blockId]?.score || 0) / col.maxScore);
+    averages[col.blockId] = ratios.length ? ratios.reduce((a, b) => a + b, 0) / ratios.length : 0;
+  });
+  const totals = rows.map(r => (r.report.maxScore ? r.report.score / r.report.maxScore : 0));
+  const classAverage = totals.length ? totals.reduce((a, b) => a + b, 0) / totals.length : 0;
+
+  return { columns, rows, averages, classAverage };
+};
+
+// Lowest average first; only questions that at least one student got wrong
+export const getHardestQuestions = (gradebook: Gradebook, limit = 3) =>
+  gradebook.columns
+    .filter(col => gradebook.averages[col.blockId] < 1)
+    .sort((a, b) => gradebook.averages[a.blockId] - gradebook.averages[b.blockId])
+    .slice(0, limit);
+
+// Text that a spreadsheet would run as a formula (=, +, -, @, tab or CR first) is prefixed with ' to stay text.
+// Student names come from response files, so they can't be trusted.
+const csvCell = (value: string | number) => {
+  const str = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+// One row per student: time taken (timed assessments only), question scores, then per-gap correctness (1/0), then totals
+export const gradebookToCsv = (gradebook: Gradebook) => {
+  const { columns, rows } = gradebook;
+  const gapColumns = columns.flatMap(col => col.gapKeys.map((key, idx) => ({ col, key, title: `${col.label} gap ${idx + 1}` })));
+
+  const header = ['Student', 'Submitted', 'Seconds taken', ...columns.map(c => `${c.label} (/${c.maxScore})`), ...gapColumns.map(g => g.title), 'Score', 'Max', 'Percent', 'Warnings'];
+  const lines = rows.map(row => {
+    const { report, response } = row;
+    return [
+      response.studentName,
+      response.submittedAt,
+      response.timing ? response.timing.pageSeconds.reduce((sum, s) => sum + s, 0) : '',
+      ...columns.map(c => report.results[c.blockId]?.score ?? 0),
+      ...gapColumns.map(g => (report.results[g.col.blockId]?.gaps?.find(x => x.key === g.key)?.correct ? 1 : 0)),
+      report.score,
+      report.maxScore,
+      report.maxScore ? Math.round((report.score / report.maxScore) * 100) : 0,
+      row.warnings.join(' '),
+    ];
+  });
+  const averageLine = ['Average', '', '', ...columns.map(c => (gradebook.averages[c.blockId] * c.maxScore).toFixed(2)), ...gapColumns.map(() => ''), '', '', Math.round(gradebook.classAverage * 100), ''];
+
+  return [header, ...lines, averageLine].map(line => line.map(csvCell).join(',')).join('\r\n');
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { QuestionBlock, WorksheetData } from "./types";
+import { getDropdownOptions, getGapKeys, getOrderShuffle, gradeQuestion, gradeWorksheet } from "./grading";
+
+const question = (fields: Partial<QuestionBlock>): QuestionBlock => ({ id: 'q1', type: 'question', qType: 'open-answer', prompt: 'Question', ...fields });
+
+describe('gradeQuestion', () => {
+  it('grades single and multiple choice', () => {
+    const single = question({ qType: 'multiple-choice', options: ['Paris', 'Rome'], correctAnswer: 'Paris' });
+    expect(gradeQuestion(single, 'Paris')).toMatchObject({ score: 1, correct: true });
+    expect(gradeQuestion(single, 'Rome')).toMatchObject({ score: 0, expected: ['Paris'] });
+
+    const multi = question({ qType: 'multiple-choice', multiSelect: true, options: ['a', 'b', 'c'], correctAnswer: ['a', 'c'] });
+    expect(gradeQuestion(multi, ['c', 'a'])?.correct).toBe(true);
+    expect(gradeQuestion(multi, ['a'])?.correct).toBe(false);
+  });
+
+  it('gives a point per cloze gap', () => {
+    const block = question({ qType: 'cloze-text', listItems: ['[Paris|paris] is in [France].'], matching: { ignoreCase: true } });
+    const [first, second] = Object.keys(getGapKeys(block));
+    expect(gradeQuestion(block, { [first]: 'PARIS', [second]: 'Spain' })).toMatchObject({ score: 1, maxScore: 2, correct: false });
+  });
+
+  it('grades dropdown gaps against the starred choice', () => {
+    const block = question({ qType: 'cloze-dropdown', listItems: ['Cats are [fish|*mammals].'] });
+    const [key] = Object.keys(getGapKeys(block));
+    expect(gradeQuestion(block, { [key]: 'mammals' })?.correct).toBe(true);
+    expect(gradeQuestion(block, { [key]: 'fish' })?.correct).toBe(false);
+  });
+
+  it('grades table cells of every kind', () => {
+    const block = question({
+      qType: 'table',
+      cells: [[{ kind: 'text', content: 'Capital' }, { kind: 'gap', content: '[Paris]' }], [{ kind: 'dropdown', content: '[red|*blue]' }, { kind: 'checkbox', content: '[x]' }]],
+    });
+    expect(gradeQuestion(block, { '0-1': 'Paris', '1-0': 'blue', '1-1': true })).toMatchObject({ score: 3, maxScore: 3 });
+    expect(gradeQuestion(block, { '0-1': 'Paris' })).toMatchObject({ score: 1 });
+  });
+
+  it('gives numeric questions a point within the tolerance', () => {
+    const block = question({ qType: 'numeric', numeric: { kind: 'number', answer: '1500', unit: 'm' } });
+    expect(gradeQuestion(block, '1,5 km')?.correct).toBe(true);
+    expect(gradeQuestion(block, '1,5 m')?.correct).toBe(false);
+  });
+
+  it('returns null for questions without a key', () => {
+    expect(gradeQuestion(question({}), 'anything')).toBeNull();
+  });
+});
+
+describe('ordering', () => {
+  const block = question({ qType: 'ordering', options: ['a', 'b', 'c', 'd'] });
+
+  it('scores exact or adjacent pairs', () => {
+    expect(gradeQuestion(block, ['a', 'b', 'c', 'd'])).toMatchObject({ score: 1, correct: true });
+    expect(gradeQuestion(block, ['b', 'a', 'c', 'd'])).toMatchObject({ score: 0, correct: false });
+    expect(gradeQuestion({ ...block, orderScoring: 'adjacent' }, ['b', 'a', 'c', 'd'])).toMatchObject({ score: 1, maxScore: 3 });
+  });
+
+  it('never shows the solution as the starting order', () => {
+    for (let i = 0; i < 50; i++) expect(getOrderShuffle(block, `seed${i}`)).not.toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('grades an untouched question in the order the student was shown', () => {
+    const adjacent = { ...block, orderScoring: 'adjacent' as const };
+    for (const seed of ['s1', 's2', 's3']) {
+      expect(gradeQuestion(adjacent, undefined, seed)?.score).toBe(gradeQuestion(adjacent, getOrderShuffle(adjacent, seed))?.score);
+    }
+    expect(gradeQuestion(adjacent, undefined)?.score).toBe(0);
+  });
+});
+
+describe('getDropdownOptions', () => {
+  it('shuffles the choices per student, the same way every time', () => {
+    const block = question({ qType: 'cloze-dropdown' });
+    const shown = getDropdownOptions(block, 'g0', '*key|b|c|d', 'student');
+    expect([...shown].sort()).toEqual(['b', 'c', 'd', 'key']);
+    expect(getDropdownOptions(block, 'g0', '*key|b|c|d', 'student')).toEqual(shown);
+    const firsts = new Set(Array.from({ length: 40 }, (_, i) => getDropdownOptions(block, 'g0', '*key|b|c|d', `s${i}`)[0]));
+    expect(firsts.size).toBeGreaterThan(1);
+  });
+});
+
+describe('gradeWorksheet', () => {
+  it('adds up gradable questions, including those inside groups', () => {
+    const data: WorksheetData = {
+      title: 'Test',
+      description: '',
+      blocks: [
+        question({ id: 'a', qType: 'multiple-choice', options: ['x', 'y'], correctAnswer: 'x' }),
+        { id: 'g', type: 'group', children: [question({ id: 'b', qType: 'cloze-text', listItems: ['[yes]'] })] },
+        question({ id: 'c' }),
+      ],
+    };
+    const report = gradeWorksheet(data, { a: 'x' });
+    expect(report).toMatchObject({ score: 1, maxScore: 2 });
+    expect(Object.keys(report.results)).toEqual(['a', 'b']);
+  });
+});
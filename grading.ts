@@ -0,0 +1,195 @@
+import { Block, GapResult, GradeReport, GroupBlock, QuestionBlock, QuestionResult, TableCell, WorksheetData } from "./types";
+import { describeGapRule, isTickedCell, matchGapRule, parseCellGap, parseDropdownGap, parseGapRule, parseGaps } from "./gaps";
+import { seededShuffle } from "./helpers";
+import { checkNumericAnswer, describeNumericKey, validateNumericKey } from "./numeric";
+
+// Flatten all question blocks (including those nested in groups) in document order
+export const collectQuestions = (blocks: Block[]): QuestionBlock[] => {
+  const out: QuestionBlock[] = [];
+  blocks.forEach(b => {
+    if (b.type === 'question') out.push(b);
+    if (b.type === 'group') out.push(...collectQuestions((b as GroupBlock).children));
+  });
+  return out;
+};
+
+// Every answerable table cell, keyed `${row}-${col}` like the player answers
+export const getTableGaps = (block: QuestionBlock) => {
+  const gaps: { key: string, row: number, col: number, cell: TableCell }[] = [];
+  block.cells?.forEach((cells, row) => cells.forEach((cell, col) => {
+    if (cell.kind !== 'text') gaps.push({ key: `${row}-${col}`, row, col, cell });
+  }));
+  return gaps;
+};
+
+export const getCellKey = (cell: TableCell) => {
+  if (cell.kind === 'checkbox') return isTickedCell(cell.content) ? 'ticked' : 'not ticked';
+  const raw = parseCellGap(cell.content);
+  if (cell.kind === 'dropdown') return parseDropdownGap(raw).correct;
+  return describeGapRule(parseGapRule(raw));
+};
+
+// Returns the expected value for every gap in a cloze-style or table question, keyed like the player answers
+export const getGapKeys = (block: QuestionBlock): Record<string, string> => {
+  const keys: Record<string, string> = {};
+  if (block.qType === 'table') {
+    getTableGaps(block).forEach(({ key, cell }) => { keys[key] = getCellKey(cell); });
+    return keys;
+  }
+  parseGaps(block.listItems).forEach(gap => {
+    if (block.qType === 'cloze-dropdown') keys[gap.key] = parseDropdownGap(gap.raw).correct;
+    else if (block.qType === 'cloze-text') keys[gap.key] = describeGapRule(parseGapRule(gap.raw));
+    else keys[gap.key] = gap.raw.trim();
+  });
+  return keys;
+};
+
+const matchesGap = (block: QuestionBlock, raw: string, given: string) => {
+  if (block.qType === 'cloze-text') return matchGapRule(parseGapRule(raw), given, block.matching);
+  if (block.qType === 'cloze-dropdown') return given === parseDropdownGap(raw).correct;
+  return given.trim() === raw.trim();
+};
+
+export const getChoiceKey = (block: QuestionBlock): string[] => {
+  const key = block.correctAnswer;
+  if (key === undefined || key === null) return [];
+  const list = Array.isArray(key) ? key : [key];
+  return list.filter(k => block.options?.includes(k));
+};
+
+// Pairs that are filled in on both sides; half-written pairs are ignored by the player and grading
+export const getMatchPairs = (block: QuestionBlock) => (block.pairs || []).filter(p => p.left.trim() && p.right.trim());
+
+// The right column in the order students see it. Seeded by block id so every render and copy agrees.
+export const getMatchItems = (block: QuestionBlock): string[] => {
+  const items = [...getMatchPairs(block).map(p => p.right), ...(block.distractors || []).filter(d => d.trim())];
+  return block.shuffle ? seededShuffle(items, block.id) : items;
+};
+
+// Ordering items in their correct order, without blank ones
+export const getOrderKey = (block: QuestionBlock) => (block.options || []).filter(item => item.trim());
+
+// The order a student first sees. Never the solution itself, unless every item is the same.
+export const getOrderShuffle = (block: QuestionBlock, seed: string): string[] => {
+  const key = getOrderKey(block);
+  const shuffled = seededShuffle(key, `${block.id}:${seed}`);
+  if (key.length > 1 && shuffled.every((item, i) => item === key[i])) return [...shuffled.slice(1), shuffled[0]];
+  return shuffled;
+};
+
+// Dropdown choices in the order a student sees them. Shuffled per student and gap, as the key is usually written first.
+export const getDropdownOptions = (block: QuestionBlock, gapKey: string, raw: string, seed: string): string[] =>
+  seededShuffle(parseDropdownGap(raw).options, `${block.id}:${gapKey}:${seed}`);
+
+// Hotspots that have a label; students see them numbered in this order
+export const getLabelHotspots = (block: QuestionBlock) => (block.hotspots || []).filter(h => h.label.trim());
+
+// The label bank: every hotspot label plus distractors, alphabetically so the order gives nothing away
+export const getLabelBank = (block: QuestionBlock) =>
+  [...getLabelHotspots(block).map(h => h.label), ...(block.distractors || []).filter(d => d.trim())].sort((a, b) => a.localeCompare(b));
+
+export const isGradable = (block: QuestionBlock) => {
+  if (block.qType === 'multiple-choice') return getChoiceKey(block).length > 0;
+  if (block.qType === 'matching') return getMatchPairs(block).length > 0;
+  if (block.qType === 'ordering') return getOrderKey(block).length > 1;
+  if (block.qType === 'image-label') return getLabelHotspots(block).length > 0;
+  if (block.qType === 'numeric') return !!block.numeric && validateNumericKey(block.numeric) === null;
+  if (block.qType === 'table') return getTableGaps(block).length > 0;
+  if (block.qType === 'cloze-text' || block.qType === 'cloze-dropdown' || block.qType === 'drag-inline') return Object.keys(getGapKeys(block)).length > 0;
+  return false;
+};
+
+const gradeChoice = (block: QuestionBlock, answer: any): QuestionResult => {
+  const key = getChoiceKey(block);
+  const given: string[] = Array.isArray(answer) ? answer : (typeof answer === 'string' ? [answer] : []);
+  const correct = block.multiSelect
+    ? given.length === key.length && key.every(k => given.includes(k))
+    : given.length === 1 && given[0] === key[0];
+  return { blockId: block.id, score: correct ? 1 : 0, maxScore: 1, correct, expected: block.multiSelect ? key : key.slice(0, 1) };
+};
+
+const gradeGaps = (block: QuestionBlock, answer: any): QuestionResult => {
+  const keys = getGapKeys(block);
+  const given: Record<string, any> = answer && typeof answer === 'object' ? answer : {};
+  const gaps: GapResult[] = parseGaps(block.listItems).map(({ key, raw }) => {
+    const value = typeof given[key] === 'string' ? given[key] : '';
+    return { key, given: value, expected: keys[key], correct: matchesGap(block, raw, value) };
+  });
+  const score = gaps.filter(g => g.correct).length;
+  return { blockId: block.id, score, maxScore: gaps.length, correct: score === gaps.length, gaps };
+};
+
+// One point per pair (or hotspot); answers map the pair or hotspot id to the chosen item
+const gradePlacements = (block: QuestionBlock, answer: any, targets: { key: string, expected: string, label: string }[]): QuestionResult => {
+  const given: Record<string, any> = answer && typeof answer === 'object' ? answer : {};
+  const gaps: GapResult[] = targets.map(({ key, expected, label }) => {
+    const value = typeof given[key] === 'string' ? given[key] : '';
+    return { key, given: value, expected, correct: value === expected, label };
+  });
+  const score = gaps.filter(g => g.correct).length;
+  return { blockId: block.id, score, maxScore: gaps.length, correct: score === gaps.length, gaps };
+};
+
+// Exact: one point for the whole sequence. Adjacent: a point for each neighbouring pair of the key that the student
+// also placed next to each other in the same order, so one misplaced item doesn't cost every point.
+// A question the student never touched is graded in the order it was shown, when their seed is known.
+const gradeOrdering = (block: QuestionBlock, answer: any, seed?: string): QuestionResult => {
+  const key = getOrderKey(block);
+  const given: string[] = Array.isArray(answer) ? answer.filter((a: unknown) => typeof a === 'string')
+    : seed !== undefined ? getOrderShuffle(block, seed) : [];
+  const exact = given.length === key.length && key.every((item, i) => given[i] === item);
+  if (block.orderScoring !== 'adjacent') return { blockId: block.id, score: exact ? 1 : 0, maxScore: 1, correct: exact, expected: key };
+  let score = 0;
+  for (let i = 0; i < key.length - 1; i++) {
+    if (given.some((item, j) => item === key[i] && given[j + 1] === key[i + 1])) score++;
+  }
+  return { blockId: block.id, score, maxScore: key.length - 1, correct: exact, expected: key };
+};
+
+// A point per answerable cell. Checkbox answers are true/false, the other cells strings.
+const gradeTable = (block: QuestionBlock, answer: any): QuestionResult => {
+  const given: Record<string, any> = answer && typeof answer === 'object' ? answer : {};
+  const gaps: GapResult[] = getTableGaps(block).map(({ key, row, col, cell }) => {
+    const expected = getCellKey(cell);
+    const label = `Row ${row + 1}, column ${col + 1}`;
+    if (cell.kind === 'checkbox') {
+      const value = given[key] === true ? 'ticked' : 'not ticked';
+      return { key, given: value, expected, correct: value === expected, label };
+    }
+    const value = typeof given[key] === 'string' ? given[key] : '';
+    const raw = parseCellGap(cell.content);
+    const correct = cell.kind === 'dropdown' ? value === parseDropdownGap(raw).correct : matchGapRule(parseGapRule(raw), value, block.matching);
+    return { key, given: value, expected, correct, label };
+  });
+  const score = gaps.filter(g => g.correct).length;
+  return { blockId: block.id, score, maxScore: gaps.length, correct: score === gaps.length, gaps };
+};
+
+// `seed` is the student's getStudentSeed(), which decides the order ordering questions are shown in
+export const gradeQuestion = (block: QuestionBlock, answer: any, seed?: string): QuestionResult | null => {
+  if (!isGradable(block)) return null;
+  if (block.qType === 'multiple-choice') return gradeChoice(block, answer);
+  if (block.qType === 'matching') return gradePlacements(block, answer, getMatchPairs(block).map(p => ({ key: p.id, expected: p.right, label: p.left })));
+  if (block.qType === 'image-label') return gradePlacements(block, answer, getLabelHotspots(block).map((h, idx) => ({ key: h.id, expected: h.label, label: `Spot ${idx + 1}` })));
+  if (block.qType === 'ordering') return gradeOrdering(block, answer, seed);
+  if (block.qType === 'table') return gradeTable(block, answer);
+  if (block.qType === 'numeric') {
+    const correct = typeof answer === 'string' && checkNumericAnswer(answer, block.numeric!, block.id);
+    return { blockId: block.id, score: correct ? 1 : 0, maxScore: 1, correct, expected: [describeNumericKey(block.numeric!)] };
+  }
+  return gradeGaps(block, answer);
+};
+
+export const gradeWorksheet = (data: WorksheetData, answers: Record<string, any>, seed?: string): GradeReport => {
+  const results: Record<string, QuestionResult> = {};
+  let score = 0;
+  let maxScore = 0;
+  collectQuestions(data.blocks).forEach(q => {
+    const result = gradeQuestion(q, answers[q.id], seed);
+    if (!result) return;
+    results[q.id] = result;
+    score += result.score;
+    maxScore += result.maxScore;
+  });
+  return { score, maxScore, results };
+};
@@ -1,4 +1,41 @@
 import { Block, BlockType, GroupBlock, QuestionBlock, QuestionType, TextBlock, WorksheetData } from "./types";
+import { CURRENT_SCHEMA_VERSION, LoadedWorksheet, loadWorksheet } from "./schema";
+
+// Helper to convert number to Roman numeral
+export const toRoman = (num: number) => {
+  const roman: {[key: string]: number} = { m: 1000, cm: 900, d: 500, cd: 400, c: 100, xc: 90, l: 50, xl: 40, x: 10, ix: 9, v: 5, iv: 4, i: 1 };
+  let str = '';
+  for (const i of Object.keys(roman)) {
+    const q = Math.floor(num / roman[i]);
+    num -= q * roman[i];
+    str += i.repeat(q);
+  }
+  return str;
+}
+
+// 1. / a. / i. style numbering by nesting depth
+export const getNumbering = (depth: number, index: number) => {
+  if (depth === 0) return `${index + 1}.`;
+  if (depth === 1) return `${String.fromCharCode(97 + index)}.`;
+  if (depth >= 2) return `${toRoman(index + 1)}.`;
+  return '';
+}
+
+// Labels for the right column of matching questions: A, B, C ...
+export const getMatchLetter = (index: number) => (index < 26 ? String.fromCharCode(65 + index) : String(index + 1));
+
+// Full labels like "2", "2.b" or "2.b.iii" for every question, matching the numbering shown in the player
+export const getQuestionLabels = (blocks: Block[], prefix = '', depth = 0): Record<string, string> => {
+  const labels: Record<string, string> = {};
+  let counter = 0;
+  blocks.forEach(b => {
+    if (b.type !== 'question' && b.type !== 'group') return;
+    const label = prefix + getNumbering(depth, counter++).replace('.', '');
+    if (b.type === 'question') labels[b.id] = label;
+    else Object.assign(labels, getQuestionLabels((b as GroupBlock).children, `${label}.`, depth + 1));
+  });
+  return labels;
+};
 
 export const generateId = () => Math.random().toString(36).substr(2, 9);
 
@@ -12,6 +49,11 @@ export const createBlock = (type: BlockType, qType?: QuestionType): Block => {
         case 'cloze-text': defaultPrompt = "Fill in the missing words"; break;
         case 'cloze-dropdown': defaultPrompt = "Select the correct options"; break;
         case 'drag-inline': defaultPrompt = "Drag and drop the words"; break;
+        case 'matching': defaultPrompt = "Match each item to its pair"; break;
+        case 'ordering': defaultPrompt = "Put these steps in the right order"; break;
+        case 'image-label': defaultPrompt = "Label the diagram"; break;
+        case 'numeric': defaultPrompt = "Calculate the answer"; break;
+        case 'table': defaultPrompt = "Complete the table"; break;
     }
 
     return { 
@@ -22,7 +64,23 @@ export const createBlock = (type: BlockType, qType?: QuestionType): Block => {
       listItems: qType === 'cloze-text' ? ['The capital of France is [Paris].'] : 
                  qType === 'cloze-dropdown' ? ['The sky is [blue|green|red].'] : 
                  qType === 'drag-inline' ? ['The [cat] sat on the [mat].'] : undefined,
-      options: qType === 'multiple-choice' ? ['Option 1', 'Option 2'] : undefined 
+      options: qType === 'multiple-choice' ? ['Option 1', 'Option 2'] :
+               qType === 'ordering' ? ['First step', 'Second step', 'Third step'] : undefined,
+      ...(qType === 'image-label' ? { diagram: '', hotspots: [], distractors: [] } : {}),
+      ...(qType === 'table' ? {
+        headerRow: true,
+        cells: [
+          [{ kind: 'text', content: '' }, { kind: 'text', content: 'Present' }, { kind: 'text', content: 'Past' }],
+          [{ kind: 'text', content: 'I' }, { kind: 'gap', content: '[walk]' }, { kind: 'gap', content: '[walked]' }],
+          [{ kind: 'text', content: 'she' }, { kind: 'gap', content: '[walks]' }, { kind: 'dropdown', content: '[walk|*walked|walking]' }]
+        ]
+      } : {}),
+      ...(qType === 'numeric' ? { numeric: { kind: 'number', answer: '', tolerance: 0, toleranceMode: 'absolute', unit: '' } } : {}),
+      ...(qType === 'matching' ? {
+        pairs: [{ id: generateId(), left: 'Dog', right: 'Puppy' }, { id: generateId(), left: 'Cat', right: 'Kitten' }],
+        distractors: [],
+        shuffle: true
+      } : {})
     };
   } else if (type === 'text') {
     return { id, type: 'text', content: '### Instructions\n\nEnter your text instructions here...' };
@@ -35,22 +93,59 @@ export const createBlock = (type: BlockType, qType?: QuestionType): Block => {
   }
 };
 
-export const encodeState = (data: WorksheetData) => {
+// Share links: "v2:" + base64url(deflate(UTF-8 JSON)). Links without a prefix are the original btoa(JSON) format.
+const SHARE_LINK_VERSION = 2;
+// Some email and chat apps cut off links longer than this; the publish dialog warns above it
+export const SHARE_LINK_WARN_LENGTH = 16000;
+
+export const transformBytes = async (bytes: BlobPart, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+export const encodeState = async (data: WorksheetData) => {
+  const json = new TextEncoder().encode(JSON.stringify(data));
+  const compressed = await transformBytes(json, new CompressionStream('deflate'));
+  return `v${SHARE_LINK_VERSION}:${toBase64Url(compressed)}`;
+};
+
+// Accepts the raw payload or a full "#data=..." hash. Throws with a message suitable for showing to the user.
+export const decodeState = async (hash: string): Promise<LoadedWorksheet> => {
+  const payload = hash.replace(/^#?data=/, '');
+  const version = /^v(\d+):/.exec(payload);
+
+  if (version && Number(version[1]) > SHARE_LINK_VERSION) {
+    throw new Error("This worksheet link was made with a newer version of Worksheeter.");
+  }
+
+  let json: string;
   try {
-    return btoa(JSON.stringify(data));
+    if (version) {
+      const bytes = await transformBytes(fromBase64Url(payload.slice(version[0].length)), new DecompressionStream('deflate'));
+      json = new TextDecoder().decode(bytes);
+    } else {
+      json = atob(decodeURIComponent(payload));
+    }
   } catch (e) {
-    console.error("Failed to encode", e);
-    return "";
+    throw new Error("This worksheet link is damaged or incomplete.");
   }
-};
 
-export const decodeState = (hash: string): WorksheetData | null => {
+  let raw: unknown;
   try {
-    const json = atob(hash.replace("#data=", ""));
-    return JSON.parse(json);
+    raw = JSON.parse(json);
   } catch (e) {
-    return null;
+    throw new Error("This worksheet link is damaged or incomplete.");
   }
+  return loadWorksheet(raw);
 };
 
 export const duplicateBlockHelper = (block: Block): Block => {
@@ -61,6 +156,30 @@ export const duplicateBlockHelper = (block: Block): Block => {
   return { ...block, id: newId };
 };
 
+// Copied blocks travel through the clipboard as JSON text, so they also paste into a worksheet in another tab
+const CLIPBOARD_FORMAT = 'worksheeter-blocks';
+
+export const serializeBlocks = (blocks: Block[]) =>
+  JSON.stringify({ format: CLIPBOARD_FORMAT, schemaVersion: CURRENT_SCHEMA_VERSION, blocks });
+
+// Null for any other clipboard text. Pasted blocks are validated like a loaded worksheet and get fresh ids.
+export const parseCopiedBlocks = (text: string): Block[] | null => {
+  try {
+    const raw = JSON.parse(text);
+    if (!raw || raw.format !== CLIPBOARD_FORMAT || !Array.isArray(raw.blocks)) return null;
+    return loadWorksheet({ schemaVersion: raw.schemaVersion, blocks: raw.blocks }).data.blocks.map(duplicateBlockHelper);
+  } catch (e) {
+    return null;
+  }
+};
+
+// Focuses an editor block after React has rendered it: the block itself for keyboard navigation, or its first field
+export const focusBlock = (id: string, edit = false) => requestAnimationFrame(() => {
+  const wrapper = document.querySelector<HTMLElement>(`[data-block-id="${id}"]`);
+  const target = edit ? wrapper?.querySelector<HTMLElement>('textarea, input:not([type=checkbox]):not([type=file])') : wrapper;
+  target?.focus();
+});
+
 export const createDragPreview = (label: string) => {
   const ghost = document.createElement('div');
   ghost.textContent = label;
@@ -80,7 +199,7 @@ export const createDragPreview = (label: string) => {
   return ghost;
 };
 
-export const downloadFile = (filename: string, content: string, contentType: string) => {
+export const downloadFile = (filename: string, content: BlobPart, contentType: string) => {
   const blob = new Blob([content], { type: contentType });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
@@ -88,4 +207,81 @@ export const downloadFile = (filename: string, content: string, contentType: str
   a.download = filename;
   a.click();
   URL.revokeObjectURL(url);
-};
\ No newline at end of file
+};
+
+// JSON.stringify with sorted object keys, so equal data always serialises (and hashes) the same
+export const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(v => stableStringify(v === undefined ? null : v)).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().filter(k => value[k] !== undefined).map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// Fast non-cryptographic 53-bit string hash (cyrb53), returned as hex
+export const hashString = (str: string, seed = 0) => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+// Deterministic random numbers in [0, 1) (mulberry32): the same seed always gives the same sequence
+export const seededRandom = (seed: string) => {
+  let state = parseInt(hashString(seed).slice(-8), 16);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Deterministic shuffle, e.g. stable across re-renders and print copies
+export const seededShuffle = <T>(items: T[], seed: string): T[] => {
+  const random = seededRandom(seed);
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+// Random per-browser seed, so each student sees their own (but stable) shuffle of ordering questions
+const STUDENT_SEED_KEY = 'worksheeter:student-seed';
+
+export const getStudentSeed = () => {
+  try {
+    let seed = localStorage.getItem(STUDENT_SEED_KEY);
+    if (!seed) {
+      seed = generateId();
+      localStorage.setItem(STUDENT_SEED_KEY, seed);
+    }
+    return seed;
+  } catch (e) {
+    // Storage can be blocked; the block id alone still gives a stable order
+    return '';
+  }
+};
+
+export const hashWorksheet = (data: WorksheetData) => hashString(stableStringify(data));
+
+export const slugify = (value: string) =>
+  value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Splits top-level blocks into pages at divider blocks (the dividers themselves are dropped)
+export const splitIntoPages = (blocks: Block[]): Block[][] => {
+  const pages: Block[][] = [[]];
+  blocks.forEach(block => {
+    if (block.type === 'divider') pages.push([]);
+    else pages[pages.length - 1].push(block);
+  });
+  return pages.filter((page, idx) => idx === 0 || page.length > 0);
+};
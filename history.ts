@@ -0,0 +1,66 @@
+import { useState, useRef, useCallback } from "react";
+
+// Undo/redo stack for editor state. Consecutive updates that share a coalesce key within COALESCE_MS
+// (e.g. keystrokes in one textarea) are merged into a single undo step.
+
+const COALESCE_MS = 1000;
+const HISTORY_LIMIT = 100;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export const useHistory = <T>(initial: T) => {
+  const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+  const lastEdit = useRef<{ key?: string, time: number }>({ time: 0 });
+
+  const set = useCallback((next: T | ((prev: T) => T), coalesceKey?: string) => {
+    const now = Date.now();
+    const coalesce = !!coalesceKey && lastEdit.current.key === coalesceKey && now - lastEdit.current.time < COALESCE_MS;
+    lastEdit.current = { key: coalesceKey, time: now };
+
+    setHistory(h => {
+      const value = typeof next === 'function' ? (next as (prev: T) => T)(h.present) : next;
+      if (value === h.present) return h;
+      return {
+        past: coalesce ? h.past : [...h.past, h.present].slice(-HISTORY_LIMIT),
+        present: value,
+        future: [],
+      };
+    });
+  }, []);
+
+  // Replaces the state without recording a step, e.g. when a worksheet is loaded
+  const reset = useCallback((value: T) => {
+    lastEdit.current = { time: 0 };
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastEdit.current = { time: 0 };
+    setHistory(h => {
+      if (h.past.length === 0) return h;
+      return { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastEdit.current = { time: 0 };
+    setHistory(h => {
+      if (h.future.length === 0) return h;
+      return { past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1) };
+    });
+  }, []);
+
+  return {
+    present: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -0,0 +1,68 @@
+// Uploaded images are stored inline as data URIs so share links and .wks files stay self-contained.
+// Anything bigger than the budget is downscaled and re-encoded in the browser first.
+const IMAGE_MAX_SIDE = 1600;
+const IMAGE_BUDGET = 200 * 1024; // Characters of data URI per image
+
+const readAsDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(new Error("Couldn't read the image file."));
+  reader.readAsDataURL(file);
+});
+
+const loadImage = (file: Blob) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+  img.onerror = () => { URL.revokeObjectURL(url); reject(new Error("This file isn't an image the browser can open.")); };
+  img.src = url;
+});
+
+const hasTransparency = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  for (let i = 3; i < pixels.length; i += 4) if (pixels[i] < 255) return true;
+  return false;
+};
+
+// The first image file in a paste or drop, if any
+export const getImageFile = (transfer: DataTransfer | null): File | null =>
+  Array.from(transfer?.files || []).find(file => file.type.startsWith('image/')) || null;
+
+export const isDataUrl = (src: string | null | undefined) => !!src && src.startsWith('data:');
+
+// Approximate decoded size of a data URI, for display
+export const getDataUrlSize = (src: string) => Math.round((src.length - src.indexOf(',') - 1) * 0.75);
+
+export const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Turns an uploaded file into a data URI under IMAGE_BUDGET. Throws with a message suitable for showing to the user.
+export const encodeImage = async (file: Blob): Promise<string> => {
+  if (!file.type.startsWith('image/')) throw new Error('Only image files can be added.');
+  const img = await loadImage(file);
+  const longest = Math.max(img.naturalWidth, img.naturalHeight);
+  if (!longest) throw new Error("This image has no size, so it can't be embedded.");
+
+  // Small files are kept as they are, which also keeps animated GIFs and SVGs intact
+  if (file.size * 4 / 3 < IMAGE_BUDGET && longest <= IMAGE_MAX_SIDE) return readAsDataUrl(file);
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  let scale = Math.min(1, IMAGE_MAX_SIDE / longest);
+  let transparent: boolean | null = null;
+  for (let attempt = 0; attempt < 8; attempt++) {
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    if (transparent === null) transparent = hasTransparency(ctx, canvas.width, canvas.height);
+    // JPEG has no alpha channel; WebP does (browsers that can't encode it fall back to PNG)
+    const type = transparent ? 'image/webp' : 'image/jpeg';
+    for (const quality of [0.85, 0.7, 0.55]) {
+      const url = canvas.toDataURL(type, quality);
+      if (url.length <= IMAGE_BUDGET) return url;
+    }
+    scale *= 0.75;
+  }
+  throw new Error('This image is too detailed to embed, even after shrinking it. Try cropping it first.');
+};
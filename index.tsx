@@ -1,7 +1,8 @@
-import React from "react";
 import { createRoot } from "react-dom/client";
 import { Builder } from "./QuestionBoard";
 import { Answer } from "./components/Answer";
+import { Results } from "./components/Results";
+import { isOfflineWorksheet } from "./offline";
 
 const App = () => {
   // Simple hash-based routing or pathname check
@@ -10,10 +11,15 @@ const App = () => {
   // We'll use pathname check as requested "/answer".
   const path = window.location.pathname;
 
-  if (path === "/answer") {
+  // An offline worksheet file opens straight into the player, whatever its path
+  if (path === "/answer" || isOfflineWorksheet()) {
     return <Answer />;
   }
 
+  if (path === "/results") {
+    return <Results />;
+  }
+
   return <Builder />;
 };
 
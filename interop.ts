@@ -0,0 +1,223 @@
+import { Block, GroupBlock, QuestionBlock, WorksheetData } from "./types";
+import { generateId } from "./helpers";
+import { markdownToText } from "./markdown";
+import { parseDropdownGap, parseGapRule, parseGaps } from "./gaps";
+import { exportQti, importQti } from "./qti";
+import { exportMoodleXml, importMoodleXml } from "./moodle";
+import { exportGift, importGift } from "./gift";
+
+// Import and export for learning management systems: QTI 2.1 packages (qti.ts), Moodle XML (moodle.ts) and GIFT
+// (gift.ts). Multiple choice, cloze text, cloze dropdown, drag-inline and open answers are mapped, groups become
+// sections or categories. Whatever a format can't hold is listed in `issues`, never dropped silently.
+
+export type LmsFormat = 'qti' | 'moodle-xml' | 'gift';
+
+export interface LmsImport {
+  title?: string;
+  blocks: Block[];
+  issues: string[];
+}
+
+export interface LmsExport {
+  filename: string;
+  content: BlobPart;
+  contentType: string;
+  issues: string[];
+}
+
+export const LMS_FORMATS: { format: LmsFormat, label: string, description: string }[] = [
+  { format: 'qti', label: 'QTI 2.1 package (.zip)', description: 'Canvas, Blackboard, Brightspace, Inspera and most other LMSs' },
+  { format: 'moodle-xml', label: 'Moodle XML (.xml)', description: 'Moodle question bank, keeps images and groups as categories' },
+  { format: 'gift', label: 'GIFT (.txt)', description: 'Plain-text Moodle format; one gap per cloze question' },
+];
+
+export const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// Short human name for a block in issue messages, e.g. 'Question 3 ("Which of these…")'
+export const describeBlock = (block: Block, number?: number) => {
+  const excerpt = (text: string) => {
+    const plain = markdownToText(text).trim();
+    return plain.length > 40 ? `${plain.slice(0, 40)}…` : plain;
+  };
+  if (block.type === 'question') return `Question ${number ?? ''} ${block.prompt.trim() ? `("${excerpt(block.prompt)}")` : ''}`.replace(/\s+/g, ' ').trim();
+  if (block.type === 'group') return block.title ? `Group "${block.title}"` : 'An untitled group';
+  if (block.type === 'text') return `Text block "${excerpt(block.content)}"`;
+  if (block.type === 'embed') return `Embed "${block.title || block.url}"`;
+  return 'A page break';
+};
+
+// The LMS formats can't express every cloze gap. Returns why a question can't be exported, or null if it can.
+export const getExportProblem = (q: QuestionBlock): string | null => {
+  if (!['multiple-choice', 'cloze-text', 'cloze-dropdown', 'drag-inline', 'open-answer'].includes(q.qType)) {
+    return `${q.qType.replace('-', ' ')} questions have no equivalent in this format`;
+  }
+  if (q.qType === 'multiple-choice' && !(q.options || []).length) return 'it has no options';
+  if (q.qType === 'cloze-text' || q.qType === 'cloze-dropdown' || q.qType === 'drag-inline') {
+    const gaps = parseGaps(q.listItems);
+    if (!gaps.length) return 'it has no gaps';
+    if (q.qType === 'cloze-text' && gaps.some(g => parseGapRule(g.raw).kind === 'regex')) return 'regular-expression gaps have no equivalent in this format';
+    if (q.qType === 'cloze-dropdown' && gaps.some(g => parseDropdownGap(g.raw).options.length < 2)) return 'a dropdown gap has fewer than two choices';
+  }
+  return null;
+};
+
+// Answer-matching options that the formats can't carry; the question is still exported
+export const describeLostMatching = (q: QuestionBlock) => [
+  q.matching?.ignoreWhitespace && '"Ignore extra spaces"',
+  q.matching?.ignoreDiacritics && '"Ignore accents"',
+].filter(Boolean).join(' and ');
+
+// Page breaks have no equivalent in any of the formats
+export const describeLostBreaks = (blocks: Block[]) => {
+  const count = (list: Block[]): number => list.reduce((n, b) => n + (b.type === 'divider' ? 1 : b.type === 'group' ? count(b.children) : 0), 0);
+  const breaks = count(blocks);
+  return breaks ? `${breaks} page break${breaks === 1 ? ' was' : 's were'} left out; this format has no page breaks.` : null;
+};
+
+export const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) throw new Error("This file isn't valid XML.");
+  return doc;
+};
+
+// Elements by local name, whatever namespace prefix the file uses
+export const findAll = (root: Element | Document, name: string): Element[] =>
+  Array.from(root.getElementsByTagName('*')).filter(el => el.localName === name);
+
+export const findChild = (root: Element, name: string): Element | undefined =>
+  Array.from(root.children).find(el => el.localName === name);
+
+export const findChildren = (root: Element, name: string): Element[] =>
+  Array.from(root.children).filter(el => el.localName === name);
+
+const BLOCK_TAGS = ['p', 'div', 'blockquote', 'pre', 'ul', 'ol', 'li', 'table', 'tr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr'];
+
+// Markdown for HTML from another system. `replace` lets a caller swap elements for something else, e.g. an
+// interaction for a [gap]; `escapeBrackets` keeps literal brackets from being read as gaps.
+export const htmlToMarkdown = (root: Node, replace?: (el: Element) => string | null, escapeBrackets = false): string => {
+  const inline = (node: Node): string => {
+    if (node.nodeType === 3 || node.nodeType === 4) {
+      let text = (node.textContent || '').replace(/\s+/g, ' ');
+      // MathJax delimiters back to the $...$ the editor uses
+      text = text.replace(/\\\((.+?)\\\)/g, '$$$1$$').replace(/\\\[(.+?)\\\]/g, '$$$$$1$$$$');
+      return escapeBrackets ? text.replace(/([[\]])/g, '\\$1') : text;
+    }
+    if (node.nodeType !== 1) return '';
+    const el = node as Element;
+    const replaced = replace?.(el);
+    if (replaced != null) return replaced;
+    const inner = () => Array.from(el.childNodes).map(inline).join('');
+    switch (el.localName) {
+      case 'br': return '\n';
+      case 'strong': case 'b': return `**${inner().trim()}**`;
+      case 'em': case 'i': return `*${inner().trim()}*`;
+      case 'code': return `\`${el.textContent}\``;
+      case 'a': return `[${inner()}](${el.getAttribute('href') || ''})`;
+      case 'img': return `![${el.getAttribute('alt') || ''}](${el.getAttribute('src') || ''})`;
+      case 'script': case 'style': return '';
+    }
+    if (!BLOCK_TAGS.includes(el.localName)) return inner();
+    const body = inner().trim();
+    switch (el.localName) {
+      case 'li': return `\n- ${body}\n`;
+      case 'hr': return '\n\n---\n\n';
+      case 'pre': return `\n\n\`\`\`\n${el.textContent}\n\`\`\`\n\n`;
+      case 'blockquote': return `\n\n${body.split('\n').map(l => `> ${l}`).join('\n')}\n\n`;
+      case 'tr': return `\n${Array.from(el.children).map(cell => inline(cell).trim()).join(' | ')}\n`;
+    }
+    if (/^h[1-6]$/.test(el.localName)) return `\n\n${'#'.repeat(Number(el.localName[1]))} ${body}\n\n`;
+    return `\n\n${body}\n\n`;
+  };
+  return inline(root).split('\n').map(l => l.trim()).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+// Splits a question's HTML into prompt, description, image and the lines that hold gaps. Worksheeter's own exports
+// mark the prompt and description with classes; in other files the prompt is everything without a gap.
+export const readQuestionHtml = (body: Element, hasGap: (el: Element) => boolean) => {
+  // Loose text straight in the body (common in Moodle) is wrapped so every line is an element
+  let run: Node[] = [];
+  const wrapRun = () => {
+    if (run.some(n => n.nodeType === 3 && (n.textContent || '').trim())) {
+      const p = body.ownerDocument.createElementNS(body.namespaceURI, 'p');
+      body.insertBefore(p, run[0]);
+      run.forEach(n => p.appendChild(n));
+    }
+    run = [];
+  };
+  Array.from(body.childNodes).forEach(node => {
+    if (node.nodeType === 1 && BLOCK_TAGS.includes((node as Element).localName)) wrapRun();
+    else run.push(node);
+  });
+  wrapRun();
+
+  const children = Array.from(body.children);
+  const marked = (cls: string) => children.find(el => (el.getAttribute('class') || '').split(/\s+/).includes(cls));
+  const promptEl = marked('prompt');
+  const descriptionEl = marked('description');
+  const imageEl = children.find(el => el.localName === 'p' && el.children.length === 1 && el.children[0].localName === 'img' && !(el.textContent || '').trim());
+  const rest = children.filter(el => el !== promptEl && el !== descriptionEl && el !== imageEl && !hasGap(el));
+  const description = descriptionEl && htmlToMarkdown(descriptionEl);
+  const image = imageEl?.children[0].getAttribute('src');
+  return {
+    question: {
+      id: generateId(),
+      type: 'question' as const,
+      prompt: promptEl ? htmlToMarkdown(promptEl) : rest.map(el => htmlToMarkdown(el)).filter(Boolean).join('\n\n'),
+      ...(description ? { description } : {}),
+      ...(image ? { image } : {}),
+    },
+    lines: children.filter(hasGap),
+  };
+};
+
+// Moodle and GIFT files file questions under category paths like $course$/top/Cells/Cell parts. The first category
+// is the worksheet itself; each level below it is a (nested) group.
+export const createCategoryGrouper = () => {
+  const blocks: Block[] = [];
+  let root: string[] | null = null;
+  let group: GroupBlock | null = null;
+  const setCategory = (path: string) => {
+    const parts = path.split(/(?<!\/)\/(?!\/)/).map(p => p.replace(/\/\//g, '/').trim()).filter(p => p && p !== 'top' && !/^\$\w+\$$/.test(p));
+    if (!root) {
+      root = parts;
+      return;
+    }
+    const rest = root.every((p, i) => parts[i] === p) ? parts.slice(root.length) : parts;
+    group = null;
+    for (const title of rest) {
+      const siblings: Block[] = group ? group.children : blocks;
+      let next = siblings.find((b): b is GroupBlock => b.type === 'group' && b.title === title);
+      if (!next) {
+        next = { id: generateId(), type: 'group', title, children: [] };
+        siblings.push(next);
+      }
+      group = next;
+    }
+  };
+  const add = (block: Block) => (group ? group.children : blocks).push(block);
+  const getTitle = () => (root ? root[root.length - 1] : undefined);
+  return { blocks, setCategory, add, getTitle };
+};
+
+// Category path for a group title; Moodle escapes a slash inside a name by doubling it
+export const categoryPath = (...names: string[]) => ['$course$/top', ...names.map(n => n.replace(/\//g, '//'))].join('/');
+
+export const exportForLms = (format: LmsFormat, data: WorksheetData): Promise<LmsExport> => {
+  if (format === 'qti') return exportQti(data);
+  return Promise.resolve(format === 'moodle-xml' ? exportMoodleXml(data) : exportGift(data));
+};
+
+// Picks the importer from the file: a zip is a QTI package, XML is QTI or Moodle by its root element, anything else GIFT
+export const importLmsFile = async (file: File): Promise<LmsImport> => {
+  if (/\.zip$/i.test(file.name)) return importQti(file);
+  const text = await file.text();
+  if (/^\s*(<\?xml|<)/.test(text)) {
+    const doc = parseXml(text);
+    const root = doc.documentElement.localName;
+    if (root === 'quiz') return importMoodleXml(doc);
+    if (root === 'assessmentItem' || root === 'assessmentTest') return importQti(file);
+    throw new Error(`This XML file isn't a QTI item or a Moodle question export (its root element is <${root}>).`);
+  }
+  return importGift(text);
+};
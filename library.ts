@@ -0,0 +1,192 @@
+import { BankItem, BankTags, Block, LibraryEntry, WorksheetData } from "./types";
+import { generateId, slugify } from "./helpers";
+import { CURRENT_SCHEMA_VERSION, isObject, loadWorksheet, readWorksheetFile } from "./schema";
+import { markdownToText } from "./markdown";
+import { createZip, readZip } from "./zip";
+
+// Local worksheet library. Drafts are autosaved to IndexedDB; the id of the draft open in the Builder is kept in
+// localStorage so a reload picks up where the teacher left off. The question bank lives in a second store.
+
+const DB_NAME = 'worksheeter';
+const STORE = 'worksheets';
+const BANK_STORE = 'bank';
+const CURRENT_KEY = 'worksheeter:current-draft';
+const MANIFEST = 'library.json';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 2);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(BANK_STORE)) db.createObjectStore(BANK_STORE, { keyPath: 'id' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Allow a later call to retry, e.g. after the user re-enables storage
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const request = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>, storeName = STORE) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const req = run(db.transaction(storeName, mode).objectStore(storeName));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+// Most recently edited first
+export const listWorksheets = async () =>
+  (await request<LibraryEntry[]>('readonly', store => store.getAll())).sort((a, b) => b.updatedAt - a.updatedAt);
+
+export const getWorksheet = (id: string) => request<LibraryEntry | undefined>('readonly', store => store.get(id));
+
+export const putWorksheet = (entry: LibraryEntry) => request('readwrite', store => store.put(entry));
+
+export const deleteWorksheet = (id: string) => request('readwrite', store => store.delete(id));
+
+// Keeps the original creation date when the draft already exists
+export const saveDraft = async (id: string, data: WorksheetData) => {
+  const existing = await getWorksheet(id);
+  const now = Date.now();
+  await putWorksheet({ id, data, createdAt: existing?.createdAt || now, updatedAt: now });
+};
+
+export const getCurrentDraftId = () => localStorage.getItem(CURRENT_KEY);
+
+export const setCurrentDraftId = (id: string) => localStorage.setItem(CURRENT_KEY, id);
+
+// One .wks file per worksheet plus a manifest, so a restore keeps ids and dates. The .wks files can also be opened on their own.
+export const exportLibrary = async (entries: LibraryEntry[]) => {
+  const files = entries.map(entry => ({ ...entry, file: `${slugify(entry.data.title) || 'worksheet'}-${entry.id}.wks` }));
+  const manifest = files.map(({ id, file, createdAt, updatedAt }) => ({ id, file, createdAt, updatedAt }));
+  return createZip([
+    { name: MANIFEST, content: JSON.stringify({ format: 'worksheeter-library', version: 1, worksheets: manifest }, null, 2) },
+    ...files.map(f => ({ name: f.file, content: JSON.stringify(f.data) })),
+  ]);
+};
+
+// Worksheets listed in the manifest replace the library entry with the same id; any other .wks file is added as new
+export const importLibrary = async (blob: Blob) => {
+  const files = await readZip(blob);
+  let manifest: { id: string, file: string, createdAt: number, updatedAt: number }[] = [];
+  const manifestFile = files.find(f => f.name === MANIFEST);
+  if (manifestFile) {
+    try {
+      const parsed = JSON.parse(manifestFile.content);
+      if (Array.isArray(parsed.worksheets)) manifest = parsed.worksheets;
+    } catch (e) {
+      // Without a usable manifest every worksheet is imported as new
+    }
+  }
+
+  let imported = 0;
+  const errors: string[] = [];
+  for (const file of files) {
+    if (!/\.(wks|json)$/i.test(file.name) || file.name === MANIFEST) continue;
+    try {
+      const { data } = readWorksheetFile(file.content);
+      const meta = manifest.find(m => m.file === file.name);
+      const now = Date.now();
+      await putWorksheet({
+        id: typeof meta?.id === 'string' && meta.id ? meta.id : generateId(),
+        data,
+        createdAt: typeof meta?.createdAt === 'number' ? meta.createdAt : now,
+        updatedAt: typeof meta?.updatedAt === 'number' ? meta.updatedAt : now,
+      });
+      imported++;
+    } catch (e) {
+      errors.push(`${file.name}: ${(e as Error).message}`);
+    }
+  }
+  if (imported === 0 && errors.length === 0) throw new Error("This zip file doesn't contain any worksheets.");
+  return { imported, errors };
+};
+
+// Question bank: most recently saved first
+export const listBankItems = async () =>
+  (await request<BankItem[]>('readonly', store => store.getAll(), BANK_STORE)).sort((a, b) => b.updatedAt - a.updatedAt);
+
+export const putBankItem = (item: BankItem) => request('readwrite', store => store.put(item), BANK_STORE);
+
+export const deleteBankItem = (id: string) => request('readwrite', store => store.delete(id), BANK_STORE);
+
+// Distinct values per tag, for the filters and the suggestions when saving
+export const getBankTagValues = (items: BankItem[]) => {
+  const values = (key: keyof BankTags) => Array.from(new Set(items.map(i => i.tags[key].trim()).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+  return { subject: values('subject'), grade: values('grade'), topic: values('topic') };
+};
+
+// A bank file is plain JSON so a department can keep one on a shared drive
+export const exportBank = (items: BankItem[]) =>
+  JSON.stringify({ format: 'worksheeter-bank', version: 1, schemaVersion: CURRENT_SCHEMA_VERSION, items }, null, 2);
+
+// Items with an id already in the bank replace it, so re-importing an updated department bank doesn't duplicate.
+// Blocks are validated like a loaded worksheet; items that can't be repaired are skipped and reported.
+export const importBank = async (text: string) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error("Failed to parse file.");
+  }
+  if (!isObject(parsed) || parsed.format !== 'worksheeter-bank' || !Array.isArray(parsed.items)) throw new Error("This is not a question bank file.");
+  const schemaVersion: unknown = parsed.schemaVersion;
+  if (typeof schemaVersion === 'number' && schemaVersion > CURRENT_SCHEMA_VERSION) throw new Error("This question bank was made with a newer version of Worksheeter.");
+  const items: unknown[] = parsed.items;
+
+  let imported = 0;
+  const errors: string[] = [];
+  for (const [idx, item] of items.entries()) {
+    try {
+      const raw: Record<string, unknown> = isObject(item) ? item : {};
+      const tags: Record<string, unknown> = isObject(raw.tags) ? raw.tags : {};
+      const { data } = loadWorksheet({ schemaVersion, blocks: [raw.block] });
+      if (data.blocks.length !== 1) throw new Error('this is not a block Worksheeter can read.');
+      const tag = (key: keyof BankTags) => {
+        const value = tags[key];
+        return typeof value === 'string' ? value : '';
+      };
+      const now = Date.now();
+      await putBankItem({
+        id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+        block: data.blocks[0],
+        tags: { subject: tag('subject'), grade: tag('grade'), topic: tag('topic') },
+        createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : now,
+        updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : now,
+      });
+      imported++;
+    } catch (e) {
+      errors.push(`Item ${idx + 1}: ${(e as Error).message}`);
+    }
+  }
+  return { imported, errors };
+};
+
+// What a bank item is called in lists and search: the question prompt, group title or start of the text
+export const getBankItemTitle = (block: Block): string => {
+  if (block.type === 'question') return markdownToText(block.prompt);
+  if (block.type === 'group') return block.title || 'Untitled group';
+  if (block.type === 'text') return markdownToText(block.content).trim().split('\n')[0];
+  if (block.type === 'embed') return block.title || block.url;
+  return 'Page break';
+};
+
+// Everything a search can match: the block's text, nested blocks' text and the tags
+export const getBankSearchText = (item: BankItem) => {
+  const collect = (block: Block): string[] => {
+    if (block.type === 'question') return [block.prompt, block.description || '', ...(block.options || []), ...(block.listItems || [])];
+    if (block.type === 'group') return [block.title || '', ...block.children.flatMap(collect)];
+    if (block.type === 'text') return [block.content];
+    if (block.type === 'embed') return [block.title || '', block.url];
+    return [];
+  };
+  return [...collect(item.block), item.tags.subject, item.tags.grade, item.tags.topic].join(' ').toLowerCase();
+};
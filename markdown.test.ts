@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { markdownToHtml, markdownToText, safeUrl } from "./markdown";
+
+describe('safeUrl', () => {
+  it('keeps web, mail, anchor and relative links', () => {
+    for (const url of ['https://example.com/a?b=c', 'http://example.com', 'mailto:a@b.c', '#notes', '/answer', './page', 'page.html']) {
+      expect(safeUrl(url, 'link')).toBe(url);
+    }
+  });
+
+  it('rejects script schemes however they are disguised', () => {
+    for (const url of [
+      'javascript:alert(1)', 'JavaScript:alert(1)', ' javascript:alert(1)', 'java\nscript:alert(1)', 'java\tscript:alert(1)',
+      'java\u0000script:alert(1)', 'java script:alert(1)', 'javascript&#58;alert(1)', '&#106;avascript:alert(1)',
+      '&#x6A;avascript:alert(1)', 'javascript&colon;alert(1)', 'java&Tab;script:alert(1)', 'java&#x09;script:alert(1)',
+      'vbscript:msgbox(1)', 'data:text/html,<script>alert(1)</script>',
+    ]) {
+      expect(safeUrl(url, 'link'), url).toBeNull();
+    }
+  });
+
+  it('allows data URIs only for images', () => {
+    expect(safeUrl('data:image/png;base64,AAAA', 'image')).toBe('data:image/png;base64,AAAA');
+    expect(safeUrl('data:image/png;base64,AAAA', 'link')).toBeNull();
+    expect(safeUrl('data:text/html;base64,AAAA', 'image')).toBeNull();
+  });
+});
+
+describe('markdownToHtml', () => {
+  it('escapes HTML and drops unsafe links', () => {
+    const html = markdownToHtml('<b>hi</b> [x](javascript:alert(1)) [y](https://example.com)');
+    expect(html).not.toContain('<b>');
+    expect(html).not.toContain('javascript:');
+    expect(html).toContain('href="https://example.com"');
+  });
+});
+
+describe('markdownToText', () => {
+  it('strips the formatting', () => {
+    expect(markdownToText('**Bold** and [a link](https://example.com)')).toBe('Bold and a link');
+  });
+});
@@ -0,0 +1,445 @@
+// Markdown parser for text blocks, prompts and descriptions. It produces a tree that components/Markdown.tsx renders
+// as React elements, so raw HTML in the source is never interpreted: "<script>" or "onerror=" just show up as text.
+// Supported: headings, paragraphs (single newlines are line breaks), nested ordered/unordered/task lists, quotes,
+// fenced code, GFM tables, rules, **bold**, *italic*, ~~strike~~, `code`, links, images and $math$ / $$math$$.
+
+export type MdInline =
+  | { type: 'text', text: string }
+  | { type: 'strong' | 'em' | 'del', children: MdInline[] }
+  | { type: 'code', text: string }
+  | { type: 'math', tex: string, display: boolean }
+  | { type: 'link', href: string, children: MdInline[] }
+  | { type: 'image', src: string, alt: string }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export interface MdListItem {
+  checked: boolean | null; // null for a plain item, true/false for "- [x]" / "- [ ]"
+  children: MdBlock[];
+}
+
+export type MdBlock =
+  | { type: 'paragraph', children: MdInline[] }
+  | { type: 'heading', level: number, children: MdInline[] }
+  | { type: 'code', text: string, lang: string }
+  | { type: 'math', tex: string }
+  | { type: 'quote', children: MdBlock[] }
+  | { type: 'list', ordered: boolean, start: number, loose: boolean, items: MdListItem[] }
+  | { type: 'table', align: TableAlign[], header: MdInline[][], rows: MdInline[][][] }
+  | { type: 'rule' };
+
+const FENCE_RE = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)/;
+const HEADING_RE = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE_RE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE_RE = /^ {0,3}> ?/;
+const LIST_RE = /^( *)([-*+]|\d{1,9}[.)])(?:\s+(.*)|$)/;
+const TABLE_DELIMITER_RE = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const PUNCTUATION_RE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+
+// What a browser makes of a URL when deciding its scheme: character references decoded (the HTML exports put hrefs in
+// attributes) and tabs, newlines, spaces and other control characters dropped, so "java\nscript:" reads as "javascript:"
+const CHAR_REFS: Record<string, string> = { colon: ':', tab: '\t', newline: '\n' };
+const codePoint = (value: number) => (value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : '');
+const normalizeScheme = (url: string) => url
+  .replace(/&#x([0-9a-f]+);?/gi, (_, hex: string) => codePoint(parseInt(hex, 16)))
+  .replace(/&#(\d+);?/g, (_, dec: string) => codePoint(Number(dec)))
+  .replace(/&(colon|tab|newline);/gi, (_, name: string) => CHAR_REFS[name.toLowerCase()])
+  .replace(/[\u0000-\u0020\u007F]/g, '');
+
+// Links may point anywhere on the web or within the page; images may also be embedded data URIs.
+// Anything else (javascript:, vbscript:, data:text/html...) is dropped and the link text shown on its own.
+export const safeUrl = (url: string, kind: 'link' | 'image'): string | null => {
+  const trimmed = url.trim().replace(/[\u0000-\u001F\u007F]/g, '');
+  const normalized = normalizeScheme(trimmed);
+  if (/^(https?:|mailto:|#|\/|\.{1,2}\/)/i.test(normalized)) return trimmed;
+  if (kind === 'image' && /^data:image\/(png|jpe?g|gif|webp|svg\+xml);/i.test(normalized)) return trimmed;
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(normalized) && !/^\/\//.test(normalized)) return trimmed;
+  return null;
+};
+
+const leadingSpaces = (line: string) => line.length - line.trimStart().length;
+
+const splitTableRow = (line: string) => {
+  const cells: string[] = [];
+  let current = '';
+  const body = line.trim().replace(/^\|/, '').replace(/(^|[^\\])\|$/, '$1');
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '\\' && body[i + 1] === '|') { current += '|'; i++; continue; }
+    if (body[i] === '|') { cells.push(current.trim()); current = ''; continue; }
+    current += body[i];
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && lines[i + 1].includes('-') && TABLE_DELIMITER_RE.test(lines[i + 1])
+  && (lines[i + 1].includes('|') || splitTableRow(lines[i]).length === 1);
+
+// Lines that end a paragraph without a blank line in between
+const startsBlock = (lines: string[], i: number) => {
+  const line = lines[i];
+  const list = LIST_RE.exec(line);
+  return FENCE_RE.test(line) || HEADING_RE.test(line) || RULE_RE.test(line) || QUOTE_RE.test(line)
+    || line.trim().startsWith('$$') || isTableStart(lines, i)
+    || (!!list && !!list[3] && (!/\d/.test(list[2]) || list[2].startsWith('1')));
+};
+
+const parseList = (lines: string[], start: number): { block: MdBlock, end: number } => {
+  const first = LIST_RE.exec(lines[start])!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: MdListItem[] = [];
+  let loose = false;
+  let i = start;
+
+  while (i < lines.length) {
+    const match = LIST_RE.exec(lines[i]);
+    if (!match || match[1].length !== indent || /\d/.test(match[2]) !== ordered) break;
+    const contentIndent = indent + match[2].length + 1;
+    let text = match[3] || '';
+    let checked: boolean | null = null;
+    const task = /^\[([ xX])\]\s+/.exec(text);
+    if (task) {
+      checked = task[1] !== ' ';
+      text = text.slice(task[0].length);
+    }
+    const body = [text];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (!line.trim()) {
+        let next = i + 1;
+        while (next < lines.length && !lines[next].trim()) next++;
+        if (next >= lines.length) break;
+        const nextItem = LIST_RE.exec(lines[next]);
+        if (leadingSpaces(lines[next]) > indent) { body.push(''); i++; continue; }
+        if (nextItem && nextItem[1].length === indent && /\d/.test(nextItem[2]) === ordered) loose = true;
+        break;
+      }
+      const lead = leadingSpaces(line);
+      if (lead > indent) { body.push(line.slice(Math.min(lead, contentIndent))); i++; continue; }
+      if (LIST_RE.test(line) || startsBlock(lines, i)) break;
+      // Lazy continuation of the item's paragraph
+      body.push(line.trim());
+      i++;
+    }
+    items.push({ checked, children: parseBlocks(body) });
+    while (i < lines.length && !lines[i].trim()) i++;
+  }
+
+  return { block: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, loose, items }, end: i };
+};
+
+const parseBlocks = (lines: string[]): MdBlock[] => {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) { i++; continue; }
+
+    const fence = FENCE_RE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) body.push(lines[i]);
+      i++;
+      blocks.push({ type: 'code', text: body.join('\n'), lang: fence[2] });
+      continue;
+    }
+
+    if (line.trim().startsWith('$$')) {
+      const rest = line.trim().slice(2);
+      if (rest.includes('$$')) {
+        blocks.push({ type: 'math', tex: rest.slice(0, rest.indexOf('$$')).trim() });
+        i++;
+        continue;
+      }
+      const body = [rest];
+      for (i++; i < lines.length && !lines[i].includes('$$'); i++) body.push(lines[i]);
+      if (i < lines.length) body.push(lines[i++].split('$$')[0]);
+      blocks.push({ type: 'math', tex: body.join('\n').trim() });
+      continue;
+    }
+
+    const heading = HEADING_RE.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] || '') });
+      i++;
+      continue;
+    }
+
+    if (RULE_RE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE_RE.test(line)) {
+      const body: string[] = [];
+      for (; i < lines.length && QUOTE_RE.test(lines[i]); i++) body.push(lines[i].replace(QUOTE_RE, ''));
+      blocks.push({ type: 'quote', children: parseBlocks(body) });
+      continue;
+    }
+
+    if (LIST_RE.test(line)) {
+      const { block, end } = parseList(lines, i);
+      blocks.push(block);
+      i = end;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const align: TableAlign[] = splitTableRow(lines[i + 1]).map(cell =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : null);
+      const rows: MdInline[][][] = [];
+      for (i += 2; i < lines.length && lines[i].trim() && lines[i].includes('|'); i++) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(header.map((_, col) => parseInline(cells[col] || '')));
+      }
+      blocks.push({ type: 'table', align: header.map((_, col) => align[col] || null), header: header.map(cell => parseInline(cell)), rows });
+      continue;
+    }
+
+    const body = [line.trim()];
+    for (i++; i < lines.length && lines[i].trim() && !startsBlock(lines, i); i++) body.push(lines[i].trim());
+    blocks.push({ type: 'paragraph', children: parseInline(body.join('\n')) });
+  }
+
+  return blocks;
+};
+
+export const parseMarkdown = (text: string): MdBlock[] =>
+  parseBlocks(text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
+
+// Finds "[label](href)" starting at the "[" at `start`
+const parseLinkAt = (text: string, start: number) => {
+  let depth = 0;
+  let close = -1;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === '[') depth++;
+    if (text[i] === ']' && --depth === 0) { close = i; break; }
+  }
+  if (close < 0 || text[close + 1] !== '(') return null;
+  depth = 0;
+  for (let i = close + 1; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === '(') depth++;
+    if (text[i] === ')' && --depth === 0) {
+      const target = text.slice(close + 2, i).trim();
+      const href = /^<([^>]*)>/.exec(target)?.[1] ?? target.split(/\s+/)[0];
+      return { label: text.slice(start + 1, close), href, end: i + 1 };
+    }
+  }
+  return null;
+};
+
+// Closing delimiter for emphasis: not preceded by whitespace, and skipping over code spans and the other emphasis length
+const findClosing = (text: string, from: number, delim: string) => {
+  const ch = delim[0];
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === '`') {
+      const run = /^`+/.exec(text.slice(i))![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end > 0) i = end + run.length - 1;
+      continue;
+    }
+    if (text[i] !== ch) continue;
+    let runEnd = i;
+    while (text[runEnd] === ch) runEnd++;
+    const run = runEnd - i;
+    if (!/\s/.test(text[i - 1]) && i > from) {
+      if (run === delim.length || run >= 3) {
+        if (ch === '_' && /[\p{L}\p{N}]/u.test(text[i + delim.length] || '')) { i = runEnd - 1; continue; }
+        return run >= 3 ? runEnd - delim.length : i;
+      }
+    }
+    i = runEnd - 1;
+  }
+  return -1;
+};
+
+// Inline math follows pandoc: "$x$" needs no space inside the dollars and no digit right after, so "$5 and $6" stays text
+const findMathClose = (text: string, from: number) => {
+  if (/\s/.test(text[from] || ' ')) return -1;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === '$') return !/\s/.test(text[i - 1]) && !/\d/.test(text[i + 1] || '') ? i : -1;
+  }
+  return -1;
+};
+
+export const parseInline = (text: string): MdInline[] => {
+  const out: MdInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) out.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const push = (node: MdInline) => { flush(); out.push(node); };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\' && PUNCTUATION_RE.test(text[i + 1] || '')) { buffer += text[i + 1]; i += 2; continue; }
+    if (ch === '\n' || (ch === '\\' && text[i + 1] === '\n')) {
+      buffer = buffer.replace(/ +$/, '');
+      push({ type: 'break' });
+      i += ch === '\n' ? 1 : 2;
+      continue;
+    }
+
+    if (ch === '`') {
+      const run = /^`+/.exec(text.slice(i))![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end > 0 && text[end + run.length] !== '`') {
+        const code = text.slice(i + run.length, end).replace(/\n/g, ' ');
+        push({ type: 'code', text: /^ .* $/.test(code) && code.trim() ? code.slice(1, -1) : code });
+        i = end + run.length;
+        continue;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    if (ch === '$') {
+      if (text[i + 1] === '$') {
+        const end = text.indexOf('$$', i + 2);
+        if (end > i + 2) { push({ type: 'math', tex: text.slice(i + 2, end).trim(), display: true }); i = end + 2; continue; }
+      } else {
+        const end = findMathClose(text, i + 1);
+        if (end > 0) { push({ type: 'math', tex: text.slice(i + 1, end), display: false }); i = end + 1; continue; }
+      }
+    }
+
+    if (ch === '!' && text[i + 1] === '[') {
+      const link = parseLinkAt(text, i + 1);
+      if (link) {
+        const src = safeUrl(link.href, 'image');
+        if (src) push({ type: 'image', src, alt: link.label });
+        else buffer += link.label;
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      const link = parseLinkAt(text, i);
+      if (link) {
+        const href = safeUrl(link.href, 'link');
+        const children = parseInline(link.label);
+        if (href) push({ type: 'link', href, children });
+        else { flush(); out.push(...children); }
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (ch === '<') {
+      const auto = /^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i.exec(text.slice(i));
+      if (auto) {
+        push({ type: 'link', href: auto[1], children: [{ type: 'text', text: auto[1].replace(/^mailto:/i, '') }] });
+        i += auto[0].length;
+        continue;
+      }
+    }
+
+    if (ch === '*' || ch === '_' || ch === '~') {
+      let runEnd = i;
+      while (text[runEnd] === ch) runEnd++;
+      const run = runEnd - i;
+      // snake_case words keep their underscores
+      const intraword = ch === '_' && /[\p{L}\p{N}]/u.test(text[i - 1] || '');
+      const opensOnSpace = /\s/.test(text[runEnd] || ' ');
+      const candidates = intraword || opensOnSpace ? [] : ch === '~' ? (run === 2 ? ['~~'] : []) : run >= 2 ? [ch + ch, ch] : [ch];
+      let matched = false;
+      for (const delim of candidates) {
+        const end = findClosing(text, i + delim.length, delim);
+        if (end < 0) continue;
+        const type = delim === '~~' ? 'del' : delim.length === 2 ? 'strong' : 'em';
+        push({ type, children: parseInline(text.slice(i + delim.length, end)) });
+        i = end + delim.length;
+        matched = true;
+        break;
+      }
+      if (matched) continue;
+      buffer += text.slice(i, runEnd);
+      i = runEnd;
+      continue;
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return out;
+};
+
+// Plain text of some markdown, for tooltips and table headings that can't hold markup
+export const markdownToText = (text: string): string => {
+  const inlineText = (nodes: MdInline[]): string => nodes.map(node => {
+    if (node.type === 'text' || node.type === 'code') return node.text;
+    if (node.type === 'math') return node.tex;
+    if (node.type === 'image') return node.alt;
+    if (node.type === 'break') return ' ';
+    return inlineText(node.children);
+  }).join('');
+  const blockText = (blocks: MdBlock[]): string[] => blocks.flatMap(block => {
+    if (block.type === 'paragraph' || block.type === 'heading') return [inlineText(block.children)];
+    if (block.type === 'code' || block.type === 'math') return [block.type === 'code' ? block.text : block.tex];
+    if (block.type === 'quote') return blockText(block.children);
+    if (block.type === 'list') return block.items.flatMap(item => blockText(item.children));
+    if (block.type === 'table') return [block.header.map(inlineText).join(' | ')];
+    return [];
+  });
+  return blockText(parseMarkdown(text)).join(' ');
+};
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Well-formed XHTML for exports to other systems (QTI, Moodle). Built from the same tree as the React renderer, with
+// every piece of text escaped; math is kept as \( \) / \[ \] TeX, which those systems typeset with MathJax.
+export const inlineToHtml = (nodes: MdInline[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text': return escapeHtml(node.text);
+    case 'strong': return `<strong>${inlineToHtml(node.children)}</strong>`;
+    case 'em': return `<em>${inlineToHtml(node.children)}</em>`;
+    case 'del': return `<span style="text-decoration: line-through">${inlineToHtml(node.children)}</span>`;
+    case 'code': return `<code>${escapeHtml(node.text)}</code>`;
+    case 'math': return escapeHtml(node.display ? `\\[${node.tex}\\]` : `\\(${node.tex}\\)`);
+    case 'link': return `<a href="${escapeHtml(node.href)}">${inlineToHtml(node.children)}</a>`;
+    case 'image': return `<img src="${escapeHtml(node.src)}" alt="${escapeHtml(node.alt)}"/>`;
+    case 'break': return '<br/>';
+  }
+}).join('');
+
+const blocksToHtml = (blocks: MdBlock[], tight = false): string => blocks.map(block => {
+  switch (block.type) {
+    case 'paragraph': return tight ? inlineToHtml(block.children) : `<p>${inlineToHtml(block.children)}</p>`;
+    case 'heading': return `<h${block.level}>${inlineToHtml(block.children)}</h${block.level}>`;
+    case 'code': return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+    case 'math': return `<p>${escapeHtml(`\\[${block.tex}\\]`)}</p>`;
+    case 'quote': return `<blockquote>${blocksToHtml(block.children)}</blockquote>`;
+    case 'rule': return '<hr/>';
+    case 'list': {
+      const items = block.items.map(item => `<li>${item.checked === null ? '' : item.checked ? '☑ ' : '☐ '}${blocksToHtml(item.children, !block.loose)}</li>`).join('');
+      return block.ordered ? `<ol${block.start !== 1 ? ` start="${block.start}"` : ''}>${items}</ol>` : `<ul>${items}</ul>`;
+    }
+    case 'table': {
+      const cell = (tag: string, content: MdInline[], col: number) =>
+        `<${tag}${block.align[col] ? ` style="text-align: ${block.align[col]}"` : ''}>${inlineToHtml(content)}</${tag}>`;
+      return `<table><thead><tr>${block.header.map((c, col) => cell('th', c, col)).join('')}</tr></thead>` +
+        `<tbody>${block.rows.map(row => `<tr>${row.map((c, col) => cell('td', c, col)).join('')}</tr>`).join('')}</tbody></table>`;
+    }
+  }
+}).join('');
+
+export const markdownToHtml = (text: string): string => blocksToHtml(parseMarkdown(text));
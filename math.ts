@@ -0,0 +1,239 @@
+// Converts the LaTeX subset teachers use in worksheets ($x^2$, \frac, \sqrt, Greek letters, matrices) into a MathML
+// tree that browsers render natively. Never throws: unknown commands are shown as written so typos stay visible.
+
+export interface MathNode {
+  tag: string;
+  attrs?: Record<string, string>;
+  children: (MathNode | string)[];
+}
+
+const el = (tag: string, children: (MathNode | string)[], attrs?: Record<string, string>): MathNode => ({ tag, children, attrs });
+const row = (nodes: MathNode[]) => (nodes.length === 1 ? nodes[0] : el('mrow', nodes));
+const mo = (ch: string, attrs?: Record<string, string>) => el('mo', [ch], attrs);
+
+const GREEK: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ϵ', varepsilon: 'ε', zeta: 'ζ', eta: 'η', theta: 'θ', vartheta: 'ϑ',
+  iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π', rho: 'ρ', sigma: 'σ', tau: 'τ', upsilon: 'υ',
+  phi: 'ϕ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+  infty: '∞', partial: '∂', nabla: '∇', emptyset: '∅', hbar: 'ℏ', ell: 'ℓ',
+};
+
+const SYMBOLS: Record<string, string> = {
+  times: '×', cdot: '⋅', div: '÷', pm: '±', mp: '∓', ast: '∗', circ: '∘', bullet: '∙',
+  leq: '≤', le: '≤', geq: '≥', ge: '≥', neq: '≠', ne: '≠', approx: '≈', equiv: '≡', sim: '∼', simeq: '≃', cong: '≅', propto: '∝',
+  ll: '≪', gg: '≫', to: '→', rightarrow: '→', leftarrow: '←', leftrightarrow: '↔', Rightarrow: '⇒', Leftarrow: '⇐',
+  Leftrightarrow: '⇔', implies: '⇒', iff: '⇔', mapsto: '↦',
+  in: '∈', notin: '∉', ni: '∋', subset: '⊂', subseteq: '⊆', supset: '⊃', supseteq: '⊇', cup: '∪', cap: '∩', setminus: '∖',
+  forall: '∀', exists: '∃', neg: '¬', land: '∧', wedge: '∧', lor: '∨', vee: '∨',
+  sum: '∑', prod: '∏', int: '∫', iint: '∬', oint: '∮',
+  angle: '∠', perp: '⊥', parallel: '∥', triangle: '△', degree: '°',
+  ldots: '…', dots: '…', cdots: '⋯', vdots: '⋮', ddots: '⋱',
+  langle: '⟨', rangle: '⟩', lfloor: '⌊', rfloor: '⌋', lceil: '⌈', rceil: '⌉', vert: '|', mid: '|', Vert: '‖',
+};
+
+const FUNCTIONS = ['sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+  'log', 'ln', 'lg', 'exp', 'lim', 'max', 'min', 'sup', 'inf', 'det', 'gcd', 'deg', 'dim', 'ker', 'arg'];
+
+const ACCENTS: Record<string, string> = { vec: '→', bar: '¯', overline: '¯', hat: '^', widehat: '^', tilde: '~', widetilde: '~', dot: '˙', ddot: '¨' };
+
+const DOUBLE_STRUCK: Record<string, string> = { R: 'ℝ', N: 'ℕ', Z: 'ℤ', Q: 'ℚ', C: 'ℂ', P: 'ℙ' };
+
+const SPACES: Record<string, string> = { ',': '0.17em', ':': '0.22em', ';': '0.28em', ' ': '0.25em', quad: '1em', qquad: '2em' };
+
+// Matrix environments and the fences drawn around them
+const ENVIRONMENTS: Record<string, [string, string]> = {
+  matrix: ['', ''], pmatrix: ['(', ')'], bmatrix: ['[', ']'], Bmatrix: ['{', '}'], vmatrix: ['|', '|'], Vmatrix: ['‖', '‖'],
+  cases: ['{', ''], aligned: ['', ''], align: ['', ''], array: ['', ''],
+};
+
+const DELIMITERS: Record<string, string> = { '\\{': '{', '\\}': '}', '\\langle': '⟨', '\\rangle': '⟩', '\\|': '‖', '\\vert': '|', '\\Vert': '‖', '\\lfloor': '⌊', '\\rfloor': '⌋', '\\lceil': '⌈', '\\rceil': '⌉', '.': '' };
+
+const OPERATORS = '+-=<>/*,;:!?()[]|\'';
+
+class TexParser {
+  private pos = 0;
+
+  constructor(private src: string) {}
+
+  parse(): MathNode {
+    const nodes: MathNode[] = [];
+    while (this.pos < this.src.length) {
+      nodes.push(...this.parseList());
+      // A stray closing brace, & or \\ at the top level: skip it and carry on
+      if (this.pos < this.src.length) this.pos += this.src.startsWith('\\', this.pos) ? this.readCommandLength() : 1;
+    }
+    return el('mrow', nodes);
+  }
+
+  private readCommandLength() {
+    const match = /^\\([a-zA-Z]+|.?)/.exec(this.src.slice(this.pos));
+    return match ? match[0].length : 1;
+  }
+
+  private skipSpace() {
+    while (this.pos < this.src.length && /\s/.test(this.src[this.pos])) this.pos++;
+  }
+
+  private atStop() {
+    const c = this.src[this.pos];
+    return c === '}' || c === '&' || this.src.startsWith('\\\\', this.pos) || /^\\(right|end)(?![a-zA-Z])/.test(this.src.slice(this.pos));
+  }
+
+  private parseList(): MathNode[] {
+    const nodes: MathNode[] = [];
+    for (this.skipSpace(); this.pos < this.src.length && !this.atStop(); this.skipSpace()) {
+      const c = this.src[this.pos];
+      if (c === '^' || c === '_') {
+        this.pos++;
+        const script = this.parseArg();
+        const base = nodes.pop() || el('mrow', []);
+        // x_1^2 and x^2_1 both become one msubsup
+        if (base.tag === 'msub' && c === '^' && base.children.length === 2) nodes.push(el('msubsup', [...base.children, script]));
+        else if (base.tag === 'msup' && c === '_' && base.children.length === 2) nodes.push(el('msubsup', [base.children[0], script, base.children[1]]));
+        else nodes.push(el(c === '^' ? 'msup' : 'msub', [base, script]));
+        continue;
+      }
+      const atom = this.parseAtom(false);
+      if (atom) nodes.push(atom);
+    }
+    return nodes;
+  }
+
+  // A braced group or a single token; \frac12 takes one digit per argument like TeX does
+  private parseArg(): MathNode {
+    this.skipSpace();
+    if (this.pos >= this.src.length || this.atStop()) return el('mrow', []);
+    return this.parseAtom(true) || el('mrow', []);
+  }
+
+  private readGroupText(): string {
+    this.skipSpace();
+    if (this.src[this.pos] !== '{') return this.src[this.pos++] || '';
+    let depth = 0;
+    const start = this.pos + 1;
+    for (; this.pos < this.src.length; this.pos++) {
+      if (this.src[this.pos] === '\\') { this.pos++; continue; }
+      if (this.src[this.pos] === '{') depth++;
+      if (this.src[this.pos] === '}' && --depth === 0) return this.src.slice(start, this.pos++);
+    }
+    return this.src.slice(start);
+  }
+
+  private readDelimiter(): string {
+    this.skipSpace();
+    const rest = this.src.slice(this.pos);
+    const command = /^\\([a-zA-Z]+|.)/.exec(rest);
+    if (command) {
+      this.pos += command[0].length;
+      return DELIMITERS[command[0]] ?? SYMBOLS[command[1]] ?? '';
+    }
+    this.pos++;
+    return DELIMITERS[rest[0]] ?? rest[0] ?? '';
+  }
+
+  private parseAtom(single: boolean): MathNode | null {
+    const c = this.src[this.pos];
+    if (c === '{') {
+      this.pos++;
+      const nodes = this.parseList();
+      if (this.src[this.pos] === '}') this.pos++;
+      return row(nodes);
+    }
+    if (c === '\\') return this.parseCommand();
+    if (/[0-9.]/.test(c)) {
+      const match = single ? [c] : /^(\d+(\.\d+)?|\.\d+|\.)/.exec(this.src.slice(this.pos))!;
+      this.pos += match[0].length;
+      return match[0] === '.' ? mo('.') : el('mn', [match[0]]);
+    }
+    this.pos++;
+    if (c === '~') return el('mspace', [], { width: '0.25em' });
+    if (c === '-') return mo('−');
+    if (c === '*') return mo('∗');
+    if (c === '\'') return mo('′');
+    if (OPERATORS.includes(c)) return mo(c);
+    if (/\p{L}/u.test(c)) return el('mi', [c]);
+    return mo(c);
+  }
+
+  private parseCommand(): MathNode | null {
+    this.pos++;
+    const match = /^([a-zA-Z]+|.?)/.exec(this.src.slice(this.pos))!;
+    const name = match[0];
+    this.pos += name.length;
+
+    if (name in SPACES) return el('mspace', [], { width: SPACES[name] });
+    if (name === '!') return null;
+    if (name.length === 1 && !/[a-zA-Z]/.test(name)) return name === '|' ? mo('‖') : mo(name);
+    if (name in GREEK) return el('mi', [GREEK[name]]);
+    if (name in SYMBOLS) return mo(SYMBOLS[name]);
+    if (FUNCTIONS.includes(name)) return el('mi', [name]);
+
+    switch (name) {
+      case 'frac': case 'dfrac': case 'tfrac':
+        return el('mfrac', [this.parseArg(), this.parseArg()]);
+      case 'binom':
+        return el('mrow', [mo('('), el('mfrac', [this.parseArg(), this.parseArg()], { linethickness: '0' }), mo(')')]);
+      case 'sqrt': {
+        this.skipSpace();
+        if (this.src[this.pos] === '[') {
+          const end = this.src.indexOf(']', this.pos);
+          const index = new TexParser(this.src.slice(this.pos + 1, end < 0 ? undefined : end)).parse();
+          this.pos = end < 0 ? this.src.length : end + 1;
+          return el('mroot', [this.parseArg(), index]);
+        }
+        return el('msqrt', [this.parseArg()]);
+      }
+      case 'text': case 'textrm': case 'mbox': case 'textit': case 'textbf':
+        return el('mtext', [this.readGroupText()]);
+      case 'mathrm': case 'operatorname':
+        return el('mi', [this.readGroupText()], { mathvariant: 'normal' });
+      case 'mathbf': case 'boldsymbol':
+        return el('mrow', [this.parseArg()], { className: 'font-bold' });
+      case 'mathit': case 'mathsf': case 'mathcal':
+        return this.parseArg();
+      case 'mathbb': {
+        const text = this.readGroupText();
+        return el('mi', [Array.from(text).map(ch => DOUBLE_STRUCK[ch] || ch).join('')]);
+      }
+      case 'underline':
+        return el('munder', [this.parseArg(), mo('_', { stretchy: 'true' })]);
+      case 'left': {
+        const open = this.readDelimiter();
+        const inner = this.parseList();
+        let close = '';
+        if (this.src.startsWith('\\right', this.pos)) {
+          this.pos += '\\right'.length;
+          close = this.readDelimiter();
+        }
+        return el('mrow', [...(open ? [mo(open, { stretchy: 'true' })] : []), ...inner, ...(close ? [mo(close, { stretchy: 'true' })] : [])]);
+      }
+      case 'begin':
+        return this.parseEnvironment(this.readGroupText());
+    }
+    if (name in ACCENTS) return el('mover', [this.parseArg(), mo(ACCENTS[name], { stretchy: name !== 'vec' ? 'true' : 'false' })], { accent: 'true' });
+    return el('mtext', [`\\${name}`], { className: 'text-red-600' });
+  }
+
+  private parseEnvironment(name: string): MathNode {
+    // array takes a column spec we don't need
+    if (name === 'array') this.readGroupText();
+    const rows: MathNode[] = [];
+    let cells: MathNode[] = [];
+    while (this.pos < this.src.length) {
+      cells.push(el('mtd', [row(this.parseList())]));
+      if (this.src[this.pos] === '&') { this.pos++; continue; }
+      if (this.src.startsWith('\\\\', this.pos)) { this.pos += 2; rows.push(el('mtr', cells)); cells = []; continue; }
+      if (this.src.startsWith('\\end', this.pos)) { this.pos += '\\end'.length; this.readGroupText(); break; }
+      // Stray closing brace inside the environment
+      this.pos++;
+    }
+    if (cells.length > 1 || (cells.length === 1 && (cells[0].children[0] as MathNode).children.length > 0)) rows.push(el('mtr', cells));
+    const align = name === 'cases' || name.startsWith('align') ? { columnalign: 'left' } : undefined;
+    const table = el('mtable', rows, align);
+    const [open, close] = ENVIRONMENTS[name] || ['', ''];
+    return el('mrow', [...(open ? [mo(open, { stretchy: 'true' })] : []), table, ...(close ? [mo(close, { stretchy: 'true' })] : [])]);
+  }
+}
+
+export const texToMathml = (tex: string): MathNode => new TexParser(tex).parse();
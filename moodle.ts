@@ -0,0 +1,262 @@
+import { Block, QuestionBlock, WorksheetData } from "./types";
+import { generateId, slugify } from "./helpers";
+import { inlineToHtml, markdownToHtml, markdownToText, parseInline } from "./markdown";
+import { parseDropdownGap, parseGapLine, parseGapRule } from "./gaps";
+import { getChoiceKey } from "./grading";
+import { LmsExport, LmsImport, categoryPath, createCategoryGrouper, describeBlock, describeLostBreaks, describeLostMatching, escapeXml, findChild, findChildren, getExportProblem, htmlToMarkdown, readQuestionHtml } from "./interop";
+
+// Moodle XML question export. Questions become multichoice, essay, cloze (embedded answers) or ddwtos (drag and drop
+// into text); text blocks become description questions and groups become categories under the worksheet's own.
+
+const cdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+// Cloze answers sit in the question HTML and escape the characters the {1:TYPE:=a~b} syntax uses
+const escapeCloze = (text: string) => escapeXml(text).replace(/([\\}#~/])/g, '\\$1');
+
+// Moodle only accepts these grade fractions, so 100/k is written to five decimals as its own export does
+const fraction = (value: number) => String(Math.round(value * 100000) / 100000);
+
+// Data-URI images become embedded files; Moodle links them with @@PLUGINFILE@@
+const htmlField = (tag: string, html: string) => {
+  const files: string[] = [];
+  const text = html.replace(/src="data:([\w/+.-]+);base64,([^"]+)"/g, (_, mime: string, data: string) => {
+    const name = `image-${generateId()}.${mime.split('/')[1]?.replace('+xml', '') || 'png'}`;
+    files.push(`<file name="${name}" path="/" encoding="base64">${data}</file>`);
+    return `src="@@PLUGINFILE@@/${name}"`;
+  });
+  return `<${tag} format="html"><text>${cdata(text)}</text>${files.join('')}</${tag}>`;
+};
+
+const questionHtml = (q: QuestionBlock, lines = '') => [
+  q.prompt.trim() ? `<div class="prompt">${markdownToHtml(q.prompt)}</div>` : '',
+  q.description ? `<div class="description">${markdownToHtml(q.description)}</div>` : '',
+  q.image ? `<p><img src="${escapeXml(q.image)}" alt=""/></p>` : '',
+  lines,
+].filter(Boolean).join('\n');
+
+const gapLinesHtml = (q: QuestionBlock, gap: (raw: string) => string) =>
+  (q.listItems || []).map((line, lineIdx) =>
+    `<p>${parseGapLine(line, lineIdx).map(seg => (seg.kind === 'text' ? inlineToHtml(parseInline(seg.text)) : gap(seg.raw))).join('')}</p>`
+  ).join('\n');
+
+const questionXml = (type: string, name: string, text: string, extra: string) =>
+  `<question type="${type}">\n<name><text>${escapeXml(name)}</text></name>\n${htmlField('questiontext', text)}\n<generalfeedback format="html"><text></text></generalfeedback>\n${extra}\n</question>`;
+
+const exportQuestion = (q: QuestionBlock, name: string) => {
+  if (q.qType === 'multiple-choice') {
+    const key = getChoiceKey(q);
+    const right = fraction(100 / Math.max(key.length, 1));
+    const answers = (q.options || []).map(option =>
+      `<answer fraction="${key.includes(option) ? (q.multiSelect ? right : '100') : q.multiSelect ? '-100' : '0'}" format="html"><text>${cdata(inlineToHtml(parseInline(option)))}</text><feedback format="html"><text></text></feedback></answer>`
+    );
+    return questionXml('multichoice', name, questionHtml(q), `<defaultgrade>1</defaultgrade>\n<penalty>0.3333333</penalty>\n<hidden>0</hidden>\n<single>${q.multiSelect ? 'false' : 'true'}</single>\n<shuffleanswers>false</shuffleanswers>\n<answernumbering>abc</answernumbering>\n${answers.join('\n')}`);
+  }
+  if (q.qType === 'open-answer') {
+    return questionXml('essay', name, questionHtml(q), '<defaultgrade>1</defaultgrade>\n<penalty>0</penalty>\n<hidden>0</hidden>\n<responseformat>editor</responseformat>\n<responserequired>1</responserequired>\n<responsefieldlines>10</responsefieldlines>\n<attachments>0</attachments>');
+  }
+  if (q.qType === 'drag-inline') {
+    const words: string[] = [];
+    let gaps = 0;
+    const lines = gapLinesHtml(q, raw => {
+      const word = raw.trim();
+      if (!words.includes(word)) words.push(word);
+      gaps++;
+      return `[[${words.indexOf(word) + 1}]]`;
+    });
+    const boxes = words.map(w => `<dragbox><text>${escapeXml(w)}</text><group>1</group><infinite/></dragbox>`);
+    return questionXml('ddwtos', name, questionHtml(q, lines), `<defaultgrade>${gaps}</defaultgrade>\n<penalty>0.3333333</penalty>\n<hidden>0</hidden>\n<shuffleanswers>1</shuffleanswers>\n${boxes.join('\n')}`);
+  }
+  // Cloze text and dropdowns are both Moodle cloze questions with a code per gap
+  const lines = gapLinesHtml(q, raw => {
+    if (q.qType === 'cloze-dropdown') {
+      const { options, correct } = parseDropdownGap(raw);
+      return `{1:MULTICHOICE:${options.map(o => `${o === correct ? '=' : ''}${escapeCloze(o)}`).join('~')}}`;
+    }
+    const rule = parseGapRule(raw);
+    if (rule.kind === 'number') return `{1:NUMERICAL:=${rule.value}:${rule.tolerance}}`;
+    const alternatives = rule.kind === 'text' ? rule.alternatives : [];
+    return `{1:${q.matching?.ignoreCase ? 'SHORTANSWER' : 'SHORTANSWER_C'}:${alternatives.map(a => `=${escapeCloze(a)}`).join('~')}}`;
+  });
+  return questionXml('cloze', name, questionHtml(q, lines), '<penalty>0.3333333</penalty>\n<hidden>0</hidden>');
+};
+
+export const exportMoodleXml = (data: WorksheetData): LmsExport => {
+  const issues: string[] = [];
+  const questions: string[] = [];
+  let number = 0;
+
+  const category = (names: string[]) => `<question type="category">\n<category><text>${escapeXml(categoryPath(data.title || 'Worksheet', ...names))}</text></category>\n<info format="html"><text></text></info>\n</question>`;
+
+  const walk = (blocks: Block[], path: string[]) => {
+    for (const block of blocks) {
+      if (block.type === 'question') {
+        number++;
+        const problem = getExportProblem(block);
+        if (problem) {
+          issues.push(`${describeBlock(block, number)} was left out: ${problem}.`);
+          continue;
+        }
+        const lost = block.qType === 'cloze-text' && describeLostMatching(block);
+        if (lost) issues.push(`${describeBlock(block, number)}: ${lost} can't be expressed in Moodle, so answers are compared exactly.`);
+        questions.push(exportQuestion(block, markdownToText(block.prompt).slice(0, 80) || `Question ${number}`));
+      } else if (block.type === 'group') {
+        const groupPath = [...path, block.title || 'Untitled group'];
+        questions.push(category(groupPath));
+        walk(block.children, groupPath);
+        questions.push(category(path));
+      } else if (block.type === 'text') {
+        questions.push(questionXml('description', markdownToText(block.content).slice(0, 80) || 'Text', markdownToHtml(block.content), '<defaultgrade>0</defaultgrade>\n<hidden>0</hidden>'));
+      } else if (block.type === 'embed') {
+        questions.push(questionXml('description', block.title || block.url, `<p><a href="${escapeXml(block.url)}">${escapeXml(block.title || block.url)}</a></p>`, '<defaultgrade>0</defaultgrade>\n<hidden>0</hidden>'));
+      }
+    }
+  };
+  walk(data.blocks, []);
+  const lostBreaks = describeLostBreaks(data.blocks);
+  if (lostBreaks) issues.push(lostBreaks);
+
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>\n<quiz>\n${[category([]), ...questions].join('\n')}\n</quiz>\n`;
+  return { filename: `${slugify(data.title) || 'worksheet'}-moodle.xml`, content: xml, contentType: 'application/xml', issues };
+};
+
+const MIME_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', svg: 'image/svg+xml', webp: 'image/webp' };
+
+// The HTML of a field like <questiontext>, with embedded files turned back into data URIs
+const fieldHtml = (field: Element | undefined) => {
+  if (!field) return '';
+  const text = findChild(field, 'text')?.textContent || '';
+  const html = field.getAttribute('format') === 'html' ? text : escapeXml(text).replace(/\n/g, '<br>');
+  return findChildren(field, 'file').reduce((acc, file) => {
+    const name = file.getAttribute('name') || '';
+    const mime = MIME_TYPES[name.split('.').pop()?.toLowerCase() || ''] || 'application/octet-stream';
+    return acc.split(`@@PLUGINFILE@@/${encodeURI(name)}`).join(`data:${mime};base64,${(file.textContent || '').trim()}`)
+      .split(`@@PLUGINFILE@@/${name}`).join(`data:${mime};base64,${(file.textContent || '').trim()}`);
+  }, html);
+};
+
+const parseHtml = (html: string) => new DOMParser().parseFromString(html, 'text/html').body;
+
+const htmlText = (html: string) => (parseHtml(html).textContent || '').trim();
+
+const GAP_MARK = 'data-gap';
+
+// Question text with each gap code swapped for a marker element, so the HTML around it can be read normally
+const readGappedHtml = (html: string, pattern: RegExp, gapFor: (match: RegExpExecArray) => string) => {
+  const gaps: string[] = [];
+  const marked = html.replace(pattern, (...args) => {
+    gaps.push(gapFor(args as unknown as RegExpExecArray));
+    return `<span ${GAP_MARK}="${gaps.length - 1}"></span>`;
+  });
+  const body = parseHtml(marked);
+  const hasGap = (el: Element) => el.hasAttribute(GAP_MARK) || !!el.querySelector(`[${GAP_MARK}]`);
+  const { question, lines } = readQuestionHtml(body, hasGap);
+  const replace = (el: Element) => (el.hasAttribute(GAP_MARK) ? gaps[Number(el.getAttribute(GAP_MARK))] : null);
+  return { question, listItems: lines.flatMap(el => htmlToMarkdown(el, replace, true).split('\n')).filter(line => line.trim()) };
+};
+
+const escapeGapText = (text: string) => text.replace(/([[\]])/g, '\\$1');
+
+// One answer inside a cloze code: "=Paris#Right!" or "%50%Lyon"
+const parseClozeAnswers = (source: string) =>
+  source.split(/(?<!\\)~/).map(part => {
+    const match = /^(=|%(-?[\d.]+)%)?(.*)$/s.exec(part)!;
+    const text = match[3].split(/(?<!\\)#/)[0].replace(/\\(.)/g, '$1');
+    return { fraction: match[1] === '=' ? 100 : Number(match[2] || 0), text: htmlText(text) };
+  });
+
+const CLOZE_PATTERN = /\{(\d*):(\w+):((?:\\.|[^\\}])*)\}/g;
+
+export const importMoodleXml = (doc: Document): LmsImport => {
+  const issues: string[] = [];
+  const grouper = createCategoryGrouper();
+
+  findChildren(doc.documentElement, 'question').forEach((el, i) => {
+    const type = el.getAttribute('type') || '';
+    const name = `"${findChild(findChild(el, 'name') || el, 'text')?.textContent?.trim() || `Question ${i + 1}`}"`;
+    const html = fieldHtml(findChild(el, 'questiontext'));
+    const answers = findChildren(el, 'answer').map(a => ({
+      fraction: Number(a.getAttribute('fraction') || 0),
+      text: htmlToMarkdown(parseHtml(fieldHtml(a))),
+      tolerance: Number(findChild(a, 'tolerance')?.textContent || 0),
+    }));
+    const plain = () => readQuestionHtml(parseHtml(html), () => false).question;
+
+    if (type === 'category') {
+      grouper.setCategory(findChild(findChild(el, 'category') || el, 'text')?.textContent || '');
+    } else if (type === 'description') {
+      const content = htmlToMarkdown(parseHtml(html));
+      if (content) grouper.add({ id: generateId(), type: 'text', content });
+    } else if (type === 'multichoice' || type === 'truefalse') {
+      const options = type === 'truefalse' ? ['True', 'False'] : answers.map(a => a.text.replace(/\s*\n\s*/g, ' '));
+      const correct = type === 'truefalse'
+        ? answers.filter(a => a.fraction >= 100).map(a => (a.text.toLowerCase() === 'true' ? 'True' : 'False'))
+        : options.filter((_, idx) => answers[idx].fraction > 0);
+      const single = type === 'truefalse' || /^(true|1)$/.test(findChild(el, 'single')?.textContent?.trim() || 'true');
+      if (answers.some(a => a.fraction > 0 && a.fraction < 100) && single) issues.push(`${name}: partial credit for some options was dropped.`);
+      grouper.add({ ...plain(), qType: 'multiple-choice', options, ...(single ? {} : { multiSelect: true }), correctAnswer: single ? correct[0] : correct });
+    } else if (type === 'essay') {
+      grouper.add({ ...plain(), qType: 'open-answer' });
+    } else if (type === 'shortanswer' || type === 'numerical') {
+      const accepted = answers.filter(a => a.fraction >= 100);
+      if (answers.length > accepted.length) issues.push(`${name}: answers worth partial credit were left out.`);
+      const gap = type === 'numerical'
+        ? `[${accepted[0]?.text || ''}${accepted[0]?.tolerance ? `~${accepted[0].tolerance}` : ''}]`
+        : `[${accepted.map(a => escapeGapText(a.text)).join('|')}]`;
+      const ignoreCase = type === 'shortanswer' && findChild(el, 'usecase')?.textContent?.trim() !== '1';
+      grouper.add({ ...plain(), qType: 'cloze-text', listItems: [gap], ...(ignoreCase ? { matching: { ignoreCase } } : {}) });
+    } else if (type === 'cloze') {
+      const kinds = new Set<string>();
+      let caseSensitive = false;
+      const { question, listItems } = readGappedHtml(html, CLOZE_PATTERN, match => {
+        const code = match[2].toUpperCase();
+        const options = parseClozeAnswers(match[3]);
+        if (/^(NUMERICAL|NM)$/.test(code)) {
+          kinds.add('text');
+          const [value, tolerance] = (options.find(o => o.fraction >= 100) || options[0]).text.split(':');
+          return `[${value}${Number(tolerance) ? `~${tolerance}` : ''}]`;
+        }
+        if (/^(SHORTANSWER|SA|MW|SHORTANSWER_C|SAC|MWC)$/.test(code)) {
+          kinds.add('text');
+          if (code.endsWith('C')) caseSensitive = true;
+          return `[${options.filter(o => o.fraction >= 100).map(o => escapeGapText(o.text)).join('|')}]`;
+        }
+        if (/^(MULTICHOICE|MC)(_?[VHS]{1,2})?$/.test(code)) {
+          kinds.add('dropdown');
+          const best = Math.max(...options.map(o => o.fraction));
+          return `[${options.map(o => `${o.fraction === best ? '*' : ''}${escapeGapText(o.text)}`).join('|')}]`;
+        }
+        kinds.add(code);
+        return '[]';
+      });
+      const unsupported = Array.from(kinds).filter(k => k !== 'text' && k !== 'dropdown');
+      if (unsupported.length || kinds.size !== 1) {
+        issues.push(unsupported.length
+          ? `${name} has ${unsupported.join(' and ')} gaps, which have no Worksheeter equivalent, so it was left out.`
+          : kinds.size ? `${name} mixes typed gaps and dropdowns, which one Worksheeter question can't, so it was left out.` : `${name} has no gaps and was left out.`);
+        return;
+      }
+      const qType = kinds.has('text') ? 'cloze-text' : 'cloze-dropdown';
+      grouper.add({ ...question, qType, listItems, ...(qType === 'cloze-text' && !caseSensitive ? { matching: { ignoreCase: true } } : {}) });
+    } else if (type === 'ddwtos' || type === 'gapselect') {
+      const choices = findChildren(el, type === 'ddwtos' ? 'dragbox' : 'selectoption').map(c => ({
+        text: htmlText(findChild(c, 'text')?.textContent || ''),
+        group: findChild(c, 'group')?.textContent?.trim() || '1',
+      }));
+      const used = new Set<number>();
+      const { question, listItems } = readGappedHtml(html, /\[\[(\d+)\]\]/g, match => {
+        const idx = Number(match[1]) - 1;
+        const choice = choices[idx];
+        used.add(idx);
+        if (!choice) return '[]';
+        if (type === 'ddwtos') return `[${escapeGapText(choice.text)}]`;
+        return `[${choices.filter(c => c.group === choice.group).map(c => `${c === choice ? '*' : ''}${escapeGapText(c.text)}`).join('|')}]`;
+      });
+      if (type === 'ddwtos' && used.size < choices.length) issues.push(`${name}: ${choices.length - used.size} extra word${choices.length - used.size === 1 ? '' : 's'} that fit no gap were dropped; Worksheeter's word bank only holds the answers.`);
+      grouper.add({ ...question, qType: type === 'ddwtos' ? 'drag-inline' : 'cloze-dropdown', listItems });
+    } else {
+      issues.push(`${name} is a Moodle "${type}" question, which has no Worksheeter equivalent, so it was left out.`);
+    }
+  });
+
+  return { title: grouper.getTitle(), blocks: grouper.blocks, issues };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { checkNumericAnswer, isKnownUnit, parseExpression, parseNumberAnswer } from "./numeric";
+
+const value = (input: string, unit?: string) => parseNumberAnswer(input, { kind: 'number', answer: '0', unit }).value;
+
+describe('parseNumberAnswer', () => {
+  it('reads decimal commas', () => {
+    expect(value('0,125')).toBeCloseTo(0.125);
+    expect(value('3,142')).toBeCloseTo(3.142);
+    expect(value('2,5')).toBeCloseTo(2.5);
+  });
+
+  it('reads thousands separators only where a comma cannot be a decimal mark', () => {
+    expect(value('1,234,567')).toBe(1234567);
+    expect(value('1,234.5')).toBeCloseTo(1234.5);
+  });
+
+  it('converts to the key unit', () => {
+    expect(value('1,5 km', 'm')).toBeCloseTo(1500);
+    expect(value('250 cm', 'm')).toBeCloseTo(2.5);
+    expect(() => value('3 kg', 'm')).toThrow();
+    expect(() => value('3', 'm')).toThrow('Add a unit');
+  });
+
+  it('evaluates expressions and typographic operators', () => {
+    expect(value('2×3 − 1')).toBe(5);
+    expect(value('sqrt(16) + 2^3')).toBe(12);
+    expect(value('2*pi')).toBeCloseTo(2 * Math.PI);
+  });
+
+  it("doesn't find names on Object.prototype", () => {
+    for (const input of ['constructor', 'toString(2)', '__proto__']) expect(() => value(input)).toThrow('Unknown name');
+    expect(() => parseExpression('x').evaluate({})).toThrow('Unknown name');
+    expect(isKnownUnit('toString')).toBe(false);
+  });
+});
+
+describe('checkNumericAnswer', () => {
+  it('applies absolute and percent tolerances', () => {
+    expect(checkNumericAnswer('1510', { kind: 'number', answer: '1500', tolerance: 10 }, 'q')).toBe(true);
+    expect(checkNumericAnswer('1511', { kind: 'number', answer: '1500', tolerance: 10 }, 'q')).toBe(false);
+    expect(checkNumericAnswer('1,52 km', { kind: 'number', answer: '1500', unit: 'm', tolerance: 2, toleranceMode: 'percent' }, 'q')).toBe(true);
+  });
+
+  it('compares formulas by value', () => {
+    expect(checkNumericAnswer('2*r*pi', { kind: 'formula', answer: '2*pi*r' }, 'q')).toBe(true);
+    expect(checkNumericAnswer('pi*r^2', { kind: 'formula', answer: '2*pi*r' }, 'q')).toBe(false);
+  });
+
+  it('treats unreadable answers as wrong', () => {
+    expect(checkNumericAnswer('twelve', { kind: 'number', answer: '12' }, 'q')).toBe(false);
+  });
+});
@@ -0,0 +1,275 @@
+import { NumericSettings } from "./types";
+import { seededRandom } from "./helpers";
+
+// Parsing and checking for numeric questions: arithmetic expressions with constants, functions and variables,
+// plus a small unit table so equivalent quantities in other units are accepted.
+
+type Node =
+  | { kind: 'num', value: number }
+  | { kind: 'var', name: string }
+  | { kind: 'unary', arg: Node }
+  | { kind: 'binary', op: '+' | '-' | '*' | '/' | '^', left: Node, right: Node }
+  | { kind: 'call', fn: string, arg: Node };
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, 'π': Math.PI, e: Math.E };
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt, abs: Math.abs, exp: Math.exp, ln: Math.log, log: Math.log10,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+};
+
+// Own entries only, so a name like "constructor" or "toString" isn't found on Object.prototype
+const hasOwn = (table: object, name: string) => Object.prototype.hasOwnProperty.call(table, name);
+
+const TOKEN = /\s*(?:(\d+(?:\.\d*)?(?:[eE][+-]?\d+)?|\.\d+)|([a-zA-Zπ_][a-zA-Z0-9_]*)|(.))/y;
+
+// Commas in a number are decimal commas (3,142 or 0,125), unless they can only be thousands separators: several
+// ",ddd" groups (1,234,567) or a decimal point after them (1,234.5)
+const readCommas = (number: string) => {
+  const [whole, fraction] = number.split('.');
+  const groups = whole.split(',');
+  const grouped = /^[1-9]\d{0,2}$/.test(groups[0]) && groups.slice(1).every(g => g.length === 3);
+  if (grouped && (groups.length > 2 || fraction !== undefined)) return groups.join('') + (fraction !== undefined ? `.${fraction}` : '');
+  return number.replace(/,/g, '.');
+};
+
+const tokenize = (input: string) => {
+  // Accept decimal commas, thousands separators and the typographic operators people paste from documents
+  const text = input.replace(/\d+(?:,\d+)+(?:\.\d*)?/g, readCommas).replace(/[×·]/g, '*').replace(/÷/g, '/').replace(/[−–]/g, '-');
+  const tokens: { type: 'num' | 'name' | 'op', text: string }[] = [];
+  TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while (TOKEN.lastIndex < text.length && (match = TOKEN.exec(text))) {
+    if (match[1]) tokens.push({ type: 'num', text: match[1] });
+    else if (match[2]) tokens.push({ type: 'name', text: match[2] });
+    else if (match[3]) {
+      if (!'+-*/^()'.includes(match[3])) throw new Error(`Unexpected "${match[3]}"`);
+      tokens.push({ type: 'op', text: match[3] });
+    }
+  }
+  return tokens;
+};
+
+export interface Expression {
+  variables: string[];
+  evaluate: (values?: Record<string, number>) => number;
+}
+
+// Throws with a short message suitable for showing next to the input
+export const parseExpression = (input: string): Expression => {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) throw new Error("Enter a value");
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (text: string) => peek()?.type === 'op' && peek().text === text;
+
+  const expression = (): Node => {
+    let node = term();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[pos++].text as '+' | '-';
+      node = { kind: 'binary', op, left: node, right: term() };
+    }
+    return node;
+  };
+
+  // Juxtaposition multiplies, so "2pi r" and "3(x+1)" work as written
+  const term = (): Node => {
+    let node = unary();
+    for (;;) {
+      if (isOp('*') || isOp('/')) {
+        const op = tokens[pos++].text as '*' | '/';
+        node = { kind: 'binary', op, left: node, right: unary() };
+      } else if (peek() && (peek().type !== 'op' || peek().text === '(')) {
+        node = { kind: 'binary', op: '*', left: node, right: power() };
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const unary = (): Node => {
+    if (isOp('-')) { pos++; return { kind: 'unary', arg: unary() }; }
+    if (isOp('+')) { pos++; return unary(); }
+    return power();
+  };
+
+  const power = (): Node => {
+    const base = primary();
+    if (isOp('^')) { pos++; return { kind: 'binary', op: '^', left: base, right: unary() }; }
+    return base;
+  };
+
+  const primary = (): Node => {
+    const token = tokens[pos++];
+    if (!token) throw new Error("The expression is incomplete");
+    if (token.type === 'num') return { kind: 'num', value: parseFloat(token.text) };
+    if (token.type === 'name') {
+      if (hasOwn(FUNCTIONS, token.text) && isOp('(')) return { kind: 'call', fn: token.text, arg: primary() };
+      if (hasOwn(CONSTANTS, token.text)) return { kind: 'num', value: CONSTANTS[token.text] };
+      return { kind: 'var', name: token.text };
+    }
+    if (token.text === '(') {
+      const inner = expression();
+      if (!isOp(')')) throw new Error("A closing bracket is missing");
+      pos++;
+      return inner;
+    }
+    throw new Error(`Unexpected "${token.text}"`);
+  };
+
+  const root = expression();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos].text}"`);
+
+  const variables = new Set<string>();
+  const collect = (node: Node) => {
+    if (node.kind === 'var') variables.add(node.name);
+    if (node.kind === 'unary' || node.kind === 'call') collect(node.arg);
+    if (node.kind === 'binary') { collect(node.left); collect(node.right); }
+  };
+  collect(root);
+
+  const evaluate = (node: Node, values: Record<string, number>): number => {
+    switch (node.kind) {
+      case 'num': return node.value;
+      case 'var':
+        if (!hasOwn(values, node.name)) throw new Error(`Unknown name "${node.name}"`);
+        return values[node.name];
+      case 'unary': return -evaluate(node.arg, values);
+      case 'call': return FUNCTIONS[node.fn](evaluate(node.arg, values));
+      case 'binary': {
+        const a = evaluate(node.left, values);
+        const b = evaluate(node.right, values);
+        if (node.op === '+') return a + b;
+        if (node.op === '-') return a - b;
+        if (node.op === '*') return a * b;
+        if (node.op === '/') return a / b;
+        return Math.pow(a, b);
+      }
+    }
+  };
+
+  return { variables: [...variables].sort(), evaluate: (values = {}) => evaluate(root, values) };
+};
+
+// Factor to the base unit of each dimension. Temperatures are left out because they need offsets, not factors.
+const UNITS: Record<string, { dimension: string, factor: number }> = {
+  nm: { dimension: 'length', factor: 1e-9 }, 'µm': { dimension: 'length', factor: 1e-6 }, um: { dimension: 'length', factor: 1e-6 },
+  mm: { dimension: 'length', factor: 1e-3 }, cm: { dimension: 'length', factor: 1e-2 }, dm: { dimension: 'length', factor: 0.1 },
+  m: { dimension: 'length', factor: 1 }, km: { dimension: 'length', factor: 1e3 },
+  in: { dimension: 'length', factor: 0.0254 }, ft: { dimension: 'length', factor: 0.3048 }, mi: { dimension: 'length', factor: 1609.344 },
+  'mm^2': { dimension: 'area', factor: 1e-6 }, 'cm^2': { dimension: 'area', factor: 1e-4 }, 'm^2': { dimension: 'area', factor: 1 }, 'km^2': { dimension: 'area', factor: 1e6 },
+  'cm^3': { dimension: 'volume', factor: 1e-6 }, 'm^3': { dimension: 'volume', factor: 1 },
+  mL: { dimension: 'volume', factor: 1e-6 }, ml: { dimension: 'volume', factor: 1e-6 }, L: { dimension: 'volume', factor: 1e-3 }, l: { dimension: 'volume', factor: 1e-3 },
+  mg: { dimension: 'mass', factor: 1e-6 }, g: { dimension: 'mass', factor: 1e-3 }, kg: { dimension: 'mass', factor: 1 }, t: { dimension: 'mass', factor: 1e3 },
+  ms: { dimension: 'time', factor: 1e-3 }, s: { dimension: 'time', factor: 1 }, min: { dimension: 'time', factor: 60 }, h: { dimension: 'time', factor: 3600 },
+  'm/s': { dimension: 'speed', factor: 1 }, 'km/h': { dimension: 'speed', factor: 1 / 3.6 },
+  'm/s^2': { dimension: 'acceleration', factor: 1 },
+  N: { dimension: 'force', factor: 1 }, kN: { dimension: 'force', factor: 1e3 },
+  J: { dimension: 'energy', factor: 1 }, kJ: { dimension: 'energy', factor: 1e3 }, MJ: { dimension: 'energy', factor: 1e6 },
+  W: { dimension: 'power', factor: 1 }, kW: { dimension: 'power', factor: 1e3 }, MW: { dimension: 'power', factor: 1e6 },
+  Pa: { dimension: 'pressure', factor: 1 }, kPa: { dimension: 'pressure', factor: 1e3 }, bar: { dimension: 'pressure', factor: 1e5 },
+  mA: { dimension: 'current', factor: 1e-3 }, A: { dimension: 'current', factor: 1 },
+  mV: { dimension: 'voltage', factor: 1e-3 }, V: { dimension: 'voltage', factor: 1 }, kV: { dimension: 'voltage', factor: 1e3 },
+  Hz: { dimension: 'frequency', factor: 1 }, kHz: { dimension: 'frequency', factor: 1e3 }, MHz: { dimension: 'frequency', factor: 1e6 },
+};
+
+const UNIT_NAMES = Object.keys(UNITS).sort((a, b) => b.length - a.length);
+
+export const isKnownUnit = (unit: string) => hasOwn(UNITS, unit);
+
+// Units the given unit can be converted to, for hints in the editor
+export const getCompatibleUnits = (unit: string) => Object.keys(UNITS).filter(u => UNITS[u].dimension === UNITS[unit]?.dimension);
+
+// Splits "1.5 km" into value and unit. Only known units are split off, so "2pi" stays an expression.
+const splitUnit = (input: string) => {
+  const text = input.trim();
+  for (const unit of UNIT_NAMES) {
+    if (!text.endsWith(unit)) continue;
+    const value = text.slice(0, -unit.length).trimEnd();
+    if (value && /[\d.)\s]$/.test(text.slice(0, -unit.length))) return { value, unit };
+  }
+  return { value: text, unit: '' };
+};
+
+export interface ParsedNumber {
+  value: number; // Converted to the key's unit when there is one
+  display: string; // e.g. "1500 m" or "0.75"
+}
+
+const formatNumber = (value: number) => (Number.isInteger(value) ? String(value) : String(parseFloat(value.toPrecision(10))));
+
+// Reads a student's number answer. Throws with a message for the live preview.
+export const parseNumberAnswer = (input: string, settings: NumericSettings): ParsedNumber => {
+  const expectedUnit = settings.unit?.trim() || '';
+  const { value: valueText, unit } = expectedUnit ? splitUnit(input) : { value: input.trim(), unit: '' };
+  const expression = parseExpression(valueText);
+  if (expression.variables.length > 0) {
+    const name = expression.variables[0];
+    throw new Error(expectedUnit ? `Unknown unit or name "${name}"` : `Unknown name "${name}"`);
+  }
+  const value = expression.evaluate();
+  if (!isFinite(value)) throw new Error("That isn't a finite number");
+  if (!expectedUnit) return { value, display: formatNumber(value) };
+  if (!unit) throw new Error(`Add a unit, e.g. ${expectedUnit}`);
+  if (UNITS[unit].dimension !== UNITS[expectedUnit]?.dimension) throw new Error(`"${unit}" can't be converted to ${expectedUnit}`);
+  const converted = (value * UNITS[unit].factor) / UNITS[expectedUnit].factor;
+  return { value: converted, display: unit === expectedUnit ? `${formatNumber(value)} ${unit}` : `${formatNumber(value)} ${unit} = ${formatNumber(converted)} ${expectedUnit}` };
+};
+
+const withinTolerance = (given: number, expected: number, settings: NumericSettings) => {
+  const tolerance = Math.max(0, settings.tolerance || 0);
+  const allowed = settings.toleranceMode === 'percent' ? Math.abs(expected) * (tolerance / 100) : tolerance;
+  // A tiny relative margin absorbs floating point noise, e.g. 0.1 + 0.2
+  return Math.abs(given - expected) <= allowed + Math.abs(expected) * 1e-9;
+};
+
+const SAMPLE_COUNT = 6;
+
+// Compares two formulas at pseudo-random points, seeded so a given question always grades the same way
+const sameFormula = (given: Expression, expected: Expression, seed: string, settings: NumericSettings) => {
+  if (given.variables.some(v => !expected.variables.includes(v))) return false;
+  const random = seededRandom(seed);
+  for (let i = 0; i < SAMPLE_COUNT; i++) {
+    const values: Record<string, number> = {};
+    expected.variables.forEach(v => { values[v] = 0.5 + random() * 3; });
+    const a = given.evaluate(values);
+    const b = expected.evaluate(values);
+    if (!isFinite(a) || !isFinite(b)) return false;
+    if (!withinTolerance(a, b, { ...settings, toleranceMode: 'percent', tolerance: Math.max(settings.tolerance || 0, 1e-4) })) return false;
+  }
+  return true;
+};
+
+// Never throws: unparsable answers are simply wrong
+export const checkNumericAnswer = (input: string, settings: NumericSettings, seed: string) => {
+  try {
+    if (settings.kind === 'formula') return sameFormula(parseExpression(input), parseExpression(settings.answer), seed, settings);
+    const expected = parseExpression(settings.answer).evaluate();
+    return withinTolerance(parseNumberAnswer(input, settings).value, expected, settings);
+  } catch (e) {
+    return false;
+  }
+};
+
+// How the key reads to a teacher or in feedback, e.g. "1500 m ± 1%" or "2*pi*r"
+export const describeNumericKey = (settings: NumericSettings) => {
+  if (settings.kind === 'formula') return settings.answer.trim();
+  const unit = settings.unit?.trim() ? ` ${settings.unit.trim()}` : '';
+  const tolerance = settings.tolerance ? ` ± ${settings.tolerance}${settings.toleranceMode === 'percent' ? '%' : unit}` : '';
+  return `${settings.answer.trim()}${unit}${tolerance}`;
+};
+
+// Null when the key itself is usable, otherwise the problem
+export const validateNumericKey = (settings: NumericSettings): string | null => {
+  if (!settings.answer.trim()) return "Enter the correct answer";
+  try {
+    const expression = parseExpression(settings.answer);
+    if (settings.kind !== 'formula' && expression.variables.length > 0) return `Unknown name "${expression.variables[0]}"; switch to formula to use variables`;
+    if (settings.kind === 'formula' && expression.variables.length === 0) return "A formula needs at least one variable, e.g. 2*pi*r";
+    if (settings.kind !== 'formula' && !isFinite(expression.evaluate())) return "That isn't a finite number";
+  } catch (e) {
+    return (e as Error).message;
+  }
+  if (settings.kind !== 'formula' && settings.unit?.trim() && !isKnownUnit(settings.unit.trim())) return `Unknown unit "${settings.unit.trim()}"`;
+  return null;
+};
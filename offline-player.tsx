@@ -0,0 +1,6 @@
+import { createRoot } from "react-dom/client";
+import { Answer } from "./components/Answer";
+
+// Entry of the player embedded in offline worksheet files (see offline.ts). vite.offline.config.ts builds it into a
+// single script, since a file opened from disk can't load the app's other chunks.
+createRoot(document.getElementById("root")!).render(<Answer />);
@@ -0,0 +1,103 @@
+import { Block, WorksheetData } from "./types";
+import { hashWorksheet } from "./helpers";
+import { encodeImage } from "./images";
+import { LoadedWorksheet, loadWorksheet } from "./schema";
+
+// Standalone offline worksheets: one .html file with the worksheet, the offline player's script and the compiled CSS,
+// so students can open it from a USB stick without internet. The player is a separate single-file build of the Answer
+// view (offline-player.tsx), as the app's own script loads further chunks that can't be fetched from disk. It saves
+// answers to localStorage like any other worksheet (see progress.ts).
+
+export const OFFLINE_DATA_ID = 'worksheeter-offline-data';
+
+export interface OfflineExport {
+  html: string;
+  issues: string[];
+}
+
+// The worksheet embedded in the page, when this page is an offline export. `hash` is the hash of the worksheet as the
+// teacher made it, before web images were inlined, so submitted answers match it in the gradebook.
+export const readOfflineWorksheet = (): (LoadedWorksheet & { hash: string }) | null => {
+  const el = document.getElementById(OFFLINE_DATA_ID);
+  if (!el) return null;
+  const loaded = loadWorksheet(JSON.parse(el.textContent || ''));
+  return { ...loaded, hash: el.getAttribute('data-hash') || hashWorksheet(loaded.data) };
+};
+
+export const isOfflineWorksheet = () => !!document.getElementById(OFFLINE_DATA_ID);
+
+const MARKDOWN_IMAGE = /!\[[^\]]*\]\((https?:\/\/[^)\s]+)/g;
+
+// Web images in image fields and in markdown; uploaded images are already data URIs
+const collectImageUrls = (value: unknown, key = '', urls = new Set<string>()): Set<string> => {
+  if (typeof value === 'string') {
+    if ((key === 'image' || key === 'diagram') && /^https?:\/\//i.test(value)) urls.add(value);
+    for (const match of value.matchAll(MARKDOWN_IMAGE)) urls.add(match[1]);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectImageUrls(item, key, urls));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([k, v]) => collectImageUrls(v, k, urls));
+  }
+  return urls;
+};
+
+const replaceStrings = <T>(value: T, replace: (text: string) => string): T => {
+  if (typeof value === 'string') return replace(value) as T;
+  if (Array.isArray(value)) return value.map(item => replaceStrings(item, replace)) as T;
+  if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, replaceStrings(v, replace)])) as T;
+  return value;
+};
+
+const collectEmbeds = (blocks: Block[]): string[] =>
+  blocks.flatMap(b => (b.type === 'embed' ? [b.title || b.url] : b.type === 'group' ? collectEmbeds(b.children) : []));
+
+// Keeps an inline script from ending early or opening an HTML comment. \x3C reads as "<" in JS strings and regexes alike.
+const escapeScript = (text: string) => text.replace(/<(\/script|!--)/gi, '\\x3C$1');
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const exportOfflineHtml = async (data: WorksheetData): Promise<OfflineExport> => {
+  // The dev server serves modules one by one; only the build writes the single-file player
+  if (import.meta.env.DEV) throw new Error("Offline files can only be made from the built app (npm run build), not the dev server.");
+  const issues: string[] = [];
+
+  const inlined = new Map<string, string>();
+  for (const url of collectImageUrls(data.blocks)) {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      inlined.set(url, await encodeImage(await response.blob()));
+    } catch {
+      issues.push(`The image at ${url} couldn't be downloaded (the site may not allow it), so it only shows with internet.`);
+    }
+  }
+  const blocks = inlined.size ? replaceStrings(data.blocks, text => Array.from(inlined).reduce((acc, [url, uri]) => acc.split(url).join(uri), text)) : data.blocks;
+  collectEmbeds(data.blocks).forEach(title => issues.push(`Embed "${title}" needs internet to play.`));
+
+  const [script, css] = await Promise.all([
+    fetch(`${import.meta.env.BASE_URL}offline-player.js`).then(r => {
+      if (!r.ok) throw new Error("Couldn't load the offline player to put in the file. Check your connection and try again.");
+      return r.text();
+    }),
+    import("./index.css?inline").then(m => m.default),
+  ]);
+
+  const json = JSON.stringify({ ...data, blocks }).replace(/</g, '\\u003c');
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(data.title)}</title>
+<link href="https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&family=JetBrains+Mono:wght@400;500&family=Merriweather:ital,wght@0,300;0,400;0,700;1,300&display=swap" rel="stylesheet">
+<style>${css.replace(/<\/style/gi, '<\\/style')}</style>
+</head>
+<body class="bg-slate-50 text-slate-900">
+<div id="root"></div>
+<script type="application/json" id="${OFFLINE_DATA_ID}" data-hash="${hashWorksheet(data)}">${json}</script>
+<script type="module">${escapeScript(script)}</script>
+</body>
+</html>
+`;
+  return { html, issues };
+};
@@ -0,0 +1,75 @@
+import { createRoot } from "react-dom/client";
+import { WorksheetData } from "./types";
+import { slugify } from "./helpers";
+import { PrintWorksheet } from "./components/PrintComponents";
+
+// A4 in mm, and the CSS pixel width the print layout is rendered at (A4 at 96dpi)
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 10;
+const RENDER_WIDTH = 794;
+
+const waitForImages = (root: HTMLElement) =>
+  Promise.all(Array.from(root.querySelectorAll('img')).map(img => (img.complete ? Promise.resolve() : new Promise(resolve => { img.onload = img.onerror = resolve; }))));
+
+// Cut points (in CSS px, relative to the page) that keep blocks whole where possible
+const getSliceOffsets = (page: HTMLElement, maxHeight: number) => {
+  const pageTop = page.getBoundingClientRect().top;
+  const blockBottoms = Array.from(page.querySelectorAll<HTMLElement>(':scope > [data-print-block]')).map(el => el.getBoundingClientRect().bottom - pageTop);
+  const total = page.scrollHeight;
+  const cuts: number[] = [0];
+  while (total - cuts[cuts.length - 1] > maxHeight) {
+    const start = cuts[cuts.length - 1];
+    const fitting = blockBottoms.filter(b => b > start && b - start <= maxHeight);
+    // A single block taller than a page has to be cut mid-block
+    cuts.push(fitting.length ? Math.max(...fitting) : start + maxHeight);
+  }
+  cuts.push(total);
+  return cuts;
+};
+
+export const exportWorksheetPdf = async (data: WorksheetData, showKey: boolean) => {
+  const [{ jsPDF }, { default: html2canvas }] = await Promise.all([import("jspdf"), import("html2canvas")]);
+
+  const host = document.createElement('div');
+  host.style.position = 'fixed';
+  host.style.left = '-10000px';
+  host.style.top = '0';
+  host.style.width = `${RENDER_WIDTH}px`;
+  document.body.appendChild(host);
+  const root = createRoot(host);
+
+  try {
+    root.render(<PrintWorksheet data={data} showKey={showKey} />);
+    // Give React a frame to commit and the Tailwind CDN a moment to generate styles for the new classes
+    await new Promise(resolve => setTimeout(resolve, 150));
+    await waitForImages(host);
+
+    const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+    const contentWidth = PAGE_WIDTH - MARGIN * 2;
+    const contentHeight = PAGE_HEIGHT - MARGIN * 2;
+    const pxPerMm = RENDER_WIDTH / contentWidth;
+    let first = true;
+
+    for (const page of Array.from(host.querySelectorAll<HTMLElement>('[data-print-page]'))) {
+      const canvas = await html2canvas(page, { scale: 2, useCORS: true, backgroundColor: '#ffffff', windowWidth: RENDER_WIDTH });
+      const scale = canvas.width / page.offsetWidth;
+      const cuts = getSliceOffsets(page, contentHeight * pxPerMm);
+
+      for (let i = 0; i < cuts.length - 1; i++) {
+        const slice = document.createElement('canvas');
+        slice.width = canvas.width;
+        slice.height = Math.ceil((cuts[i + 1] - cuts[i]) * scale);
+        slice.getContext('2d')!.drawImage(canvas, 0, -Math.floor(cuts[i] * scale));
+        if (!first) pdf.addPage();
+        first = false;
+        pdf.addImage(slice.toDataURL('image/jpeg', 0.92), 'JPEG', MARGIN, MARGIN, contentWidth, slice.height / scale / pxPerMm);
+      }
+    }
+
+    pdf.save(`${slugify(data.title) || 'worksheet'}${showKey ? '-answer-key' : ''}.pdf`);
+  } finally {
+    root.unmount();
+    document.body.removeChild(host);
+  }
+};
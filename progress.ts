@@ -0,0 +1,86 @@
+import { Block, WorksheetData } from "./types";
+import { hashWorksheet } from "./helpers";
+import { Attempt } from "./assessment";
+
+// Answers in progress in the Answer view, saved to localStorage as the student works so a refresh or a crashed tab
+// doesn't lose them. Saves are keyed by a hash of the worksheet's content; when the teacher republishes a changed
+// worksheet, the save of the earlier version is found through the question ids they share instead. A timed
+// assessment's attempt is saved alongside, but only ever resumed on the exact same worksheet.
+
+const PREFIX = 'worksheeter:answers:';
+const MAX_SAVES = 30;
+
+interface StoredAnswers {
+  title: string;
+  savedAt: number;
+  answers: Record<string, any>;
+  attempt?: Attempt;
+}
+
+export interface SavedAnswers extends StoredAnswers {
+  key: string;
+  // Answers to questions the worksheet no longer has, left out of `answers`
+  discarded: number;
+}
+
+const answersKey = (data: WorksheetData) => `${PREFIX}${hashWorksheet(data)}`;
+
+const questionIds = (blocks: Block[]): string[] =>
+  blocks.flatMap(b => (b.type === 'question' ? [b.id] : b.type === 'group' ? questionIds(b.children) : []));
+
+// Newest first; unreadable entries are skipped
+const readSaves = () => {
+  const saves: (StoredAnswers & { key: string })[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(PREFIX)) continue;
+    try {
+      const stored = JSON.parse(localStorage.getItem(key) || '');
+      if (stored && typeof stored.answers === 'object') saves.push({ ...stored, key });
+    } catch {
+      // Ignore; it is overwritten or pruned by a later save
+    }
+  }
+  return saves.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const loadSavedAnswers = (data: WorksheetData): SavedAnswers | null => {
+  try {
+    const ids = new Set(questionIds(data.blocks));
+    const key = answersKey(data);
+    const saves = readSaves();
+    const exact = saves.find(s => s.key === key);
+    if (exact?.attempt) return { ...exact, discarded: 0 };
+    const save = exact || saves.find(s => Object.keys(s.answers).some(id => ids.has(id)));
+    if (!save) return null;
+    const kept = Object.entries(save.answers).filter(([id]) => ids.has(id));
+    if (!kept.length) return null;
+    return { ...save, answers: Object.fromEntries(kept), attempt: undefined, discarded: Object.keys(save.answers).length - kept.length };
+  } catch {
+    // Storage can be blocked; the worksheet then simply starts empty
+    return null;
+  }
+};
+
+export const saveAnswers = (data: WorksheetData, answers: Record<string, any>, attempt?: Attempt) => {
+  try {
+    const key = answersKey(data);
+    if (!Object.keys(answers).length && !attempt) {
+      localStorage.removeItem(key);
+      return;
+    }
+    const isNew = localStorage.getItem(key) === null;
+    localStorage.setItem(key, JSON.stringify({ title: data.title, savedAt: Date.now(), answers, attempt }));
+    if (isNew) readSaves().slice(MAX_SAVES).forEach(s => localStorage.removeItem(s.key));
+  } catch (e) {
+    console.error("Failed to save answers", e);
+  }
+};
+
+export const removeSavedAnswers = (key: string) => {
+  try {
+    localStorage.removeItem(key);
+  } catch {
+    // Nothing was saved if storage is blocked
+  }
+};
@@ -0,0 +1,356 @@
+import { Block, GroupBlock, QuestionBlock, WorksheetData } from "./types";
+import { generateId, slugify } from "./helpers";
+import { inlineToHtml, markdownToHtml, markdownToText, parseInline } from "./markdown";
+import { parseDropdownGap, parseGapLine, parseGapRule } from "./gaps";
+import { getChoiceKey } from "./grading";
+import { createZip, readZip, ZipEntry } from "./zip";
+import { LmsExport, LmsImport, describeBlock, describeLostBreaks, describeLostMatching, escapeXml, findAll, findChild, findChildren, getExportProblem, htmlToMarkdown, parseXml, readQuestionHtml } from "./interop";
+
+// IMS QTI 2.1: a zip with an imsmanifest.xml, one assessmentTest and one assessmentItem file per question.
+// Groups are visible assessmentSections; runs of loose blocks go in invisible sections so they come back ungrouped.
+// Text blocks and embeds become rubricBlocks, which QTI only allows at the start of a section.
+
+const QTI_NS = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const XSI_NS = 'http://www.w3.org/2001/XMLSchema-instance';
+const QTI_SCHEMA = `${QTI_NS} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+const MATCH_CORRECT = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct';
+
+// QTI identifiers must not start with a digit, which generated block ids can
+const qtiId = (prefix: string, id: string) => `${prefix}-${id.replace(/[^\w.-]/g, '_')}`;
+
+const escapeGapText = (text: string) => text.replace(/([[\]])/g, '\\$1');
+
+// One <p> per gap line, with each gap swapped for the interaction markup
+const gapLinesHtml = (q: QuestionBlock, gapHtml: (raw: string, n: number) => string) => {
+  let n = 0;
+  return (q.listItems || []).map((line, lineIdx) =>
+    `<p>${parseGapLine(line, lineIdx).map(seg => (seg.kind === 'text' ? inlineToHtml(parseInline(seg.text)) : gapHtml(seg.raw, ++n))).join('')}</p>`
+  ).join('\n');
+};
+
+// Adds a point to SCORE when `condition` holds; one of these per gap
+const scorePoint = (condition: string) =>
+  `<responseCondition><responseIf>${condition}<setOutcomeValue identifier="SCORE"><sum><variable identifier="SCORE"/><baseValue baseType="float">1</baseValue></sum></setOutcomeValue></responseIf></responseCondition>`;
+
+const itemXml = (q: QuestionBlock, identifier: string, title: string) => {
+  const declarations: string[] = [];
+  const body: string[] = [];
+  const rules: string[] = [];
+  let maxScore = 1;
+  let template = '';
+
+  if (q.prompt.trim()) body.push(`<div class="prompt">${markdownToHtml(q.prompt)}</div>`);
+  if (q.description) body.push(`<div class="description">${markdownToHtml(q.description)}</div>`);
+  if (q.image) body.push(`<p><img src="${escapeXml(q.image)}" alt=""/></p>`);
+
+  if (q.qType === 'multiple-choice') {
+    const key = getChoiceKey(q);
+    const choices = (q.options || []).map((text, i) => ({ id: `C${i + 1}`, text }));
+    const correct = choices.filter(c => key.includes(c.text)).map(c => `<value>${c.id}</value>`).join('');
+    declarations.push(`<responseDeclaration identifier="RESPONSE" cardinality="${q.multiSelect ? 'multiple' : 'single'}" baseType="identifier">${correct ? `<correctResponse>${correct}</correctResponse>` : ''}</responseDeclaration>`);
+    body.push(`<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${q.multiSelect ? 0 : 1}">${choices.map(c => `<simpleChoice identifier="${c.id}">${inlineToHtml(parseInline(c.text))}</simpleChoice>`).join('')}</choiceInteraction>`);
+    template = MATCH_CORRECT;
+  } else if (q.qType === 'open-answer') {
+    declarations.push('<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>');
+    body.push('<extendedTextInteraction responseIdentifier="RESPONSE" expectedLines="5"/>');
+    maxScore = 0;
+  } else if (q.qType === 'cloze-text') {
+    const caseSensitive = q.matching?.ignoreCase ? 'false' : 'true';
+    body.push(gapLinesHtml(q, (raw, n) => {
+      const id = `RESPONSE_${n}`;
+      const rule = parseGapRule(raw);
+      if (rule.kind === 'number') {
+        declarations.push(`<responseDeclaration identifier="${id}" cardinality="single" baseType="float"><correctResponse><value>${rule.value}</value></correctResponse></responseDeclaration>`);
+        const tolerance = rule.tolerance ? ` toleranceMode="absolute" tolerance="${rule.tolerance} ${rule.tolerance}"` : ' toleranceMode="exact"';
+        rules.push(scorePoint(`<equal${tolerance}><variable identifier="${id}"/><baseValue baseType="float">${rule.value}</baseValue></equal>`));
+        return `<textEntryInteraction responseIdentifier="${id}" expectedLength="${String(rule.value).length + 2}"/>`;
+      }
+      const alternatives = rule.kind === 'text' ? rule.alternatives : [];
+      const entries = alternatives.map(alt => `<mapEntry mapKey="${escapeXml(alt)}" mappedValue="1" caseSensitive="${caseSensitive}"/>`).join('');
+      declarations.push(`<responseDeclaration identifier="${id}" cardinality="single" baseType="string"><correctResponse><value>${escapeXml(alternatives[0] || '')}</value></correctResponse><mapping defaultValue="0">${entries}</mapping></responseDeclaration>`);
+      const matches = alternatives.map(alt => `<stringMatch caseSensitive="${caseSensitive}"><variable identifier="${id}"/><baseValue baseType="string">${escapeXml(alt)}</baseValue></stringMatch>`);
+      rules.push(scorePoint(matches.length === 1 ? matches[0] : `<or>${matches.join('')}</or>`));
+      return `<textEntryInteraction responseIdentifier="${id}" expectedLength="${Math.max(...alternatives.map(a => a.length), 3) + 2}"/>`;
+    }));
+    maxScore = rules.length;
+  } else if (q.qType === 'cloze-dropdown') {
+    body.push(gapLinesHtml(q, (raw, n) => {
+      const id = `RESPONSE_${n}`;
+      const { options, correct } = parseDropdownGap(raw);
+      const choices = options.map((text, i) => ({ id: `C${n}_${i + 1}`, text }));
+      declarations.push(`<responseDeclaration identifier="${id}" cardinality="single" baseType="identifier"><correctResponse><value>${choices.find(c => c.text === correct)?.id}</value></correctResponse></responseDeclaration>`);
+      rules.push(scorePoint(`<match><variable identifier="${id}"/><correct identifier="${id}"/></match>`));
+      return `<inlineChoiceInteraction responseIdentifier="${id}" shuffle="false">${choices.map(c => `<inlineChoice identifier="${c.id}">${escapeXml(c.text)}</inlineChoice>`).join('')}</inlineChoiceInteraction>`;
+    }));
+    maxScore = rules.length;
+  } else {
+    // drag-inline: every distinct word is one gapText that can be used as often as it's needed
+    const words: string[] = [];
+    const pairs: string[] = [];
+    const lines = gapLinesHtml(q, (raw, n) => {
+      const word = raw.trim();
+      if (!words.includes(word)) words.push(word);
+      pairs.push(`W${words.indexOf(word) + 1} G${n}`);
+      return `<gap identifier="G${n}"/>`;
+    });
+    const counts = words.map(w => pairs.filter(p => p.startsWith(`W${words.indexOf(w) + 1} `)).length);
+    declarations.push(`<responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair"><correctResponse>${pairs.map(p => `<value>${p}</value>`).join('')}</correctResponse><mapping defaultValue="0">${pairs.map(p => `<mapEntry mapKey="${p}" mappedValue="1"/>`).join('')}</mapping></responseDeclaration>`);
+    body.push(`<gapMatchInteraction responseIdentifier="RESPONSE" shuffle="true">${words.map((w, i) => `<gapText identifier="W${i + 1}" matchMax="${counts[i]}">${escapeXml(w)}</gapText>`).join('')}\n${lines}</gapMatchInteraction>`);
+    rules.push(`<responseCondition><responseIf><not><isNull><variable identifier="RESPONSE"/></isNull></not><setOutcomeValue identifier="SCORE"><mapResponse identifier="RESPONSE"/></setOutcomeValue></responseIf></responseCondition>`);
+    maxScore = pairs.length;
+  }
+
+  const processing = template ? `<responseProcessing template="${template}"/>` : rules.length ? `<responseProcessing>\n${rules.join('\n')}\n</responseProcessing>` : '';
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NS}" xmlns:xsi="${XSI_NS}" xsi:schemaLocation="${QTI_SCHEMA}" identifier="${identifier}" title="${escapeXml(title)}" adaptive="false" timeDependent="false">
+${declarations.join('\n')}
+<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>
+<outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float"><defaultValue><value>${maxScore}</value></defaultValue></outcomeDeclaration>
+<itemBody>
+${body.join('\n')}
+</itemBody>
+${processing}
+</assessmentItem>
+`;
+};
+
+export const exportQti = async (data: WorksheetData): Promise<LmsExport> => {
+  const issues: string[] = [];
+  const items: { identifier: string, href: string, xml: string }[] = [];
+  let number = 0;
+  let sectionCount = 0;
+
+  const rubric = (block: Block) => {
+    if (block.type === 'text') return markdownToHtml(block.content);
+    if (block.type === 'embed') return `<p><a href="${escapeXml(block.url)}">${escapeXml(block.title || block.url)}</a></p>`;
+    return '';
+  };
+
+  const section = (title: string, visible: boolean, blocks: Block[]): string => {
+    const rubrics: string[] = [];
+    const parts: string[] = [];
+    for (const block of blocks) {
+      if (block.type === 'question') {
+        number++;
+        const problem = getExportProblem(block);
+        if (problem) {
+          issues.push(`${describeBlock(block, number)} was left out: ${problem}.`);
+          continue;
+        }
+        const lost = block.qType === 'cloze-text' && describeLostMatching(block);
+        if (lost) issues.push(`${describeBlock(block, number)}: ${lost} can't be expressed in QTI, so answers are compared exactly.`);
+        const identifier = qtiId('item', block.id);
+        const href = `items/${identifier}.xml`;
+        items.push({ identifier, href, xml: itemXml(block, identifier, markdownToText(block.prompt).slice(0, 80) || `Question ${number}`) });
+        parts.push(`<assessmentItemRef identifier="${identifier}" href="${href}"/>`);
+      } else if (block.type === 'group') {
+        const nested = section(block.title || '', true, block.children);
+        if (nested) parts.push(nested);
+      } else if (block.type === 'text' || block.type === 'embed') {
+        if (parts.length) issues.push(`${describeBlock(block)} was moved to the start of its section, the only place QTI allows text.`);
+        rubrics.push(`<rubricBlock view="candidate"><div>${rubric(block)}</div></rubricBlock>`);
+      }
+    }
+    if (!rubrics.length && !parts.length) return '';
+    sectionCount++;
+    return `<assessmentSection identifier="section-${sectionCount}" title="${escapeXml(title)}" visible="${visible}">\n${[...rubrics, ...parts].join('\n')}\n</assessmentSection>`;
+  };
+
+  // Loose top-level blocks between groups share an invisible section
+  const sections: string[] = [];
+  let loose: Block[] = [];
+  const flushLoose = () => {
+    if (loose.length) sections.push(section(data.title, false, loose));
+    loose = [];
+  };
+  for (const block of data.blocks) {
+    if (block.type === 'group') {
+      flushLoose();
+      sections.push(section(block.title || '', true, block.children));
+    } else if (block.type !== 'divider') loose.push(block);
+  }
+  flushLoose();
+  const lostBreaks = describeLostBreaks(data.blocks);
+  if (lostBreaks) issues.push(lostBreaks);
+  // A test part needs a section, even when nothing could be exported
+  if (!sections.some(Boolean)) sections.push(`<assessmentSection identifier="section-1" title="${escapeXml(data.title)}" visible="false"/>`);
+
+  const testId = qtiId('test', slugify(data.title) || 'worksheet');
+  const test = `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentTest xmlns="${QTI_NS}" xmlns:xsi="${XSI_NS}" xsi:schemaLocation="${QTI_SCHEMA}" identifier="${testId}" title="${escapeXml(data.title)}">
+<testPart identifier="part-1" navigationMode="nonlinear" submissionMode="simultaneous">
+${sections.filter(Boolean).join('\n')}
+</testPart>
+</assessmentTest>
+`;
+  const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:xsi="${XSI_NS}" identifier="manifest-${generateId()}" xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd">
+<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>
+<organizations/>
+<resources>
+<resource identifier="${testId}" type="imsqti_test_xmlv2p1" href="test.xml"><file href="test.xml"/>${items.map(i => `<dependency identifierref="${i.identifier}"/>`).join('')}</resource>
+${items.map(i => `<resource identifier="${i.identifier}" type="imsqti_item_xmlv2p1" href="${i.href}"><file href="${i.href}"/></resource>`).join('\n')}
+</resources>
+</manifest>
+`;
+
+  const entries: ZipEntry[] = [
+    { name: 'imsmanifest.xml', content: manifest },
+    { name: 'test.xml', content: test },
+    ...items.map(i => ({ name: i.href, content: i.xml })),
+  ];
+  return { filename: `${slugify(data.title) || 'worksheet'}-qti.zip`, content: await createZip(entries), contentType: 'application/zip', issues };
+};
+
+// Resolves an href in the test file against the test file's folder inside the zip
+const resolvePath = (base: string, href: string) => {
+  const parts = base.split('/').slice(0, -1);
+  for (const part of decodeURI(href).split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+};
+
+const readItem = (item: Element, issues: string[]): QuestionBlock | null => {
+  const title = `"${item.getAttribute('title') || item.getAttribute('identifier') || 'Untitled item'}"`;
+  const body = findAll(item, 'itemBody')[0];
+  if (!body) {
+    issues.push(`${title} has no item body and was left out.`);
+    return null;
+  }
+  const interactions = Array.from(body.getElementsByTagName('*')).filter(el => el.localName.endsWith('Interaction'));
+  const kinds = Array.from(new Set(interactions.map(el => el.localName)));
+  const hasInteraction = (el: Element) => el.localName.endsWith('Interaction') || Array.from(el.getElementsByTagName('*')).some(child => child.localName.endsWith('Interaction'));
+  const declaration = (id: string | null) => findChildren(item, 'responseDeclaration').find(d => d.getAttribute('identifier') === id);
+  const correctValues = (id: string | null) => {
+    const response = declaration(id) && findChild(declaration(id)!, 'correctResponse');
+    return response ? findChildren(response, 'value').map(v => (v.textContent || '').trim()) : [];
+  };
+
+  const { question: base, lines } = readQuestionHtml(body, hasInteraction);
+
+  if (!kinds.length) {
+    issues.push(`${title} has no interaction and was left out.`);
+    return null;
+  }
+  if (kinds.length > 1) {
+    issues.push(`${title} combines ${kinds.join(' and ')}, which one Worksheeter question can't, so it was left out.`);
+    return null;
+  }
+  const kind = kinds[0];
+  const single = ['choiceInteraction', 'extendedTextInteraction', 'gapMatchInteraction'];
+  if (single.includes(kind) && interactions.length > 1) {
+    issues.push(`${title} has ${interactions.length} ${kind}s; only items with one can be imported, so it was left out.`);
+    return null;
+  }
+
+  if (kind === 'choiceInteraction') {
+    const interaction = interactions[0];
+    const inner = findChild(interaction, 'prompt');
+    const prompt = [base.prompt, inner ? htmlToMarkdown(inner) : ''].filter(Boolean).join('\n\n');
+    const choices = findChildren(interaction, 'simpleChoice').map(c => ({ id: c.getAttribute('identifier'), text: htmlToMarkdown(c) }));
+    const correct = correctValues(interaction.getAttribute('responseIdentifier'));
+    const key = choices.filter(c => correct.includes(c.id || '')).map(c => c.text);
+    const multiSelect = (interaction.getAttribute('maxChoices') || '1') !== '1';
+    if (!key.length) issues.push(`${title} has no correct answer in the file; set one after importing.`);
+    return { ...base, prompt, qType: 'multiple-choice', options: choices.map(c => c.text), ...(multiSelect ? { multiSelect } : {}), correctAnswer: multiSelect ? key : key[0] };
+  }
+  if (kind === 'extendedTextInteraction') {
+    const inner = findChild(interactions[0], 'prompt');
+    return { ...base, prompt: [base.prompt, inner ? htmlToMarkdown(inner) : ''].filter(Boolean).join('\n\n'), qType: 'open-answer' };
+  }
+  if (!['textEntryInteraction', 'inlineChoiceInteraction', 'gapMatchInteraction'].includes(kind)) {
+    issues.push(`${title} uses ${kind}, which has no Worksheeter equivalent, so it was left out.`);
+    return null;
+  }
+
+  let ignoreCase = false;
+  let missingKey = false;
+  const processing = findAll(item, 'responseProcessing')[0];
+  const gapFor = (el: Element): string | null => {
+    const id = el.getAttribute('responseIdentifier');
+    if (el.localName === 'textEntryInteraction') {
+      const decl = declaration(id);
+      const values = correctValues(id);
+      if (decl?.getAttribute('baseType') === 'float' || decl?.getAttribute('baseType') === 'integer') {
+        const equal = processing && findAll(processing, 'equal').find(eq => findAll(eq, 'variable').some(v => v.getAttribute('identifier') === id));
+        const tolerance = equal?.getAttribute('tolerance')?.trim().split(/\s+/)[0];
+        if (!values.length) missingKey = true;
+        return `[${values[0] || ''}${tolerance && Number(tolerance) ? `~${tolerance}` : ''}]`;
+      }
+      const entries = decl ? findAll(decl, 'mapEntry').filter(e => Number(e.getAttribute('mappedValue') || 0) > 0) : [];
+      if (entries.some(e => e.getAttribute('caseSensitive') === 'false')) ignoreCase = true;
+      const alternatives = Array.from(new Set([...values, ...entries.map(e => e.getAttribute('mapKey') || '')].filter(Boolean)));
+      if (!alternatives.length) missingKey = true;
+      return `[${alternatives.map(escapeGapText).join('|')}]`;
+    }
+    if (el.localName === 'inlineChoiceInteraction') {
+      const correct = correctValues(id)[0];
+      if (!correct) missingKey = true;
+      return `[${findChildren(el, 'inlineChoice').map(c => `${c.getAttribute('identifier') === correct ? '*' : ''}${escapeGapText((c.textContent || '').trim())}`).join('|')}]`;
+    }
+    if (el.localName === 'gap') {
+      const interaction = interactions[0];
+      const pair = correctValues(interaction.getAttribute('responseIdentifier')).map(v => v.split(/\s+/)).find(p => p[1] === el.getAttribute('identifier'));
+      const word = findChildren(interaction, 'gapText').find(g => g.getAttribute('identifier') === pair?.[0]);
+      if (!word) missingKey = true;
+      return `[${escapeGapText((word?.textContent || '').trim())}]`;
+    }
+    return null;
+  };
+
+  const containers = kind === 'gapMatchInteraction'
+    ? Array.from(interactions[0].children).filter(el => el.localName !== 'gapText' && el.localName !== 'prompt')
+    : lines;
+  const listItems = containers.flatMap(el => htmlToMarkdown(el, gapFor, true).split('\n')).filter(line => line.trim());
+  if (missingKey) issues.push(`${title} is missing some correct answers in the file; check its gaps after importing.`);
+  const qType = kind === 'textEntryInteraction' ? 'cloze-text' : kind === 'inlineChoiceInteraction' ? 'cloze-dropdown' : 'drag-inline';
+  return { ...base, qType, listItems, ...(ignoreCase ? { matching: { ignoreCase } } : {}) };
+};
+
+export const importQti = async (file: File): Promise<LmsImport> => {
+  const issues: string[] = [];
+  const files = /\.zip$/i.test(file.name) ? await readZip(file) : [{ name: file.name, content: await file.text() }];
+  const xmlFiles = files.filter(f => /\.xml$/i.test(f.name) && f.name !== 'imsmanifest.xml');
+  const testFile = xmlFiles.find(f => /<(\w+:)?assessmentTest[\s>]/.test(f.content));
+
+  const loadItem = (name: string) => {
+    const itemFile = files.find(f => f.name === name);
+    if (!itemFile) {
+      issues.push(`The test refers to ${name}, which isn't in the package.`);
+      return null;
+    }
+    try {
+      return readItem(parseXml(itemFile.content).documentElement, issues);
+    } catch (e) {
+      issues.push(`${name}: ${(e as Error).message}`);
+      return null;
+    }
+  };
+
+  if (!testFile) {
+    const items = xmlFiles.filter(f => /<(\w+:)?assessmentItem[\s>]/.test(f.content));
+    if (!items.length) throw new Error("This file doesn't contain any QTI items.");
+    return { blocks: items.map(f => loadItem(f.name)).filter((b): b is QuestionBlock => !!b), issues };
+  }
+
+  const test = parseXml(testFile.content).documentElement;
+  // Visible sections become groups, nested ones included; invisible sections only order their contents
+  const readSection = (section: Element): Block[] => Array.from(section.children).flatMap((child): Block[] => {
+    if (child.localName === 'rubricBlock') {
+      const content = htmlToMarkdown(child);
+      return content ? [{ id: generateId(), type: 'text', content }] : [];
+    }
+    if (child.localName === 'assessmentItemRef') {
+      const question = loadItem(resolvePath(testFile.name, child.getAttribute('href') || ''));
+      return question ? [question] : [];
+    }
+    if (child.localName !== 'assessmentSection') return [];
+    if (child.getAttribute('visible') === 'false') return readSection(child);
+    return [{ id: generateId(), type: 'group', title: child.getAttribute('title') || '', children: readSection(child) } as GroupBlock];
+  });
+
+  const blocks = findChildren(test, 'testPart').flatMap(part => readSection(part));
+  return { title: test.getAttribute('title') || undefined, blocks, issues };
+};
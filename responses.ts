@@ -0,0 +1,52 @@
+import { ResponseTiming, StudentResponse, WorksheetData } from "./types";
+import { getStudentSeed, hashString, hashWorksheet, slugify, stableStringify } from "./helpers";
+
+// Student response files ("Submit / Download my answers") and their validation on import.
+// The signature is only a checksum: it catches edited or truncated files, it is not tamper-proof.
+
+const SIGNATURE_SEED = 0x5eed;
+
+const signResponse = (response: Omit<StudentResponse, 'signature'>) => hashString(stableStringify(response), SIGNATURE_SEED);
+
+// `worksheetHash` can be passed when `data` was altered for delivery, e.g. an offline file with its images inlined
+export const createResponse = (data: WorksheetData, studentName: string, answers: Record<string, any>, worksheetHash = hashWorksheet(data), timing?: ResponseTiming): StudentResponse => {
+  const unsigned: Omit<StudentResponse, 'signature'> = {
+    format: 'worksheeter-response',
+    version: 1,
+    worksheetTitle: data.title,
+    worksheetHash,
+    studentName: studentName.trim(),
+    submittedAt: new Date().toISOString(),
+    answers,
+    ...(timing ? { timing } : {}),
+    seed: getStudentSeed(),
+  };
+  return { ...unsigned, signature: signResponse(unsigned) };
+};
+
+export const verifyResponse = (response: StudentResponse) => {
+  const { signature, ...unsigned } = response;
+  return signature === signResponse(unsigned);
+};
+
+// Throws with a readable message when the text is not a response file
+export const parseResponse = (text: string): StudentResponse => {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON.");
+  }
+  if (!json || json.format !== 'worksheeter-response') throw new Error("Not a Worksheeter response file.");
+  if (json.version !== 1) throw new Error(`Unsupported response version ${json.version}.`);
+  if (!json.answers || typeof json.answers !== 'object') throw new Error("Response has no answers.");
+  if (json.timing !== undefined && !Array.isArray(json.timing?.pageSeconds)) throw new Error("Response timing is damaged.");
+  if (json.seed !== undefined && typeof json.seed !== 'string') throw new Error("Response seed is damaged.");
+  return json as StudentResponse;
+};
+
+// Identifies a response by its whole content, so a file loaded twice is recognised whatever it is called
+export const getResponseKey = (response: StudentResponse) => hashString(stableStringify(response));
+
+export const responseFileName = (response: StudentResponse) =>
+  `${slugify(response.worksheetTitle) || 'worksheet'}-${slugify(response.studentName) || 'student'}.response.json`;
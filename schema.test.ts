@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { CURRENT_SCHEMA_VERSION, loadWorksheet, normalizeHexColor, readWorksheetFile } from "./schema";
+
+describe('loadWorksheet', () => {
+  it('upgrades files from before schemaVersion existed', () => {
+    const { data, issues } = loadWorksheet({ title: 'Old', blocks: [{ id: 't', type: 'text', content: 'Hello' }] });
+    expect(issues).toEqual([]);
+    expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(data.blocks).toEqual([{ id: 't', type: 'text', content: 'Hello' }]);
+  });
+
+  it('repairs what it can and reports it', () => {
+    const { data, issues } = loadWorksheet({ schemaVersion: 1, title: 5, blocks: [{ type: 'mystery' }], design: { accentColor: 'purple' } });
+    expect(data.title).toBe('Untitled Worksheet');
+    expect(data.blocks).toEqual([]);
+    expect(data.design?.accentColor).toBe('#6366f1');
+    expect(issues.map(i => i.path)).toEqual(expect.arrayContaining(['title', 'design.accentColor']));
+  });
+
+  it('refuses files that are not worksheets', () => {
+    expect(() => loadWorksheet({ title: 'No blocks' })).toThrow('This is not a worksheet.');
+    expect(() => readWorksheetFile('{')).toThrow('Failed to parse file.');
+  });
+});
+
+describe('normalizeHexColor', () => {
+  it('adds a missing # and rejects anything but hex', () => {
+    expect(normalizeHexColor('10b981')).toBe('#10b981');
+    expect(normalizeHexColor('#abc')).toBe('#abc');
+    expect(normalizeHexColor('rgb(1, 2, 3)')).toBeNull();
+    expect(normalizeHexColor('#12345')).toBeNull();
+  });
+});
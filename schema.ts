@@ -0,0 +1,357 @@
+import { AssessmentSettings, Block, BlockType, DesignSettings, Hotspot, MatchPair, NumericSettings, QuestionType, TableCell, WorksheetData } from "./types";
+import { generateId } from "./helpers";
+
+// Runtime validation for worksheets coming from links and .wks files. Mirrors types.ts: anything that can be
+// repaired is replaced with a safe default and reported, anything that can't is dropped and reported.
+
+export const CURRENT_SCHEMA_VERSION = 1;
+
+export interface SchemaIssue {
+  path: string; // e.g. "blocks[3].children[1].qType"
+  message: string; // Reads as a sentence after the path, e.g. "is invalid"
+}
+
+export interface LoadedWorksheet {
+  data: WorksheetData;
+  issues: SchemaIssue[];
+}
+
+const BLOCK_TYPES: BlockType[] = ['text', 'divider', 'embed', 'group', 'question'];
+const QUESTION_TYPES: QuestionType[] = ['multiple-choice', 'open-answer', 'cloze-text', 'cloze-dropdown', 'drag-inline', 'matching', 'ordering', 'image-label', 'numeric', 'table'];
+const TABLE_CELL_KINDS: TableCell['kind'][] = ['text', 'gap', 'dropdown', 'checkbox'];
+const FONTS: DesignSettings['font'][] = ['sans', 'serif', 'mono'];
+const DEFAULT_DESIGN: DesignSettings = { accentColor: '#6366f1', font: 'sans' };
+
+// Each migration upgrades a raw worksheet from version N to N + 1
+const MIGRATIONS: Record<number, (raw: any) => any> = {
+  // Files from before schemaVersion existed have the same shape as version 1
+  0: raw => raw,
+};
+
+// "#6366f1", "6366f1" or the short "#63f", as the accent colour box and ThemeStyle take them; null otherwise
+export const normalizeHexColor = (value: string) => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value.trim());
+  return match ? `#${match[1]}` : null;
+};
+
+export const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+class Validator {
+  issues: SchemaIssue[] = [];
+  private ids = new Set<string>();
+
+  report(path: string, message: string) {
+    this.issues.push({ path, message });
+  }
+
+  string(obj: Record<string, any>, key: string, path: string, fallback: string) {
+    if (typeof obj[key] === 'string') return obj[key] as string;
+    if (obj[key] !== undefined) this.report(`${path}.${key}`, 'must be text');
+    return fallback;
+  }
+
+  optionalString(obj: Record<string, any>, key: string, path: string) {
+    if (obj[key] === undefined || typeof obj[key] === 'string') return obj[key] as string | undefined;
+    this.report(`${path}.${key}`, 'must be text');
+    return undefined;
+  }
+
+  stringList(obj: Record<string, any>, key: string, path: string) {
+    if (!Array.isArray(obj[key])) {
+      this.report(`${path}.${key}`, obj[key] === undefined ? 'is missing' : 'must be a list');
+      return [];
+    }
+    return (obj[key] as unknown[]).filter((item, idx) => {
+      if (typeof item === 'string') return true;
+      this.report(`${path}.${key}[${idx}]`, 'must be text');
+      return false;
+    }) as string[];
+  }
+
+  id(obj: Record<string, any>, path: string) {
+    let id = obj.id;
+    if (typeof id !== 'string' || !id) {
+      this.report(`${path}.id`, 'is missing');
+      id = generateId();
+    } else if (this.ids.has(id)) {
+      this.report(`${path}.id`, `duplicates an earlier id ("${id}")`);
+      id = generateId();
+    }
+    this.ids.add(id);
+    return id as string;
+  }
+
+  block(raw: unknown, path: string): Block | null {
+    if (!isObject(raw)) {
+      this.report(path, 'is not a block');
+      return null;
+    }
+    if (!BLOCK_TYPES.includes(raw.type)) {
+      this.report(`${path}.type`, 'is invalid');
+      return null;
+    }
+    const id = this.id(raw, path);
+
+    switch (raw.type as BlockType) {
+      case 'text':
+        return { ...raw, id, type: 'text', content: this.string(raw, 'content', path, '') };
+      case 'divider':
+        return { ...raw, id, type: 'divider' };
+      case 'embed':
+        return { ...raw, id, type: 'embed', url: this.string(raw, 'url', path, ''), title: this.optionalString(raw, 'title', path) };
+      case 'group': {
+        const children = Array.isArray(raw.children) ? raw.children : [];
+        if (!Array.isArray(raw.children)) this.report(`${path}.children`, 'must be a list');
+        return {
+          ...raw,
+          id,
+          type: 'group',
+          title: this.optionalString(raw, 'title', path),
+          children: children.map((child: unknown, idx: number) => this.block(child, `${path}.children[${idx}]`)).filter((b: Block | null): b is Block => !!b),
+        };
+      }
+      case 'question':
+        return this.question(raw, id, path);
+    }
+  }
+
+  question(raw: Record<string, any>, id: string, path: string): Block | null {
+    if (!QUESTION_TYPES.includes(raw.qType)) {
+      this.report(`${path}.qType`, 'is invalid');
+      return null;
+    }
+    const qType = raw.qType as QuestionType;
+    const block: Record<string, any> = { ...raw, id, type: 'question', qType, prompt: this.string(raw, 'prompt', path, '') };
+
+    if (qType === 'image-label') {
+      block.diagram = this.string(raw, 'diagram', path, '');
+      block.hotspots = this.hotspots(raw, path);
+      block.distractors = raw.distractors === undefined ? [] : this.stringList(raw, 'distractors', path);
+    }
+    if (qType === 'table') {
+      block.cells = this.cells(raw, path);
+      if (raw.headerRow !== undefined && typeof raw.headerRow !== 'boolean') {
+        this.report(`${path}.headerRow`, 'must be true or false');
+        block.headerRow = !!raw.headerRow;
+      }
+    }
+    if (qType === 'numeric') block.numeric = this.numeric(raw.numeric, `${path}.numeric`);
+    if (qType === 'ordering') {
+      block.options = this.stringList(raw, 'options', path);
+      if (raw.orderScoring !== undefined && raw.orderScoring !== 'exact' && raw.orderScoring !== 'adjacent') {
+        this.report(`${path}.orderScoring`, 'is invalid');
+        delete block.orderScoring;
+      }
+    }
+    if (qType === 'multiple-choice') {
+      block.options = this.stringList(raw, 'options', path);
+      if (raw.multiSelect !== undefined && typeof raw.multiSelect !== 'boolean') {
+        this.report(`${path}.multiSelect`, 'must be true or false');
+        block.multiSelect = !!raw.multiSelect;
+      }
+    }
+    if (qType === 'cloze-text' || qType === 'cloze-dropdown' || qType === 'drag-inline') {
+      block.listItems = this.stringList(raw, 'listItems', path);
+    }
+    if (qType === 'matching') {
+      block.pairs = this.pairs(raw, path);
+      block.distractors = raw.distractors === undefined ? [] : this.stringList(raw, 'distractors', path);
+      if (raw.shuffle !== undefined && typeof raw.shuffle !== 'boolean') {
+        this.report(`${path}.shuffle`, 'must be true or false');
+        block.shuffle = !!raw.shuffle;
+      }
+    }
+
+    for (const key of ['image', 'description']) {
+      if (raw[key] !== undefined && raw[key] !== null && typeof raw[key] !== 'string') {
+        this.report(`${path}.${key}`, 'must be text');
+        delete block[key];
+      }
+    }
+
+    const answer = raw.correctAnswer;
+    if (answer !== undefined && typeof answer !== 'string' && !(Array.isArray(answer) && answer.every(a => typeof a === 'string'))) {
+      this.report(`${path}.correctAnswer`, 'must be text or a list of text');
+      delete block.correctAnswer;
+    }
+
+    if (raw.matching !== undefined) {
+      if (!isObject(raw.matching)) {
+        this.report(`${path}.matching`, 'must be an object');
+        delete block.matching;
+      } else {
+        block.matching = { ignoreCase: !!raw.matching.ignoreCase, ignoreWhitespace: !!raw.matching.ignoreWhitespace, ignoreDiacritics: !!raw.matching.ignoreDiacritics };
+      }
+    }
+
+    return block as Block;
+  }
+
+  pairs(raw: Record<string, any>, path: string): MatchPair[] {
+    if (!Array.isArray(raw.pairs)) {
+      this.report(`${path}.pairs`, raw.pairs === undefined ? 'is missing' : 'must be a list');
+      return [];
+    }
+    const seen = new Set<string>();
+    return (raw.pairs as unknown[]).flatMap((pair, idx) => {
+      const pairPath = `${path}.pairs[${idx}]`;
+      if (!isObject(pair)) {
+        this.report(pairPath, 'is not a pair');
+        return [];
+      }
+      // Pair ids only need to be unique within their question
+      let id = pair.id;
+      if (typeof id !== 'string' || !id || seen.has(id)) {
+        this.report(`${pairPath}.id`, typeof id === 'string' && id ? `duplicates an earlier id ("${id}")` : 'is missing');
+        id = generateId();
+      }
+      seen.add(id);
+      return [{ id, left: this.string(pair, 'left', pairPath, ''), right: this.string(pair, 'right', pairPath, '') }];
+    });
+  }
+
+  hotspots(raw: Record<string, any>, path: string): Hotspot[] {
+    if (!Array.isArray(raw.hotspots)) {
+      this.report(`${path}.hotspots`, raw.hotspots === undefined ? 'is missing' : 'must be a list');
+      return [];
+    }
+    const seen = new Set<string>();
+    return (raw.hotspots as unknown[]).flatMap((spot, idx) => {
+      const spotPath = `${path}.hotspots[${idx}]`;
+      if (!isObject(spot)) {
+        this.report(spotPath, 'is not a hotspot');
+        return [];
+      }
+      let id = spot.id;
+      if (typeof id !== 'string' || !id || seen.has(id)) {
+        this.report(`${spotPath}.id`, typeof id === 'string' && id ? `duplicates an earlier id ("${id}")` : 'is missing');
+        id = generateId();
+      }
+      seen.add(id);
+      const coord = (key: 'x' | 'y') => {
+        if (typeof spot[key] === 'number' && spot[key] >= 0 && spot[key] <= 100) return spot[key] as number;
+        this.report(`${spotPath}.${key}`, 'must be a percentage between 0 and 100');
+        return typeof spot[key] === 'number' ? Math.max(0, Math.min(100, spot[key])) : 50;
+      };
+      return [{ id, x: coord('x'), y: coord('y'), label: this.string(spot, 'label', spotPath, '') }];
+    });
+  }
+
+  // Rows are padded to the widest row so every column lines up
+  cells(raw: Record<string, any>, path: string): TableCell[][] {
+    if (!Array.isArray(raw.cells)) {
+      this.report(`${path}.cells`, raw.cells === undefined ? 'is missing' : 'must be a list');
+      return [];
+    }
+    const rows = (raw.cells as unknown[]).flatMap((row, rowIdx) => {
+      if (Array.isArray(row)) return [row.map((cell: unknown, colIdx) => this.cell(cell, `${path}.cells[${rowIdx}][${colIdx}]`))];
+      this.report(`${path}.cells[${rowIdx}]`, 'must be a list');
+      return [];
+    });
+    const width = Math.max(0, ...rows.map(row => row.length));
+    return rows.map(row => [...row, ...Array.from({ length: width - row.length }, (): TableCell => ({ kind: 'text', content: '' }))]);
+  }
+
+  cell(raw: unknown, path: string): TableCell {
+    if (!isObject(raw)) {
+      this.report(path, 'is not a table cell');
+      return { kind: 'text', content: '' };
+    }
+    const kind = TABLE_CELL_KINDS.includes(raw.kind) ? raw.kind as TableCell['kind'] : 'text';
+    if (raw.kind !== kind) this.report(`${path}.kind`, raw.kind === undefined ? 'is missing' : 'is invalid');
+    return { kind, content: this.string(raw, 'content', path, '') };
+  }
+
+  numeric(raw: unknown, path: string): NumericSettings {
+    if (!isObject(raw)) {
+      this.report(path, raw === undefined ? 'is missing' : 'must be an object');
+      return { kind: 'number', answer: '' };
+    }
+    const settings: NumericSettings = { kind: 'number', answer: this.string(raw, 'answer', path, '') };
+    if (raw.kind === 'formula') settings.kind = 'formula';
+    else if (raw.kind !== undefined && raw.kind !== 'number') this.report(`${path}.kind`, 'is invalid');
+    if (typeof raw.tolerance === 'number' && raw.tolerance >= 0) settings.tolerance = raw.tolerance;
+    else if (raw.tolerance !== undefined) this.report(`${path}.tolerance`, 'must be a number of at least 0');
+    if (raw.toleranceMode === 'absolute' || raw.toleranceMode === 'percent') settings.toleranceMode = raw.toleranceMode;
+    else if (raw.toleranceMode !== undefined) this.report(`${path}.toleranceMode`, 'is invalid');
+    const unit = this.optionalString(raw, 'unit', path);
+    if (unit !== undefined) settings.unit = unit;
+    return settings;
+  }
+
+  design(raw: unknown): DesignSettings {
+    if (raw === undefined) return { ...DEFAULT_DESIGN };
+    if (!isObject(raw)) {
+      this.report('design', 'must be an object');
+      return { ...DEFAULT_DESIGN };
+    }
+    const design: DesignSettings = { ...raw, ...DEFAULT_DESIGN };
+    const accentColor = typeof raw.accentColor === 'string' ? normalizeHexColor(raw.accentColor) : null;
+    if (accentColor) design.accentColor = accentColor;
+    else if (raw.accentColor !== undefined) this.report('design.accentColor', 'is not a hex color');
+    if (FONTS.includes(raw.font)) design.font = raw.font;
+    else if (raw.font !== undefined) this.report('design.font', 'is invalid');
+    return design;
+  }
+
+  assessment(raw: unknown): AssessmentSettings | undefined {
+    if (raw === undefined) return undefined;
+    if (!isObject(raw)) {
+      this.report('assessment', 'must be an object');
+      return undefined;
+    }
+    const settings: AssessmentSettings = {};
+    if (typeof raw.timeLimit === 'number' && raw.timeLimit > 0) settings.timeLimit = raw.timeLimit;
+    else if (raw.timeLimit !== undefined) this.report('assessment.timeLimit', 'must be a number of minutes above 0');
+    for (const key of ['opensAt', 'closesAt'] as const) {
+      if (typeof raw[key] === 'string' && !isNaN(Date.parse(raw[key]))) settings[key] = raw[key];
+      else if (raw[key] !== undefined) this.report(`assessment.${key}`, 'is not a date');
+    }
+    for (const key of ['onePageAtATime', 'autoSubmit'] as const) {
+      if (typeof raw[key] === 'boolean') settings[key] = raw[key];
+      else if (raw[key] !== undefined) this.report(`assessment.${key}`, 'must be true or false');
+    }
+    return settings;
+  }
+}
+
+const migrate = (raw: Record<string, any>): Record<string, any> => {
+  let version = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  if (version > CURRENT_SCHEMA_VERSION) throw new Error("This worksheet was made with a newer version of Worksheeter.");
+  let migrated = raw;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    migrated = MIGRATIONS[version](migrated);
+    version++;
+  }
+  return { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
+
+// Throws only when the input can't be a worksheet at all; everything else is repaired and listed in issues
+export const loadWorksheet = (raw: unknown): LoadedWorksheet => {
+  if (!isObject(raw) || !Array.isArray(raw.blocks)) throw new Error("This is not a worksheet.");
+  const migrated = migrate(raw);
+  const v = new Validator();
+
+  const data: WorksheetData = {
+    ...migrated,
+    title: v.string(migrated, 'title', 'worksheet', 'Untitled Worksheet'),
+    description: v.string(migrated, 'description', 'worksheet', ''),
+    blocks: (migrated.blocks as unknown[]).map((b, idx) => v.block(b, `blocks[${idx}]`)).filter((b): b is Block => !!b),
+    design: v.design(migrated.design),
+    assessment: v.assessment(migrated.assessment),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+  };
+
+  // Paths are reported relative to the worksheet, so strip the "worksheet." prefix used for top-level fields
+  return { data, issues: v.issues.map(i => ({ ...i, path: i.path.replace(/^worksheet\./, '') })) };
+};
+
+export const readWorksheetFile = (text: string): LoadedWorksheet => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    throw new Error("Failed to parse file.");
+  }
+  return loadWorksheet(json);
+};
@@ -1,13 +1,17 @@
 /** @type {import('tailwindcss').Config} */
 export default {
+  // Used for the CSS inlined into offline worksheet files; the app itself loads Tailwind from the CDN (index.html)
   content: [
     "./index.html",
     "./*.{js,ts,jsx,tsx}",
+    "./components/**/*.{js,ts,jsx,tsx}",
   ],
   theme: {
     extend: {
       fontFamily: {
         sans: ['Inter', 'sans-serif'],
+        serif: ['Merriweather', 'serif'],
+        mono: ['JetBrains Mono', 'monospace'],
       },
     },
   },
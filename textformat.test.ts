@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { Block, WorksheetData } from "./types";
+import { parseWorksheetText, worksheetToText } from "./textformat";
+
+const SAMPLE = `# Capitals
+> A short quiz
+
+Answer every question.
+
+## Europe
+1. Which are capitals? {multi}
+- [x] Paris
+- [ ] Lyon
+- [x] Rome
+
+2. The capital of France is [Paris|paris].
+3. Spain's capital is [Madrid|*Barcelona|Madrid]. {dropdown}
+---
+4. Explain why capitals move.
+___
+`;
+
+// Ids are generated on every parse, so they are left out of comparisons
+const withoutIds = (blocks: Block[]): unknown => JSON.parse(JSON.stringify(blocks, (key, value) => (key === 'id' ? undefined : value)));
+
+describe('parseWorksheetText', () => {
+  it('reads the title, text, groups, questions and page breaks', () => {
+    const parsed = parseWorksheetText(SAMPLE);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.title).toBe('Capitals');
+    expect(parsed.description).toBe('A short quiz');
+    expect(parsed.blocks.map(b => b.type)).toEqual(['text', 'group', 'divider', 'question']);
+    const group = parsed.blocks[1];
+    if (group.type !== 'group') throw new Error('expected a group');
+    expect(group.children.map(b => (b.type === 'question' ? b.qType : b.type))).toEqual(['multiple-choice', 'cloze-text', 'cloze-dropdown']);
+    expect(group.children[0]).toMatchObject({ multiSelect: true, options: ['Paris', 'Lyon', 'Rome'], correctAnswer: ['Paris', 'Rome'] });
+  });
+});
+
+describe('worksheetToText', () => {
+  it('round-trips the plain-text format', () => {
+    const parsed = parseWorksheetText(SAMPLE);
+    const data: WorksheetData = { title: parsed.title!, description: parsed.description || '', blocks: parsed.blocks };
+    const reparsed = parseWorksheetText(worksheetToText(data));
+    expect(reparsed.errors).toEqual([]);
+    expect(reparsed.title).toBe(data.title);
+    expect(reparsed.description).toBe(data.description);
+    expect(withoutIds(reparsed.blocks)).toEqual(withoutIds(data.blocks));
+  });
+
+  it('keeps blocks the format has no syntax for', () => {
+    const data: WorksheetData = {
+      title: 'Mixed',
+      description: '',
+      blocks: [
+        { id: 'm', type: 'question', qType: 'matching', prompt: 'Match them', pairs: [{ id: 'p1', left: 'France', right: 'Paris' }], distractors: [] },
+        { id: 'n', type: 'question', qType: 'numeric', prompt: 'How far?', numeric: { kind: 'number', answer: '1500', unit: 'm' } },
+        { id: 't', type: 'text', content: '1. Not a question' },
+      ],
+    };
+    const reparsed = parseWorksheetText(worksheetToText(data));
+    expect(reparsed.errors).toEqual([]);
+    expect(withoutIds(reparsed.blocks)).toEqual(withoutIds(data.blocks));
+  });
+});
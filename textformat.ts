@@ -0,0 +1,305 @@
+import { Block, GroupBlock, QuestionBlock, TextBlock, WorksheetData } from "./types";
+import { generateId } from "./helpers";
+import { parseDropdownGap, parseGaps } from "./gaps";
+import { CURRENT_SCHEMA_VERSION, loadWorksheet } from "./schema";
+
+// Plain-text authoring format, so teachers can paste questions from a doc and worksheets can be kept in git.
+//
+//   # Worksheet title
+//   > Description, on the lines right after the title
+//
+//   Any other text is a text block (markdown, blank lines included).
+//
+//   ## Group title            starts a group; it runs until the next "##", a "---" or a "##" on its own
+//   1. Which are mammals? {multi}
+//   > A description under the prompt
+//   ![](https://example.com/picture.png)
+//   - [x] Whale
+//   - [ ] Shark
+//
+//   2. The capital of France is [Paris|paris].         gaps make cloze; {dropdown} or {drag} pick the other kinds
+//   3. Explain your reasoning.
+//   ___                                                 marks an open answer
+//   ---                                                 page break
+//
+// A question runs until the next blank line; its number is ignored. Blocks the format can't express (matching,
+// numeric, embeds, ...) are written as JSON between ":::block" and ":::", and text that would be misread as
+// structure goes between ":::text" and ":::", so every worksheet survives a round trip.
+
+export interface TextFormatError {
+  line: number; // 1-based
+  message: string;
+}
+
+export interface ParsedWorksheetText {
+  title?: string; // Only when the text starts with a "# " heading
+  description?: string;
+  blocks: Block[];
+  errors: TextFormatError[];
+}
+
+const TITLE_RE = /^#(?:\s+(.*))?$/;
+const GROUP_RE = /^##(?:\s+(.*))?$/;
+const DIVIDER_RE = /^-{3,}\s*$/;
+const FENCE_RE = /^:::\s*(\w*)\s*$/;
+const QUESTION_RE = /^\d+[.)]\s+(.*)$/;
+const OPTION_RE = /^[-*]\s+\[([ xX])\]\s+(.*)$/;
+const DESCRIPTION_RE = /^>\s?(.*)$/;
+const IMAGE_RE = /^!\[[^\]]*\]\((\S+)\)\s*$/;
+const OPEN_RE = /^_{3,}\s*$/;
+const TAG_RE = /\s*\{(multi|dropdown|drag)\}\s*$/;
+
+type QuestionTag = 'multi' | 'dropdown' | 'drag';
+
+const isStructural = (line: string) => GROUP_RE.test(line) || DIVIDER_RE.test(line) || FENCE_RE.test(line) || QUESTION_RE.test(line);
+
+// Builds one question from its header line and body lines. `start` is the line number of the header.
+const parseQuestion = (header: string, body: { text: string, line: number }[], start: number, errors: TextFormatError[]): QuestionBlock | null => {
+  let prompt = (header.match(QUESTION_RE)?.[1] || '').trim();
+  const tags = new Set<QuestionTag>();
+  let tag;
+  while ((tag = prompt.match(TAG_RE))) {
+    tags.add(tag[1] as QuestionTag);
+    prompt = prompt.slice(0, tag.index).trim();
+  }
+
+  const options: { text: string, correct: boolean }[] = [];
+  const description: string[] = [];
+  const gapLines: string[] = [];
+  let image: string | undefined;
+  let open = false;
+  for (const { text, line } of body) {
+    let match;
+    if ((match = text.match(OPTION_RE))) options.push({ text: match[2].trim(), correct: match[1] !== ' ' });
+    else if ((match = text.match(DESCRIPTION_RE)) && !options.length && !gapLines.length) description.push(match[1]);
+    else if ((match = text.match(IMAGE_RE)) && !options.length && !gapLines.length) image = match[1];
+    else if (OPEN_RE.test(text)) open = true;
+    else if (options.length) {
+      errors.push({ line, message: 'Only "- [ ]" and "- [x]" options can follow the options of a question.' });
+      return null;
+    } else gapLines.push(text);
+  }
+
+  const base = { id: generateId(), type: 'question' as const, prompt, ...(description.length ? { description: description.join('\n') } : {}), ...(image ? { image } : {}) };
+  const onlyFor = (tagName: QuestionTag, kind: string) => {
+    if (!tags.has(tagName)) return false;
+    errors.push({ line: start, message: `{${tagName}} only applies to ${kind}.` });
+    return true;
+  };
+
+  if (options.length) {
+    if (open) { errors.push({ line: start, message: 'A question can have options or an open-answer line (___), not both.' }); return null; }
+    if (onlyFor('dropdown', 'questions with [gaps]') || onlyFor('drag', 'questions with [gaps]')) return null;
+    const key = options.filter(o => o.correct).map(o => o.text);
+    if (!key.length) { errors.push({ line: start, message: 'Mark the correct option with "- [x]".' }); return null; }
+    const multiSelect = tags.has('multi') || key.length > 1;
+    return { ...base, qType: 'multiple-choice', options: options.map(o => o.text), ...(multiSelect ? { multiSelect: true } : {}), correctAnswer: multiSelect ? key : key[0] };
+  }
+  if (open) {
+    if (gapLines.length) { errors.push({ line: start, message: 'An open-answer question (___) has no other lines besides a description or image.' }); return null; }
+    if (onlyFor('multi', 'questions with options') || onlyFor('dropdown', 'questions with [gaps]') || onlyFor('drag', 'questions with [gaps]')) return null;
+    return { ...base, qType: 'open-answer' };
+  }
+  if (onlyFor('multi', 'questions with options')) return null;
+
+  // A question without a body holds its gaps in the prompt line itself, e.g. "1. Water boils at [100] °C."
+  const lines = gapLines.length ? gapLines : [prompt];
+  const gaps = parseGaps(lines);
+  if (!gaps.length) {
+    errors.push({ line: start, message: 'This question has no answer. Add "- [x]" options, [gaps] in square brackets, or ___ for an open answer.' });
+    return null;
+  }
+  const starred = gaps.some(g => g.raw.split('|').some(part => part.trim().startsWith('*')));
+  const qType = tags.has('drag') ? 'drag-inline' : tags.has('dropdown') || starred ? 'cloze-dropdown' : 'cloze-text';
+  if (qType === 'cloze-dropdown' && gaps.some(g => parseDropdownGap(g.raw).options.length < 2)) {
+    errors.push({ line: start, message: 'Every dropdown gap needs at least two choices, e.g. [*blue|green|red].' });
+    return null;
+  }
+  return { ...base, ...(gapLines.length ? {} : { prompt: '' }), qType, listItems: lines };
+};
+
+// JSON blocks are validated like a loaded worksheet; repairs are reported so a typo doesn't pass silently
+const parseJsonBlock = (json: string, line: number, errors: TextFormatError[]): Block | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    errors.push({ line, message: "This :::block isn't valid JSON." });
+    return null;
+  }
+  // Hand-written JSON can leave out the id
+  if (raw && typeof raw === 'object' && !Array.isArray(raw) && !('id' in raw)) raw = { ...raw, id: generateId() };
+  const { data, issues } = loadWorksheet({ schemaVersion: CURRENT_SCHEMA_VERSION, blocks: [raw] });
+  issues.forEach(issue => errors.push({ line, message: `${issue.path.replace(/^blocks\[0\]\.?/, '') || 'Block'} ${issue.message}.` }));
+  return data.blocks[0] || null;
+};
+
+export const parseWorksheetText = (text: string): ParsedWorksheetText => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const result: ParsedWorksheetText = { blocks: [], errors: [] };
+  let group: GroupBlock | null = null;
+  let textLines: string[] = [];
+
+  const add = (block: Block) => {
+    if (group && block.type !== 'divider' && block.type !== 'group') group.children.push(block);
+    else result.blocks.push(block);
+  };
+  const flushText = () => {
+    while (textLines.length && !textLines[textLines.length - 1].trim()) textLines.pop();
+    if (textLines.length) add({ id: generateId(), type: 'text', content: textLines.join('\n') } as TextBlock);
+    textLines = [];
+  };
+
+  let i = 0;
+  // The title and description only count at the very top
+  while (i < lines.length && !lines[i].trim()) i++;
+  const titleMatch = lines[i]?.match(TITLE_RE);
+  if (titleMatch) {
+    result.title = (titleMatch[1] || '').trim();
+    i++;
+    const description: string[] = [];
+    while (i < lines.length && DESCRIPTION_RE.test(lines[i])) description.push(lines[i++].match(DESCRIPTION_RE)![1].trim());
+    if (description.length) result.description = description.join(' ');
+  }
+
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    const lineNo = i + 1;
+    let match;
+
+    if ((match = line.match(FENCE_RE))) {
+      flushText();
+      const end = lines.findIndex((l, idx) => idx > i && /^:::\s*$/.test(l));
+      if (end === -1) {
+        result.errors.push({ line: lineNo, message: 'This ::: section is never closed with a ":::" line.' });
+        break;
+      }
+      const inner = lines.slice(i + 1, end).join('\n');
+      if (match[1] === 'text') add({ id: generateId(), type: 'text', content: inner } as TextBlock);
+      else if (match[1] === 'block') {
+        const block = parseJsonBlock(inner, lineNo, result.errors);
+        // A JSON group inside an open group is nested in it, like the export writes it
+        if (block?.type === 'group' && group) group.children.push(block);
+        else if (block) add(block);
+      } else result.errors.push({ line: lineNo, message: `Unknown section ":::${match[1]}". Use ":::text" or ":::block".` });
+      i = end;
+    } else if (DIVIDER_RE.test(line)) {
+      flushText();
+      group = null;
+      add({ id: generateId(), type: 'divider' });
+    } else if ((match = line.match(GROUP_RE))) {
+      flushText();
+      const title = (match[1] || '').trim();
+      // A bare "##" ends the current group, so blocks after it are back at the top level
+      group = title ? { id: generateId(), type: 'group', title, children: [] } : null;
+      if (group) result.blocks.push(group);
+    } else if (QUESTION_RE.test(line)) {
+      flushText();
+      const body: { text: string, line: number }[] = [];
+      while (i + 1 < lines.length && lines[i + 1].trim() && !isStructural(lines[i + 1])) {
+        i++;
+        body.push({ text: lines[i].trim(), line: i + 1 });
+      }
+      const question = parseQuestion(line, body, lineNo, result.errors);
+      if (question) add(question);
+    } else if (line.trim() || textLines.length) {
+      textLines.push(line);
+    }
+  }
+  flushText();
+  return result;
+};
+
+// Compares two blocks ignoring ids and fields that are empty either way (undefined, '', false, [] or {})
+const isEmptyValue = (value: unknown) =>
+  value === undefined || value === null || value === '' || value === false ||
+  (Array.isArray(value) && value.length === 0) || (typeof value === 'object' && value !== null && Object.keys(value).length === 0);
+
+const sameContent = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, idx) => sameContent(item, b[idx]));
+  }
+  if (typeof a === 'object' && a !== null && typeof b === 'object' && b !== null) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)].filter(k => k !== 'id'));
+    return Array.from(keys).every(k => {
+      const x = (a as Record<string, unknown>)[k];
+      const y = (b as Record<string, unknown>)[k];
+      return (isEmptyValue(x) && isEmptyValue(y)) || sameContent(x, y);
+    });
+  }
+  return a === b;
+};
+
+const questionToText = (q: QuestionBlock, number: number): string | null => {
+  const tags = q.qType === 'drag-inline' ? ' {drag}' : q.qType === 'cloze-dropdown' ? ' {dropdown}' : q.qType === 'multiple-choice' && q.multiSelect ? ' {multi}' : '';
+  const lines = [`${number}. ${q.prompt}${tags}`];
+  if (q.description) lines.push(...q.description.split('\n').map(l => `> ${l}`));
+  if (q.image) lines.push(`![](${q.image})`);
+  const key = Array.isArray(q.correctAnswer) ? q.correctAnswer : [q.correctAnswer];
+  switch (q.qType) {
+    case 'multiple-choice': lines.push(...(q.options || []).map(o => `- [${key.includes(o) ? 'x' : ' '}] ${o}`)); break;
+    case 'open-answer': lines.push('___'); break;
+    case 'cloze-text':
+    case 'cloze-dropdown':
+    case 'drag-inline': lines.push(...(q.listItems || [])); break;
+    default: return null;
+  }
+  return lines.join('\n');
+};
+
+// A block is written as text only when reading that text back gives the same block; anything else falls back to JSON
+const blockToText = (block: Block, number: number, afterText: boolean): string => {
+  const asJson = `:::block\n${JSON.stringify(block, null, 2)}\n:::`;
+  if (block.type === 'text') {
+    const content = block.content;
+    const plain = content.trim() && content === content.trim() && !afterText &&
+      content.split('\n').every(line => !isStructural(line));
+    return plain ? content : `:::text\n${content}\n:::`;
+  }
+  if (block.type === 'question') {
+    const text = questionToText(block, number);
+    if (!text) return asJson;
+    const parsed = parseWorksheetText(text);
+    return parsed.errors.length === 0 && parsed.blocks.length === 1 && sameContent(parsed.blocks[0], block) ? text : asJson;
+  }
+  return asJson;
+};
+
+export const worksheetToText = (data: WorksheetData): string => {
+  const parts = [`# ${data.title}`];
+  if (data.description) parts[0] += data.description.split('\n').map(line => `\n> ${line}`).join('');
+  let number = 0;
+  let inGroup = false;
+  let previous: Block | null = null;
+
+  for (const block of data.blocks) {
+    if (block.type === 'divider') {
+      parts.push('---');
+      inGroup = false;
+    } else if (block.type === 'group') {
+      const title = block.title?.trim();
+      if (!title || title !== block.title || title.includes('\n')) {
+        // Groups without a plain one-line title have no heading to write, so they go whole as JSON
+        if (inGroup) parts.push('##');
+        parts.push(blockToText(block, 0, false));
+        inGroup = false;
+      } else {
+        parts.push(`## ${title}`);
+        let prevChild: Block | null = null;
+        for (const child of block.children) {
+          if (child.type === 'question') number++;
+          parts.push(blockToText(child, number, prevChild?.type === 'text'));
+          prevChild = child;
+        }
+        inGroup = true;
+      }
+    } else {
+      if (inGroup) parts.push('##');
+      inGroup = false;
+      if (block.type === 'question') number++;
+      parts.push(blockToText(block, number, previous?.type === 'text'));
+    }
+    previous = block.type === 'group' ? null : block;
+  }
+  return parts.join('\n\n') + '\n';
+};
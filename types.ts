@@ -1,6 +1,6 @@
 
 export type BlockType = 'text' | 'divider' | 'embed' | 'group' | 'question';
-export type QuestionType = 'multiple-choice' | 'open-answer' | 'cloze-text' | 'cloze-dropdown' | 'drag-inline';
+export type QuestionType = 'multiple-choice' | 'open-answer' | 'cloze-text' | 'cloze-dropdown' | 'drag-inline' | 'matching' | 'ordering' | 'image-label' | 'numeric' | 'table';
 
 export interface BaseBlock {
   id: string;
@@ -29,9 +29,51 @@ export interface QuestionBlock extends BaseBlock {
   listItems?: string[]; 
   image?: string | null; 
   description?: string | null;
-  options?: string[];
+  options?: string[]; // Multiple choice options, or the items of an ordering question in their correct order
   multiSelect?: boolean;
   correctAnswer?: string | string[]; 
+  matching?: MatchSettings; // How typed cloze answers are compared against the key
+  pairs?: MatchPair[]; // Matching questions: each left item with the right item it belongs to
+  distractors?: string[]; // Matching and image-label questions: extra items that belong nowhere
+  shuffle?: boolean; // Matching questions: show the right column in a shuffled order
+  orderScoring?: 'exact' | 'adjacent'; // Ordering questions: all-or-nothing, or a point per correctly adjacent pair
+  diagram?: string; // Image-label questions: the image the hotspots sit on (separate from the decorative image)
+  hotspots?: Hotspot[]; // Image-label questions
+  numeric?: NumericSettings; // Numeric questions
+  cells?: TableCell[][]; // Table questions: rows of cells; answers are keyed `${row}-${col}`
+  headerRow?: boolean; // Table questions: show the first row as column headings
+}
+
+export interface TableCell {
+  kind: 'text' | 'gap' | 'dropdown' | 'checkbox';
+  content: string; // Fixed text, or one gap in bracket syntax: [Paris|paris], [red|*blue|green], or [x] / [ ] for checkboxes
+}
+
+export interface NumericSettings {
+  kind: 'number' | 'formula'; // A formula answer like 2*pi*r is checked by evaluating both sides at random values
+  answer: string; // A number or expression, e.g. "1500" or "2*pi*r"
+  tolerance?: number;
+  toleranceMode?: 'absolute' | 'percent';
+  unit?: string; // Number answers only: required unit; answers in convertible units are accepted (1.5 km for 1500 m)
+}
+
+export interface Hotspot {
+  id: string; // Player answers are keyed by hotspot id
+  x: number; // Percent of the image width, 0-100
+  y: number; // Percent of the image height, 0-100
+  label: string; // The label that belongs on this spot
+}
+
+export interface MatchPair {
+  id: string; // Player answers are keyed by pair id
+  left: string;
+  right: string;
+}
+
+export interface MatchSettings {
+  ignoreCase?: boolean;
+  ignoreWhitespace?: boolean;
+  ignoreDiacritics?: boolean;
 }
 
 export interface GroupBlock extends BaseBlock {
@@ -47,17 +89,114 @@ export interface DesignSettings {
   font: 'sans' | 'serif' | 'mono';
 }
 
+export interface AssessmentSettings {
+  timeLimit?: number; // Minutes from when the student starts
+  opensAt?: string; // ISO timestamp; the attempt can't be started before
+  closesAt?: string; // ISO timestamp; the attempt can't be started after, and ends at this time at the latest
+  onePageAtATime?: boolean; // Pages (split at dividers) are shown one by one, with no going back
+  autoSubmit?: boolean; // Submit when time runs out; otherwise the answers are locked until the student submits
+}
+
 export interface WorksheetData {
   title: string;
   description: string;
   blocks: Block[];
   design?: DesignSettings;
+  assessment?: AssessmentSettings; // Makes the worksheet a timed quiz in the Answer view
+  schemaVersion?: number; // See CURRENT_SCHEMA_VERSION in schema.ts
 }
 
 export interface DragItem {
   id?: string;
   index?: number;
   parentId?: string;
-  type: 'block' | 'new-block';
+  type: 'block' | 'new-block' | 'bank-block';
   payload?: { type: BlockType, qType?: QuestionType };
+  block?: Block; // Bank drags: the saved block, inserted with fresh ids
+  ids?: string[]; // Dragging a multi-block selection: every selected block id
+}
+
+export interface GapResult {
+  key: string; // `${lineIdx}-${gapIdx}`, same shape as the cloze answer records; the pair id for matching
+  given: string;
+  expected: string;
+  correct: boolean;
+  label?: string; // Shown instead of "Gap N", e.g. the left item of a matching pair
+}
+
+export interface QuestionResult {
+  blockId: string;
+  score: number;
+  maxScore: number;
+  correct: boolean;
+  expected?: string[]; // Shown to the student after checking
+  gaps?: GapResult[];
+}
+
+export interface GradeReport {
+  score: number;
+  maxScore: number;
+  results: Record<string, QuestionResult>; // Keyed by block id; ungradable questions are omitted
+}
+
+export interface StudentResponse {
+  format: 'worksheeter-response';
+  version: 1;
+  worksheetTitle: string;
+  worksheetHash: string; // hashWorksheet() of the worksheet the answers belong to
+  studentName: string;
+  submittedAt: string; // ISO timestamp
+  answers: Record<string, any>; // Keyed by block id; cloze answers are records keyed by gap key
+  timing?: ResponseTiming; // Timed assessments only
+  seed?: string; // The student's shuffle seed, so untouched ordering questions grade in the order they were shown
+  signature: string; // Checksum over all other fields, flags hand-edited files
+}
+
+export interface ResponseTiming {
+  startedAt: string; // ISO timestamp
+  pageSeconds: number[]; // Time spent on each page in order; a single entry when the pages weren't shown one at a time
+  autoSubmitted?: boolean; // Submitted because time ran out
+}
+
+export interface GradebookColumn {
+  blockId: string;
+  label: string; // Numbering as shown to students, e.g. "2.b"
+  prompt: string;
+  maxScore: number;
+  gapKeys: string[];
+}
+
+export interface GradebookRow {
+  fileName: string;
+  response: StudentResponse;
+  report: GradeReport;
+  warnings: string[];
+}
+
+export interface Gradebook {
+  columns: GradebookColumn[];
+  rows: GradebookRow[];
+  averages: Record<string, number>; // Mean score ratio (0..1) per block id
+  classAverage: number;
+}
+
+export interface BankTags {
+  subject: string;
+  grade: string;
+  topic: string;
+}
+
+export interface BankItem {
+  id: string;
+  block: Block; // A question, text block or whole group
+  tags: BankTags;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LibraryEntry {
+  id: string;
+  data: WorksheetData;
+  createdAt: number;
+  updatedAt: number;
 }
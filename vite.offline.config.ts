@@ -0,0 +1,20 @@
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+// The offline player (offline-player.tsx) as one self-contained script, written next to the app's build.
+// Run after the app's build, which empties dist first.
+export default defineConfig({
+  plugins: [react()],
+  build: {
+    emptyOutDir: false,
+    copyPublicDir: false,
+    rollupOptions: {
+      input: 'offline-player.tsx',
+      output: {
+        format: 'es',
+        inlineDynamicImports: true,
+        entryFileNames: 'offline-player.js',
+      },
+    },
+  },
+})
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { createZip, readZip } from "./zip";
+
+const ENTRIES = [
+  { name: 'manifest.json', content: '{"worksheets":[]}' },
+  { name: 'worksheets/résumé.wks', content: 'ünïcode '.repeat(100) },
+];
+
+describe('zip', () => {
+  it('reads back what it writes', async () => {
+    expect(await readZip(await createZip(ENTRIES))).toEqual(ENTRIES);
+  });
+
+  it('rejects files that are not zips', async () => {
+    await expect(readZip(new Blob(['not a zip']))).rejects.toThrow('This is not a zip file.');
+  });
+
+  it('reports truncated or corrupted archives with a readable error', async () => {
+    const bytes = new Uint8Array(await (await createZip(ENTRIES)).arrayBuffer());
+    const damaged: Uint8Array[] = [];
+    for (let cut = 1; cut < bytes.length; cut += 5) damaged.push(bytes.slice(0, bytes.length - cut));
+    for (let i = 0; i < bytes.length; i++) {
+      const copy = bytes.slice();
+      copy[i] = 0xff;
+      damaged.push(copy);
+    }
+    for (const data of damaged) {
+      const error = await readZip(new Blob([data as BlobPart])).then(() => null, (e: Error) => e);
+      if (error) expect(error.constructor).toBe(Error);
+    }
+  });
+});